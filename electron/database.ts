@@ -36,6 +36,12 @@ export interface Message {
   timestamp: number
   hasCode: boolean
   library?: string
+  interrupted?: boolean
+  isError?: boolean // The app's notice that a request failed, not a model reply
+  parentId?: string // Message this one follows; messages sharing a parent are variants
+  model?: string
+  siblingIds?: string[] // All variants at this position, oldest first (read-only)
+  sources?: Record<string, any>[] // Past conversations and snippets retrieved as context
 }
 
 export interface AppSettings {
@@ -59,6 +65,7 @@ export interface CodeSnippet {
   category?: string
   createdAt: number
   updatedAt: number
+  screenshotBase64?: string // Thumbnail of the scene the snippet was saved from
 }
 
 export interface Favorite {
@@ -82,8 +89,40 @@ export interface RAGDocument {
   chunkText: string
   chunkIndex: number
   metadata?: string
+  similarity?: number // Cosine similarity to the query embedding
+  score?: number // Combined keyword and vector rank
 }
 
+/**
+ * A chunk of a message or snippet, split and embedded by the renderer
+ */
+export interface RAGChunk {
+  text: string
+  start?: number // Offsets of the chunk in the source text
+  end?: number
+  embedding?: number[]
+}
+
+export interface RAGSearchOptions {
+  topK?: number
+  libraryId?: string
+  sourceTypes?: Array<'message' | 'conversation' | 'snippet'>
+  excludeConversationId?: string // Documents from this conversation are skipped
+  queryEmbedding?: number[]
+  embeddingModel?: string // Only vectors from this model are compared
+  minSimilarity?: number
+}
+
+// Weight of cosine similarity vs. BM25 keyword rank in hybrid search
+const VECTOR_WEIGHT = 0.7
+const KEYWORD_WEIGHT = 0.3
+
+// Minimum cosine similarity for a vector-only match
+const MIN_SIMILARITY_THRESHOLD = 0.3
+
+// Keyword candidates fetched from FTS before re-ranking
+const KEYWORD_CANDIDATES = 50
+
 export class DatabaseService {
   private db: any
   private dbPath: string
@@ -116,6 +155,7 @@ export class DatabaseService {
 
       // Create tables
       this.createTables()
+      this.migrateSchema()
 
       console.log(`Database initialized at ${this.dbPath}`)
     } catch (error) {
@@ -151,6 +191,12 @@ export class DatabaseService {
         timestamp INTEGER NOT NULL,
         has_code INTEGER DEFAULT 0,
         library TEXT,
+        interrupted INTEGER DEFAULT 0,
+        is_error INTEGER DEFAULT 0,
+        parent_id TEXT,
+        is_active INTEGER DEFAULT 1,
+        model TEXT,
+        sources TEXT,
         FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
       )
     `)
@@ -174,7 +220,8 @@ export class DatabaseService {
         tags TEXT,
         category TEXT,
         created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
+        updated_at INTEGER NOT NULL,
+        screenshot_base64 TEXT
       )
     `)
 
@@ -195,6 +242,18 @@ export class DatabaseService {
       )
     `)
 
+    // Project files table (the playground's file tree per conversation)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS project_files (
+        conversation_id TEXT NOT NULL,
+        path TEXT NOT NULL,
+        content TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (conversation_id, path),
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+      )
+    `)
+
     // RAG documents table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS rag_documents (
@@ -213,6 +272,8 @@ export class DatabaseService {
         id TEXT PRIMARY KEY,
         document_id TEXT NOT NULL,
         embedding BLOB NOT NULL,
+        model TEXT,
+        dimension INTEGER,
         FOREIGN KEY (document_id) REFERENCES rag_documents(id) ON DELETE CASCADE
       )
     `)
@@ -239,6 +300,96 @@ export class DatabaseService {
     console.log('Database tables created successfully')
   }
 
+  /**
+   * Add columns introduced after the initial schema to existing databases
+   */
+  private migrateSchema(): void {
+    this.ensureColumn('messages', 'interrupted', 'INTEGER DEFAULT 0')
+    if (this.ensureColumn('messages', 'is_error', 'INTEGER DEFAULT 0')) {
+      // Error notices saved before the flag existed
+      this.db.exec(`UPDATE messages SET is_error = 1 WHERE role = 'assistant' AND content LIKE 'Sorry, I encountered an error:%'`)
+    }
+    this.ensureColumn('messages', 'is_active', 'INTEGER DEFAULT 1')
+    this.ensureColumn('messages', 'model', 'TEXT')
+    this.ensureColumn('messages', 'sources', 'TEXT')
+    if (this.ensureColumn('messages', 'parent_id', 'TEXT')) {
+      this.backfillMessageParents()
+    }
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_messages_parent
+      ON messages(conversation_id, parent_id)
+    `)
+
+    this.ensureColumn('code_snippets', 'screenshot_base64', 'TEXT')
+
+    this.ensureColumn('rag_embeddings', 'model', 'TEXT')
+    this.ensureColumn('rag_embeddings', 'dimension', 'INTEGER')
+
+    this.ensureFtsTriggers()
+  }
+
+  /**
+   * Keep rag_documents_fts in sync with rag_documents. It is an external
+   * content table, so it only sees rows written through these triggers;
+   * documents indexed before they existed are picked up by a rebuild.
+   */
+  private ensureFtsTriggers(): void {
+    const existing = this.db.prepare(`
+      SELECT name FROM sqlite_master WHERE type = 'trigger' AND name = 'rag_documents_ai'
+    `).get()
+    if (existing) return
+
+    this.db.exec(`
+      CREATE TRIGGER rag_documents_ai AFTER INSERT ON rag_documents BEGIN
+        INSERT INTO rag_documents_fts(rowid, chunk_text) VALUES (new.rowid, new.chunk_text);
+      END;
+
+      CREATE TRIGGER rag_documents_ad AFTER DELETE ON rag_documents BEGIN
+        INSERT INTO rag_documents_fts(rag_documents_fts, rowid, chunk_text) VALUES ('delete', old.rowid, old.chunk_text);
+      END;
+
+      CREATE TRIGGER rag_documents_au AFTER UPDATE ON rag_documents BEGIN
+        INSERT INTO rag_documents_fts(rag_documents_fts, rowid, chunk_text) VALUES ('delete', old.rowid, old.chunk_text);
+        INSERT INTO rag_documents_fts(rowid, chunk_text) VALUES (new.rowid, new.chunk_text);
+      END;
+    `)
+
+    this.db.exec(`INSERT INTO rag_documents_fts(rag_documents_fts) VALUES ('rebuild')`)
+  }
+
+  /**
+   * Add a column if it is missing. Returns true if the column was added.
+   */
+  private ensureColumn(table: string, column: string, definition: string): boolean {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all().map((row: any) => row.name)
+    if (columns.includes(column)) return false
+
+    this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+    return true
+  }
+
+  /**
+   * Chain pre-existing messages in timestamp order so linear conversations
+   * become a single path in the message tree
+   */
+  private backfillMessageParents(): void {
+    const rows = this.db.prepare(`
+      SELECT id, conversation_id
+      FROM messages
+      ORDER BY conversation_id, timestamp ASC, rowid ASC
+    `).all()
+    const updateStmt = this.db.prepare('UPDATE messages SET parent_id = ? WHERE id = ?')
+
+    let previous: any = null
+    for (const row of rows as any[]) {
+      if (previous && previous.conversation_id === row.conversation_id) {
+        updateStmt.run(previous.id, row.id)
+      }
+      previous = row
+    }
+  }
+
   /**
    * Generate a unique ID
    */
@@ -338,8 +489,15 @@ export class DatabaseService {
   }
 
   deleteConversation(id: string): void {
+    // Drop the retrieval index for its messages
+    const messageIds = this.db.prepare('SELECT id FROM messages WHERE conversation_id = ?').all(id)
+    for (const row of messageIds as any[]) {
+      this.deleteRAGDocuments('message', row.id)
+    }
+
     // Delete messages first (CASCADE should handle this, but explicit is safer)
     this.db.prepare('DELETE FROM messages WHERE conversation_id = ?').run(id)
+    this.db.prepare('DELETE FROM project_files WHERE conversation_id = ?').run(id)
     this.db.prepare('DELETE FROM conversations WHERE id = ?').run(id)
   }
 
@@ -367,12 +525,13 @@ export class DatabaseService {
 
   // ==================== Message Methods ====================
 
-  addMessage(message: Omit<Message, 'id'>): string {
+  addMessage(message: Omit<Message, 'id' | 'siblingIds'>): string {
     const id = this.generateId()
+    const parentId = message.parentId || null
 
     const insertStmt = this.db.prepare(`
-      INSERT INTO messages (id, conversation_id, role, content, timestamp, has_code, library)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO messages (id, conversation_id, role, content, timestamp, has_code, library, parent_id, is_active, model, sources, is_error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?)
     `)
 
     insertStmt.run(
@@ -382,9 +541,20 @@ export class DatabaseService {
       message.content,
       message.timestamp,
       message.hasCode ? 1 : 0,
-      message.library || null
+      message.library || null,
+      parentId,
+      message.model || null,
+      message.sources && message.sources.length > 0 ? JSON.stringify(message.sources) : null,
+      message.isError ? 1 : 0
     )
 
+    // The new message becomes the active variant at its position
+    this.db.prepare(`
+      UPDATE messages
+      SET is_active = 0
+      WHERE conversation_id = ? AND parent_id IS ? AND id != ?
+    `).run(message.conversationId, parentId, id)
+
     // Update conversation message count and updated_at
     const updateStmt = this.db.prepare(`
       UPDATE conversations
@@ -399,39 +569,145 @@ export class DatabaseService {
     return id
   }
 
+  /**
+   * Get the active path through the conversation's message tree
+   */
   getMessages(conversationId: string): Message[] {
     const stmt = this.db.prepare(`
-      SELECT id, conversation_id, role, content, timestamp, has_code, library
+      SELECT id, conversation_id, role, content, timestamp, has_code, library, interrupted, parent_id, is_active, model, sources, is_error
       FROM messages
       WHERE conversation_id = ?
-      ORDER BY timestamp ASC
+      ORDER BY timestamp ASC, rowid ASC
     `)
 
     const rows = stmt.all(conversationId)
-    return rows.map((row: any) => ({
-      id: row.id,
-      conversationId: row.conversation_id,
-      role: row.role,
-      content: row.content,
-      timestamp: row.timestamp,
-      hasCode: row.has_code === 1,
-      library: row.library
-    }))
+    const activeIds = new Set<string>()
+    const messages: Message[] = rows.map((row: any) => {
+      if (row.is_active === 1) activeIds.add(row.id)
+      return {
+        id: row.id,
+        conversationId: row.conversation_id,
+        role: row.role,
+        content: row.content,
+        timestamp: row.timestamp,
+        hasCode: row.has_code === 1,
+        library: row.library,
+        interrupted: row.interrupted === 1,
+        isError: row.is_error === 1,
+        parentId: row.parent_id || undefined,
+        model: row.model || undefined,
+        sources: row.sources ? JSON.parse(row.sources) : undefined
+      }
+    })
+
+    return this.resolveActivePath(messages, activeIds)
+  }
+
+  /**
+   * Walk the message tree from the root, following the active child at each level
+   */
+  private resolveActivePath(messages: Message[], activeIds: Set<string>): Message[] {
+    const children = new Map<string, Message[]>()
+    for (const message of messages) {
+      const key = message.parentId || ''
+      const group = children.get(key) || []
+      group.push(message)
+      children.set(key, group)
+    }
+
+    const path: Message[] = []
+    const visited = new Set<string>()
+    let siblings = children.get('')
+
+    while (siblings && siblings.length > 0) {
+      const candidates: Message[] = siblings
+      const active = candidates.filter(m => activeIds.has(m.id)).pop() || candidates[candidates.length - 1]
+      if (visited.has(active.id)) break
+      visited.add(active.id)
+
+      path.push({ ...active, siblingIds: candidates.map(m => m.id) })
+      siblings = children.get(active.id)
+    }
+
+    return path
+  }
+
+  /**
+   * Make a message the active variant among its siblings
+   */
+  selectMessage(id: string): void {
+    const row: any = this.db.prepare('SELECT conversation_id, parent_id FROM messages WHERE id = ?').get(id)
+    if (!row) return
+
+    this.db.prepare(`
+      UPDATE messages
+      SET is_active = CASE WHEN id = ? THEN 1 ELSE 0 END
+      WHERE conversation_id = ? AND parent_id IS ?
+    `).run(id, row.conversation_id, row.parent_id)
   }
 
-  updateMessage(id: string, content: string): void {
-    const stmt = this.db.prepare('UPDATE messages SET content = ? WHERE id = ?')
-    stmt.run(content, id)
+  updateMessage(id: string, content: string, updates: { hasCode?: boolean; interrupted?: boolean; isError?: boolean } = {}): void {
+    const setClauses: string[] = ['content = ?']
+    const values: any[] = [content]
+
+    if (updates.hasCode !== undefined) {
+      setClauses.push('has_code = ?')
+      values.push(updates.hasCode ? 1 : 0)
+    }
+    if (updates.interrupted !== undefined) {
+      setClauses.push('interrupted = ?')
+      values.push(updates.interrupted ? 1 : 0)
+    }
+    if (updates.isError !== undefined) {
+      setClauses.push('is_error = ?')
+      values.push(updates.isError ? 1 : 0)
+    }
+
+    values.push(id)
+
+    const stmt = this.db.prepare(`
+      UPDATE messages
+      SET ${setClauses.join(', ')}
+      WHERE id = ?
+    `)
+    stmt.run(...values)
   }
 
   deleteMessage(id: string): void {
-    // Get conversation_id before deleting
-    const getStmt = this.db.prepare('SELECT conversation_id FROM messages WHERE id = ?')
-    const row = getStmt.get(id)
+    // Get conversation_id and tree position before deleting
+    const getStmt = this.db.prepare('SELECT conversation_id, parent_id, is_active FROM messages WHERE id = ?')
+    const row: any = getStmt.get(id)
 
     if (row) {
       // Delete message
       this.db.prepare('DELETE FROM messages WHERE id = ?').run(id)
+      this.deleteRAGDocuments('message', id)
+
+      // Re-attach its replies to its parent so the rest of the path survives.
+      // Replies of an inactive variant stay hidden.
+      this.db.prepare(`
+        UPDATE messages
+        SET parent_id = ?, is_active = CASE WHEN ? = 1 THEN is_active ELSE 0 END
+        WHERE parent_id = ?
+      `).run(row.parent_id, row.is_active, id)
+
+      // If the deleted message was active and nothing took its place, fall back to the newest sibling
+      if (row.is_active === 1) {
+        this.db.prepare(`
+          UPDATE messages
+          SET is_active = 1
+          WHERE id = (
+            SELECT id FROM messages
+            WHERE conversation_id = ? AND parent_id IS ?
+            ORDER BY timestamp DESC, rowid DESC
+            LIMIT 1
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM messages
+            WHERE conversation_id = ? AND parent_id IS ? AND is_active = 1
+          )
+        `).run(row.conversation_id, row.parent_id, row.conversation_id, row.parent_id)
+      }
 
       // Update conversation message count
       this.db.prepare(`
@@ -473,8 +749,8 @@ export class DatabaseService {
     const now = Date.now()
 
     const stmt = this.db.prepare(`
-      INSERT INTO code_snippets (id, title, description, code, library, tags, category, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO code_snippets (id, title, description, code, library, tags, category, created_at, updated_at, screenshot_base64)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `)
 
     stmt.run(
@@ -486,7 +762,8 @@ export class DatabaseService {
       snippet.tags || '',
       snippet.category || null,
       now,
-      now
+      now,
+      snippet.screenshotBase64 || null
     )
 
     return id
@@ -508,12 +785,14 @@ export class DatabaseService {
       tags: row.tags,
       category: row.category,
       createdAt: row.created_at,
-      updatedAt: row.updated_at
+      updatedAt: row.updated_at,
+      screenshotBase64: row.screenshot_base64 || undefined
     }))
   }
 
   deleteSnippet(id: string): void {
     this.db.prepare('DELETE FROM code_snippets WHERE id = ?').run(id)
+    this.deleteRAGDocuments('snippet', id)
   }
 
   searchSnippets(query: string): CodeSnippet[] {
@@ -537,10 +816,43 @@ export class DatabaseService {
       tags: row.tags,
       category: row.category,
       createdAt: row.created_at,
-      updatedAt: row.updated_at
+      updatedAt: row.updated_at,
+      screenshotBase64: row.screenshot_base64 || undefined
     }))
   }
 
+  // ==================== Project Files Methods ====================
+
+  getProjectFiles(conversationId: string): Record<string, string> {
+    const rows = this.db.prepare(`
+      SELECT path, content FROM project_files
+      WHERE conversation_id = ?
+      ORDER BY path
+    `).all(conversationId)
+
+    const files: Record<string, string> = {}
+    for (const row of rows as any[]) {
+      files[row.path] = row.content
+    }
+    return files
+  }
+
+  saveProjectFiles(conversationId: string, files: Record<string, string>): void {
+    const now = Date.now()
+    const save = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM project_files WHERE conversation_id = ?').run(conversationId)
+      const insert = this.db.prepare(`
+        INSERT INTO project_files (conversation_id, path, content, updated_at)
+        VALUES (?, ?, ?, ?)
+      `)
+      for (const [path, content] of Object.entries(files)) {
+        insert.run(conversationId, path, content, now)
+      }
+    })
+
+    save()
+  }
+
   // ==================== Favorites Methods ====================
 
   addFavorite(favorite: Omit<Favorite, 'id' | 'createdAt' | 'favoriteOrder'>): string {
@@ -659,76 +971,194 @@ export class DatabaseService {
 
   // ==================== RAG Methods ====================
 
-  indexMessageForRAG(message: { id: string; content: string; role: string; library?: string }): void {
-    // Skip if message is too short or is a user message (we mainly want to index assistant responses)
+  /**
+   * Index a message. The renderer splits it into chunks and computes their
+   * embeddings (it holds the embeddings API key); without chunks the whole
+   * message is stored, and without embeddings it is keyword-searchable only.
+   */
+  indexMessageForRAG(message: {
+    id: string
+    content: string
+    role: string
+    conversationId?: string
+    library?: string
+    chunks?: RAGChunk[]
+    embedding?: number[]
+    embeddingModel?: string
+  }): void {
+    // Skip messages too short to be useful context
     if (message.content.length < 50) return
 
-    const docId = this.generateId()
+    this.saveRAGDocuments({
+      sourceType: 'message',
+      sourceId: message.id,
+      chunks: message.chunks || [{ text: message.content, embedding: message.embedding }],
+      metadata: { role: message.role, conversationId: message.conversationId, library: message.library },
+      embeddingModel: message.embeddingModel
+    })
+  }
+
+  indexSnippetForRAG(snippet: {
+    id: string
+    content: string
+    title: string
+    library?: string
+    chunks?: RAGChunk[]
+    embedding?: number[]
+    embeddingModel?: string
+  }): void {
+    this.saveRAGDocuments({
+      sourceType: 'snippet',
+      sourceId: snippet.id,
+      chunks: snippet.chunks || [{ text: snippet.content, embedding: snippet.embedding }],
+      metadata: { title: snippet.title, library: snippet.library },
+      embeddingModel: snippet.embeddingModel
+    })
+  }
 
-    // Insert document
-    const insertDocStmt = this.db.prepare(`
-      INSERT INTO rag_documents (id, source_type, source_id, chunk_text, chunk_index, metadata)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `)
+  /**
+   * Replace the documents for a source with one per chunk, storing chunk
+   * offsets in the metadata and embeddings where given
+   */
+  private saveRAGDocuments(params: {
+    sourceType: string
+    sourceId: string
+    chunks: RAGChunk[]
+    metadata: Record<string, any>
+    embeddingModel?: string
+  }): void {
+    const save = this.db.transaction(() => {
+      this.deleteRAGDocuments(params.sourceType, params.sourceId)
+
+      params.chunks.forEach((chunk, index) => {
+        const docId = this.generateId()
+        const metadata = chunk.start !== undefined && chunk.end !== undefined
+          ? { ...params.metadata, chunkStart: chunk.start, chunkEnd: chunk.end, chunkCount: params.chunks.length }
+          : params.metadata
+
+        this.db.prepare(`
+          INSERT INTO rag_documents (id, source_type, source_id, chunk_text, chunk_index, metadata)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).run(docId, params.sourceType, params.sourceId, chunk.text, index, JSON.stringify(metadata))
+
+        if (chunk.embedding && chunk.embedding.length > 0) {
+          this.db.prepare(`
+            INSERT INTO rag_embeddings (id, document_id, embedding, model, dimension)
+            VALUES (?, ?, ?, ?, ?)
+          `).run(
+            this.generateId(),
+            docId,
+            Buffer.from(new Float32Array(chunk.embedding).buffer),
+            params.embeddingModel || null,
+            chunk.embedding.length
+          )
+        }
+      })
+    })
 
-    insertDocStmt.run(
-      docId,
-      'message',
-      message.id,
-      message.content,
-      0,
-      JSON.stringify({ role: message.role, library: message.library })
-    )
+    save()
+  }
 
-    // Update FTS index
-    // Note: For full RAG with embeddings, you would call the embedding API here
-    // and store the embedding in rag_embeddings table
+  deleteRAGDocuments(sourceType: string, sourceId: string): void {
+    this.db.prepare(`
+      DELETE FROM rag_embeddings
+      WHERE document_id IN (SELECT id FROM rag_documents WHERE source_type = ? AND source_id = ?)
+    `).run(sourceType, sourceId)
+    this.db.prepare('DELETE FROM rag_documents WHERE source_type = ? AND source_id = ?').run(sourceType, sourceId)
   }
 
-  searchRAG(query: string, options?: { topK?: number; libraryId?: string }): RAGDocument[] {
+  /**
+   * Hybrid search: BM25 keyword rank from rag_documents_fts combined with
+   * cosine similarity to the query embedding, when one is given
+   */
+  searchRAG(query: string, options?: RAGSearchOptions): RAGDocument[] {
     const topK = options?.topK || 10
+    const queryEmbedding = options?.queryEmbedding
+    const embeddingModel = options?.embeddingModel
+    const minSimilarity = options?.minSimilarity ?? MIN_SIMILARITY_THRESHOLD
 
-    // Use FTS5 for keyword search
-    const stmt = this.db.prepare(`
-      SELECT d.id, d.source_type, d.source_id, d.chunk_text, d.chunk_index, d.metadata
-      FROM rag_documents d
-      JOIN rag_documents_fts fts ON d.rowid = fts.rowid
-      WHERE rag_documents_fts MATCH ?
-      LIMIT ?
-    `)
+    const candidates = new Map<string, { row: any; keyword: number; similarity?: number }>()
+
+    // Filters apply before ranking, so excluded documents can't take up topK
+    const filter = ragSearchFilter(options)
+
+    // Keyword candidates, with BM25 normalized so the best match scores 1
+    const keywordRows = this.keywordSearch(query, KEYWORD_CANDIDATES, filter)
+    const bestRank = keywordRows.length > 0 ? Math.min(...keywordRows.map((row: any) => row.rank)) : 0
+    for (const row of keywordRows) {
+      candidates.set(row.id, { row, keyword: bestRank < 0 ? row.rank / bestRank : 1 })
+    }
+
+    // Vector candidates: every embedded document in the library
+    if (queryEmbedding && queryEmbedding.length > 0) {
+      const rows = this.db.prepare(`
+        SELECT d.id, d.source_type, d.source_id, d.chunk_text, d.chunk_index, d.metadata, e.embedding
+        FROM rag_documents d
+        JOIN rag_embeddings e ON e.document_id = d.id
+        WHERE (? IS NULL OR e.model = ?)${filter.sql}
+      `).all(embeddingModel ?? null, embeddingModel ?? null, ...filter.params)
+
+      for (const row of rows as any[]) {
+        const embedding = fromEmbeddingBlob(row.embedding)
+        // Vectors from a different embedding model can't be compared
+        if (embedding.length !== queryEmbedding.length) continue
+
+        const similarity = cosineSimilarity(queryEmbedding, embedding)
+        const existing = candidates.get(row.id)
+        if (existing) {
+          existing.similarity = similarity
+        } else if (similarity >= minSimilarity) {
+          candidates.set(row.id, { row, keyword: 0, similarity })
+        }
+      }
+    }
+
+    const results = Array.from(candidates.values()).map(({ row, keyword, similarity }) => ({
+      id: row.id,
+      sourceType: row.source_type,
+      sourceId: row.source_id,
+      chunkText: row.chunk_text,
+      chunkIndex: row.chunk_index,
+      metadata: row.metadata,
+      similarity,
+      score: queryEmbedding ? VECTOR_WEIGHT * (similarity ?? 0) + KEYWORD_WEIGHT * keyword : keyword
+    }))
+
+    results.sort((a, b) => b.score - a.score)
+    return results.slice(0, topK)
+  }
+
+  /**
+   * FTS5 keyword search. Each query word is quoted so punctuation in the
+   * user's text can't break the MATCH syntax; falls back to LIKE on error.
+   */
+  private keywordSearch(query: string, limit: number, filter: { sql: string; params: unknown[] }): any[] {
+    const terms = query.match(/[\p{L}\p{N}_]{2,}/gu) || []
+    if (terms.length === 0) return []
+
+    const matchQuery = terms.map(term => `"${term}"`).join(' OR ')
 
     try {
-      const rows = stmt.all(query, topK)
-      return rows.map((row: any) => ({
-        id: row.id,
-        sourceType: row.source_type,
-        sourceId: row.source_id,
-        chunkText: row.chunk_text,
-        chunkIndex: row.chunk_index,
-        metadata: row.metadata
-      }))
+      return this.db.prepare(`
+        SELECT d.id, d.source_type, d.source_id, d.chunk_text, d.chunk_index, d.metadata,
+               bm25(rag_documents_fts) AS rank
+        FROM rag_documents_fts
+        JOIN rag_documents d ON d.rowid = rag_documents_fts.rowid
+        WHERE rag_documents_fts MATCH ?${filter.sql}
+        ORDER BY rank
+        LIMIT ?
+      `).all(matchQuery, ...filter.params, limit)
     } catch {
-      // FTS query might fail, fall back to LIKE search
-      const fallbackStmt = this.db.prepare(`
-        SELECT id, source_type, source_id, chunk_text, chunk_index, metadata
-        FROM rag_documents
-        WHERE chunk_text LIKE ?
+      return this.db.prepare(`
+        SELECT d.id, d.source_type, d.source_id, d.chunk_text, d.chunk_index, d.metadata, 0 AS rank
+        FROM rag_documents d
+        WHERE d.chunk_text LIKE ?${filter.sql}
         LIMIT ?
-      `)
-
-      const rows = fallbackStmt.all(`%${query}%`, topK)
-      return rows.map((row: any) => ({
-        id: row.id,
-        sourceType: row.source_type,
-        sourceId: row.source_id,
-        chunkText: row.chunk_text,
-        chunkIndex: row.chunk_index,
-        metadata: row.metadata
-      }))
+      `).all(`%${query}%`, ...filter.params, limit)
     }
   }
 
-  getRAGContext(query: string, options?: { topK?: number; libraryId?: string }): string {
+  getRAGContext(query: string, options?: RAGSearchOptions): string {
     const documents = this.searchRAG(query, options)
 
     if (documents.length === 0) {
@@ -737,7 +1167,11 @@ export class DatabaseService {
 
     // Build context string from retrieved documents
     const contextParts = documents.map((doc, index) => {
-      return `[Context ${index + 1}]\n${doc.chunkText.substring(0, 1000)}`
+      let entry = `[Context ${index + 1}]`
+      if (doc.similarity !== undefined) {
+        entry += ` (relevance: ${(doc.similarity * 100).toFixed(0)}%)`
+      }
+      return `${entry}\n${doc.chunkText.substring(0, 1000)}`
     })
 
     return `Previous relevant context:\n\n${contextParts.join('\n\n')}`
@@ -764,6 +1198,8 @@ export class DatabaseService {
     // Reopen
     this.db = new Database(this.dbPath)
     this.db.pragma('journal_mode = WAL')
+    this.createTables()
+    this.migrateSchema()
   }
 
   /**
@@ -775,3 +1211,51 @@ export class DatabaseService {
     }
   }
 }
+
+/**
+ * Cosine similarity between two vectors. Same formula as
+ * src/lib/embedding-service.ts, which the main process build can't import.
+ */
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dotProduct = 0
+  let normA = 0
+  let normB = 0
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB)
+  return magnitude === 0 ? 0 : dotProduct / magnitude
+}
+
+function fromEmbeddingBlob(blob: Buffer): Float32Array {
+  return new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength))
+}
+
+/**
+ * SQL conditions for the search filters, on rag_documents aliased as `d`,
+ * each starting with AND
+ */
+function ragSearchFilter(options?: RAGSearchOptions): { sql: string; params: unknown[] } {
+  let sql = ''
+  const params: unknown[] = []
+
+  if (options?.libraryId) {
+    sql += ` AND json_extract(d.metadata, '$.library') = ?`
+    params.push(options.libraryId)
+  }
+  if (options?.sourceTypes && options.sourceTypes.length > 0) {
+    sql += ` AND d.source_type IN (${options.sourceTypes.map(() => '?').join(', ')})`
+    params.push(...options.sourceTypes)
+  }
+  if (options?.excludeConversationId) {
+    // IS NOT keeps snippets, which have no conversation
+    sql += ` AND json_extract(d.metadata, '$.conversationId') IS NOT ?`
+    params.push(options.excludeConversationId)
+  }
+
+  return { sql, params }
+}
@@ -8,7 +8,7 @@
 import { ipcMain, dialog, shell, clipboard, nativeImage, app, BrowserWindow } from 'electron'
 import path from 'path'
 import fs from 'fs'
-import { DatabaseService } from './database'
+import { DatabaseService, type RAGSearchOptions } from './database'
 import { KeychainService } from './keychain'
 
 // Service instances
@@ -74,14 +74,18 @@ function registerDatabaseHandlers(): void {
     return databaseService.addMessage(message as any)
   })
 
-  ipcMain.handle('db:messages:update', async (_, id: string, content: string) => {
-    return databaseService.updateMessage(id, content)
+  ipcMain.handle('db:messages:update', async (_, id: string, content: string, updates?: { hasCode?: boolean; interrupted?: boolean; isError?: boolean }) => {
+    return databaseService.updateMessage(id, content, updates)
   })
 
   ipcMain.handle('db:messages:delete', async (_, id: string) => {
     return databaseService.deleteMessage(id)
   })
 
+  ipcMain.handle('db:messages:select', async (_, id: string) => {
+    return databaseService.selectMessage(id)
+  })
+
   // Settings
   ipcMain.handle('db:settings:get', async () => {
     return databaseService.getSettings()
@@ -129,16 +133,29 @@ function registerDatabaseHandlers(): void {
     return databaseService.searchFavorites(query)
   })
 
+  // Project files
+  ipcMain.handle('db:projectFiles:get', async (_, conversationId: string) => {
+    return databaseService.getProjectFiles(conversationId)
+  })
+
+  ipcMain.handle('db:projectFiles:save', async (_, conversationId: string, files: Record<string, string>) => {
+    return databaseService.saveProjectFiles(conversationId, files)
+  })
+
   // RAG
   ipcMain.handle('db:rag:indexMessage', async (_, message: Record<string, any>) => {
     return databaseService.indexMessageForRAG(message as any)
   })
 
-  ipcMain.handle('db:rag:search', async (_, query: string, options?: { topK?: number; libraryId?: string }) => {
+  ipcMain.handle('db:rag:indexSnippet', async (_, snippet: Record<string, any>) => {
+    return databaseService.indexSnippetForRAG(snippet as any)
+  })
+
+  ipcMain.handle('db:rag:search', async (_, query: string, options?: RAGSearchOptions) => {
     return databaseService.searchRAG(query, options)
   })
 
-  ipcMain.handle('db:rag:getContext', async (_, query: string, options?: { topK?: number; libraryId?: string }) => {
+  ipcMain.handle('db:rag:getContext', async (_, query: string, options?: RAGSearchOptions) => {
     return databaseService.getRAGContext(query, options)
   })
 
@@ -1,6 +1,8 @@
 import { app, BrowserWindow, shell, ipcMain } from 'electron'
 import * as path from 'path'
 import * as url from 'url'
+import { createApplicationMenu } from './menu'
+import { setupIpcHandlers } from './ipc-handlers'
 
 const isDev = process.env.NODE_ENV === 'development'
 
@@ -37,6 +39,8 @@ function createWindow(): void {
     )
   }
 
+  createApplicationMenu(mainWindow)
+
   mainWindow.once('ready-to-show', () => {
     mainWindow?.show()
   })
@@ -52,6 +56,8 @@ function createWindow(): void {
 }
 
 app.whenReady().then(() => {
+  // The database lives in userData, which is only available once the app is ready
+  setupIpcHandlers()
   createWindow()
 
   app.on('activate', () => {
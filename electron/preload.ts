@@ -1,6 +1,48 @@
-import { contextBridge, ipcRenderer } from 'electron'
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron'
 
 contextBridge.exposeInMainWorld('electronAPI', {
   getAppVersion: () => ipcRenderer.invoke('get-app-version'),
   getPlatform: () => ipcRenderer.invoke('get-platform'),
+  // Handled in ipc-handlers.ts
+  database: {
+    getConversations: () => ipcRenderer.invoke('db:conversations:getAll'),
+    getConversation: (id: string) => ipcRenderer.invoke('db:conversations:get', id),
+    createConversation: (data: { title?: string; library: string; preview?: string }) => ipcRenderer.invoke('db:conversations:create', data),
+    updateConversation: (id: string, updates: Record<string, any>) => ipcRenderer.invoke('db:conversations:update', id, updates),
+    deleteConversation: (id: string) => ipcRenderer.invoke('db:conversations:delete', id),
+    searchConversations: (query: string) => ipcRenderer.invoke('db:conversations:search', query),
+    getMessages: (conversationId: string) => ipcRenderer.invoke('db:messages:getAll', conversationId),
+    addMessage: (message: Record<string, any>) => ipcRenderer.invoke('db:messages:add', message),
+    updateMessage: (id: string, content: string, updates?: { hasCode?: boolean; interrupted?: boolean; isError?: boolean }) =>
+      ipcRenderer.invoke('db:messages:update', id, content, updates),
+    deleteMessage: (id: string) => ipcRenderer.invoke('db:messages:delete', id),
+    selectMessage: (id: string) => ipcRenderer.invoke('db:messages:select', id),
+    getSettings: () => ipcRenderer.invoke('db:settings:get'),
+    saveSettings: (settings: Record<string, any>) => ipcRenderer.invoke('db:settings:save', settings),
+    getSnippets: (library?: string) => ipcRenderer.invoke('db:snippets:getAll', library),
+    addSnippet: (snippet: Record<string, any>) => ipcRenderer.invoke('db:snippets:add', snippet),
+    deleteSnippet: (id: string) => ipcRenderer.invoke('db:snippets:delete', id),
+    searchSnippets: (query: string) => ipcRenderer.invoke('db:snippets:search', query),
+    getFavorites: () => ipcRenderer.invoke('db:favorites:getAll'),
+    addFavorite: (favorite: Record<string, any>) => ipcRenderer.invoke('db:favorites:add', favorite),
+    updateFavorite: (id: string, updates: Record<string, any>) => ipcRenderer.invoke('db:favorites:update', id, updates),
+    deleteFavorite: (id: string) => ipcRenderer.invoke('db:favorites:delete', id),
+    searchFavorites: (query: string) => ipcRenderer.invoke('db:favorites:search', query),
+    getProjectFiles: (conversationId: string) => ipcRenderer.invoke('db:projectFiles:get', conversationId),
+    saveProjectFiles: (conversationId: string, files: Record<string, string>) =>
+      ipcRenderer.invoke('db:projectFiles:save', conversationId, files),
+    indexMessage: (message: Record<string, any>) => ipcRenderer.invoke('db:rag:indexMessage', message),
+    indexSnippet: (snippet: Record<string, any>) => ipcRenderer.invoke('db:rag:indexSnippet', snippet),
+    searchRAG: (query: string, options?: Record<string, any>) => ipcRenderer.invoke('db:rag:search', query, options),
+    getRAGContext: (query: string, options?: Record<string, any>) => ipcRenderer.invoke('db:rag:getContext', query, options),
+    exportDatabase: () => ipcRenderer.invoke('db:export'),
+    importDatabase: (data: Uint8Array) => ipcRenderer.invoke('db:import', data),
+  },
+  events: {
+    onMenuAction: (callback: (action: string) => void) => {
+      const listener = (_event: IpcRendererEvent, action: string) => callback(action)
+      ipcRenderer.on('menu:action', listener)
+      return () => ipcRenderer.removeListener('menu:action', listener)
+    },
+  },
 })
@@ -6,15 +6,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { getProxyHosts } from '@/lib/provider-adapters'
 
-const ALLOWED_DOMAINS = [
-  'api.anthropic.com',
-  'api.x.ai',
-]
+// Hosts of the adapters marked needsProxy
+const ALLOWED_DOMAINS = getProxyHosts()
 
 export async function POST(request: NextRequest) {
   try {
-    const { url, headers: forwardHeaders, body } = await request.json()
+    const { url, method = 'POST', headers: forwardHeaders, body } = await request.json()
 
     if (!url || typeof url !== 'string') {
       return NextResponse.json({ error: 'Missing target URL' }, { status: 400 })
@@ -25,10 +24,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: `Domain not allowed: ${targetHost}` }, { status: 403 })
     }
 
+    // GET lists models; everything else is a generation request
+    if (method !== 'GET' && method !== 'POST') {
+      return NextResponse.json({ error: `Method not allowed: ${method}` }, { status: 405 })
+    }
+
+    // request.signal aborts when the client disconnects (e.g. the user pressed Stop),
+    // which cancels the upstream generation instead of letting it run to completion
     const upstream = await fetch(url, {
-      method: 'POST',
+      method,
       headers: forwardHeaders as Record<string, string>,
-      body: typeof body === 'string' ? body : JSON.stringify(body),
+      body: method === 'GET' ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+      signal: request.signal,
     })
 
     // Pipe response body directly — handles both streaming SSE and non-streaming JSON
@@ -41,6 +48,10 @@ export async function POST(request: NextRequest) {
       },
     })
   } catch (error) {
+    if (request.signal.aborted) {
+      // Client is gone — nobody to respond to
+      return new Response(null, { status: 499 })
+    }
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Proxy error' },
       { status: 500 }
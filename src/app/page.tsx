@@ -1,21 +1,48 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { ChatInterface } from '@/components/chat/chat-interface'
 import { PlaygroundView } from '@/components/playground/playground-view'
 import { ConversationList } from '@/components/conversation/conversation-list'
 import { SnippetLibrary } from '@/components/snippets/snippet-library'
+import { FavoritesView } from '@/components/favorites/favorites-view'
 import { SettingsPanel } from '@/components/settings/settings-panel'
 import { Header } from '@/components/layout/header'
 import { BottomNavigation } from '@/components/layout/bottom-navigation'
 import { AdBanner } from '@/components/ads/AdBanner'
 import { AdInterstitial } from '@/components/ads/AdInterstitial'
-import { useAppStore } from '@/store/app-store'
+import { useAppStore, type ViewType } from '@/store/app-store'
+import { getElectronAPI } from '@/lib/platform'
+
+// Desktop app: View menu items
+const MENU_VIEWS: Record<string, ViewType> = {
+  viewChat: 'chat',
+  viewPlayground: 'playground',
+  viewHistory: 'history',
+  viewSnippets: 'snippets',
+  viewFavorites: 'favorites'
+}
 
 export default function Home() {
-  const { currentView, setCurrentView } = useAppStore()
+  const { currentView, setCurrentView, setShowExportDialog } = useAppStore()
   const [showSettings, setShowSettings] = useState(false)
 
+  useEffect(() => {
+    const api = getElectronAPI()
+    if (!api?.events?.onMenuAction) return
+
+    return api.events.onMenuAction((action) => {
+      const view = MENU_VIEWS[action]
+      if (view) {
+        setCurrentView(view)
+      } else if (action === 'exportScene') {
+        // The export dialog lives in the playground
+        setCurrentView('playground')
+        setShowExportDialog(true)
+      }
+    })
+  }, [setCurrentView, setShowExportDialog])
+
   const renderCurrentView = () => {
     switch (currentView) {
       case 'chat':
@@ -34,6 +61,8 @@ export default function Home() {
             }}
           />
         )
+      case 'favorites':
+        return <FavoritesView />
       default:
         return <ChatInterface />
     }
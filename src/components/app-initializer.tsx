@@ -56,6 +56,15 @@ export function AppInitializer({ children }: AppInitializerProps) {
     initializeApp()
   }, [initialize])
 
+  // Tell the user when changes stop being saved; one toast however many writes fail
+  useEffect(() => {
+    return dbService.onPersistError(() => {
+      toast.error('Changes could not be saved. Free up browser storage or export a backup.', {
+        id: 'db-persist-error'
+      })
+    })
+  }, [])
+
   // Handle successful unlock
   const handleUnlock = (apiKeys: DecryptedApiKeys) => {
     // Filter out undefined values and update settings
@@ -1,18 +1,43 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import { Send, Loader2, Code, Copy, Download, ChevronDown, Sparkles, BookOpen } from 'lucide-react'
-import { useAppStore } from '@/store/app-store'
-import { AIService } from '@/lib/ai-service'
-import { extractCodeFromMessage, copyToClipboard, downloadTextFile } from '@/lib/utils'
+import { Send, Loader2, Code, Copy, Download, ChevronDown, Sparkles, BookOpen, Square, GitCompare } from 'lucide-react'
+import { useAppStore, type AIProvider, type ChatMessage as ChatMessageType } from '@/store/app-store'
+import { AIService, isAbortError, type AIMessage } from '@/lib/ai-service'
+import { hasProviderCredentials } from '@/lib/custom-providers'
+import { getElectronAPI } from '@/lib/platform'
+import { getRAGContextWithSources, type RAGSource } from '@/lib/rag-service'
+import { fitToContextWindow, describeContextReport } from '@/lib/context-manager'
+import { extractCodeFromMessage, extractCodeBlocks, selectSceneBlock, copyToClipboard, downloadTextFile, type CodeBlock } from '@/lib/utils'
+import { buildPatchPrompt, parseCodePatch } from '@/lib/code-patch'
+import { extractCodeFiles, normalizePath } from '@/lib/project-files'
 import { ChatMessage } from './chat-message'
+import type { RegenerateOptions } from './regenerate-menu'
 import { ExamplesModal } from '../examples/examples-modal'
+import { SaveSnippetDialog } from '../snippets/save-snippet-dialog'
 import toast from 'react-hot-toast'
 
+/**
+ * Turns to send as context; the app's own error notices are not part of the
+ * conversation the model had
+ */
+function toHistory(messages: ChatMessageType[]): AIMessage[] {
+  return messages.filter(m => !m.isError).map(m => ({ role: m.role, content: m.content }))
+}
+
 export function ChatInterface() {
   const {
     messages,
     addMessage,
+    updateMessage,
+    addMessageVariant,
+    selectMessageVariant,
+    editMessage,
+    conversations,
+    currentConversationId,
+    loadConversation,
+    loadSnippets,
+    loadSnippetToEditor,
     isLoading,
     setLoading,
     settings,
@@ -21,7 +46,16 @@ export function ChatInterface() {
     getCurrentLibrary,
     getCurrentProvider,
     getCurrentModel,
+    getEmbeddingProvider,
+    currentCode,
     setCurrentCode,
+    setPendingPatch,
+    projectFiles,
+    applyCodeFiles,
+    favorites,
+    addFavorite,
+    removeFavorite,
+    getSceneThumbnail,
     setCurrentView,
     updateSettings
   } = useAppStore()
@@ -30,10 +64,13 @@ export function ChatInterface() {
   const [showLibraryDropdown, setShowLibraryDropdown] = useState(false)
   const [showModelDropdown, setShowModelDropdown] = useState(false)
   const [showExamples, setShowExamples] = useState(false)
+  const [contextNotice, setContextNotice] = useState<string | null>(null)
+  const [snippetCode, setSnippetCode] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
   const libraryDropdownRef = useRef<HTMLDivElement>(null)
   const modelDropdownRef = useRef<HTMLDivElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
   const aiService = AIService.getInstance()
 
   useEffect(() => {
@@ -74,39 +111,57 @@ export function ChatInterface() {
     toast.success(`Switched to ${model?.name}`)
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!input.trim() || isLoading) return
-
-    const userMessage = input.trim()
-    setInput('')
-    
-    // Add user message
-    addMessage({
-      role: 'user',
-      content: userMessage
-    })
-
-    const provider = getCurrentProvider()
-    const model = getCurrentModel()
+  /**
+   * Stream an assistant reply to `userMessage` into a new message. With
+   * `variantOf` the reply is stored as another variant of that message.
+   */
+  const streamAssistantReply = async ({
+    history,
+    userMessage,
+    provider,
+    model,
+    temperature,
+    variantOf
+  }: {
+    history: AIMessage[]
+    userMessage: string
+    provider: AIProvider
+    model: AIProvider['models'][number]
+    temperature: number
+    variantOf?: string
+  }) => {
     const library = getCurrentLibrary()
 
-    if (!provider || !model) {
-      toast.error('Please configure AI provider and model in settings')
-      return
-    }
-
-    const apiKey = settings.apiKeys[provider.id]
-    if (!apiKey || apiKey.trim() === '') {
+    const apiKey = settings.apiKeys[provider.id] || ''
+    if (!hasProviderCredentials(provider.id, settings.apiKeys)) {
       toast.error(`Please set your ${provider.name} API key in settings`)
       return
     }
 
     setLoading(true)
 
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    let assistantMessageId: string | null = null
+    let streamedContent = ''
+
     try {
       // Build enhanced prompt with library context
       let enhancedPrompt = userMessage
+
+      // Patch mode: ask for edits to the editor's code instead of a new file
+      const patchMode = settings.codeEditMode === 'patch' && currentCode.trim() !== ''
+
+      // Related past conversations and snippets for this library
+      let sources: RAGSource[] = []
+      const rag = await getRAGContextWithSources(userMessage, getEmbeddingProvider(), {
+        libraryId: library?.id,
+        excludeConversationId: currentConversationId || undefined
+      })
+      if (rag.context) {
+        sources = rag.sources
+      }
       
       if (library) {
         enhancedPrompt = `${library.systemPrompt}\n\nUser request: ${userMessage}`
@@ -114,76 +169,306 @@ export function ChatInterface() {
         // Add library context
         enhancedPrompt += `\n\nLibrary: ${library.name} v${library.version}`
         enhancedPrompt += `\nDescription: ${library.description}`
+
+        // After the instructions and the request, which context trimming keeps
+        if (rag.context) {
+          enhancedPrompt += `\n\n${rag.context}`
+        }
         
         // Add code template if generating new code
-        if (userMessage.toLowerCase().includes('create') || userMessage.toLowerCase().includes('make') || userMessage.toLowerCase().includes('generate')) {
+        if (!patchMode && (userMessage.toLowerCase().includes('create') || userMessage.toLowerCase().includes('make') || userMessage.toLowerCase().includes('generate'))) {
           enhancedPrompt += `\n\nUse this as a starting template:\n\`\`\`javascript\n${library.codeTemplate}\n\`\`\``
         }
       }
 
+      const isReact = library?.id === 'react-three-fiber' || library?.id === 'reactylon'
+      const extraPaths = Object.keys(projectFiles)
+      if (extraPaths.length > 0) {
+        enhancedPrompt += `\n\nOther files in the project: ${extraPaths.join(', ')}`
+      }
+      if (isReact) {
+        enhancedPrompt += `\n\nTo split the scene into several files, put each file in its own code block with its path, for example \`\`\`jsx title="src/Box.jsx"`
+      }
+
+      if (patchMode) {
+        enhancedPrompt += `\n\n${buildPatchPrompt(currentCode, isReact ? 'jsx' : 'javascript')}`
+      }
+
+      if (!library && rag.context) {
+        enhancedPrompt = `${rag.context}\n\n${enhancedPrompt}`
+      }
+
       // Add placeholder for streaming response
-      const assistantMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-      addMessage({
-        role: 'assistant',
+      const placeholder = {
+        role: 'assistant' as const,
         content: '',
         library: library?.id,
-        hasCode: false
+        hasCode: false,
+        model: model.id,
+        sources
+      }
+      const messageId = variantOf
+        ? addMessageVariant(variantOf, placeholder)
+        : addMessage(placeholder)
+      assistantMessageId = messageId
+
+      // Trim older turns so the request fits the model's context window
+      const contextWindow = fitToContextWindow({
+        messages: [...history, { role: 'user', content: enhancedPrompt }],
+        systemPrompt: settings.systemPrompt,
+        provider: provider.id,
+        contextLength: model.contextLength
       })
+      setContextNotice(describeContextReport(contextWindow))
 
-      let streamedContent = ''
-      
-      await aiService.generateStreamingResponse(enhancedPrompt, {
+      await aiService.generateStreamingResponse(contextWindow.messages, {
         provider: provider.id,
         model: model.id,
         apiKey,
-        temperature: settings.temperature,
+        baseUrl: provider.baseUrl,
+        temperature,
         topP: settings.topP,
-        systemPrompt: settings.systemPrompt
+        systemPrompt: settings.systemPrompt,
+        // The output the context budget left room for
+        maxTokens: contextWindow.maxOutputTokens,
+        signal: abortController.signal
       }, (chunk) => {
         if (!chunk.done) {
           streamedContent += chunk.content
           
-          // Update the last message with streamed content
-          const updatedMessages = [...useAppStore.getState().messages]
-          const lastMessageIndex = updatedMessages.length - 1
-          if (lastMessageIndex >= 0 && updatedMessages[lastMessageIndex].role === 'assistant') {
-            updatedMessages[lastMessageIndex] = {
-              ...updatedMessages[lastMessageIndex],
-              content: streamedContent,
-              hasCode: extractCodeFromMessage(streamedContent) !== null
-            }
-            useAppStore.setState({ messages: updatedMessages })
-          }
+          // Update the placeholder with streamed content
+          useAppStore.setState((state) => ({
+            messages: state.messages.map(m =>
+              m.id === messageId
+                ? { ...m, content: streamedContent, hasCode: extractCodeFromMessage(streamedContent) !== null }
+                : m
+            )
+          }))
         }
       })
 
-      // Final update
-      const hasCode = extractCodeFromMessage(streamedContent) !== null
+      // Persist the streamed content — the placeholder was saved empty
+      updateMessage(messageId, streamedContent)
 
-      // Auto-extract and set code if found
-      if (hasCode) {
-        const extractedCode = extractCodeFromMessage(streamedContent)
-        if (extractedCode) {
-          setCurrentCode(extractedCode)
-          toast.success('Code extracted and ready to run!')
-        }
+      // Edits are reviewed in the editor before they replace any code
+      const hunks = parseCodePatch(streamedContent)
+      if (hunks) {
+        setPendingPatch({ hunks, messageId })
+        toast.success(`${hunks.length} change${hunks.length === 1 ? '' : 's'} ready to review in the playground`)
+        return
+      }
+
+      // Auto-extract the files and the runnable scene if there are any
+      const applied = applyResponseCode(streamedContent)
+      if (applied.paths.length > 0) {
+        toast.success(`Updated ${applied.paths.concat(applied.scene ? ['the scene'] : []).join(', ')}`)
+      } else if (applied.scene) {
+        toast.success('Code extracted and ready to run!')
       }
 
     } catch (error) {
+      if (isAbortError(error)) {
+        // Stopped by the user — keep whatever was generated so far
+        if (assistantMessageId) {
+          updateMessage(assistantMessageId, streamedContent, { interrupted: true })
+        }
+        toast('Generation stopped')
+        return
+      }
+
       console.error('AI API Error:', error)
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-      
-      addMessage({
-        role: 'assistant',
-        content: `Sorry, I encountered an error: ${errorMessage}\n\nPlease check your API key and try again.`
-      })
+
+      const errorContent = `Sorry, I encountered an error: ${errorMessage}\n\nPlease check your API key and try again.`
+
+      if (assistantMessageId && !streamedContent) {
+        // Nothing was generated — show the error in the placeholder's place
+        updateMessage(assistantMessageId, errorContent, { isError: true })
+      } else {
+        if (assistantMessageId) {
+          updateMessage(assistantMessageId, streamedContent, { interrupted: true })
+        }
+        addMessage({
+          role: 'assistant',
+          content: errorContent,
+          isError: true
+        })
+      }
       
       toast.error(`AI Error: ${errorMessage}`)
     } finally {
+      abortControllerRef.current = null
       setLoading(false)
     }
   }
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!input.trim() || isLoading) return
+
+    const userMessage = input.trim()
+    setInput('')
+
+    // Earlier turns of this conversation, sent so the model can refine its previous answers
+    const history = toHistory(messages)
+
+    // Add user message
+    addMessage({
+      role: 'user',
+      content: userMessage
+    })
+
+    const provider = getCurrentProvider()
+    const model = getCurrentModel()
+
+    if (!provider || !model) {
+      toast.error('Please configure AI provider and model in settings')
+      return
+    }
+
+    await streamAssistantReply({
+      history,
+      userMessage,
+      provider,
+      model,
+      temperature: settings.temperature
+    })
+  }
+
+  /**
+   * Resend the user turn before an assistant message and store the answer
+   * as a new variant of the reply
+   */
+  const handleRegenerate = async (messageId: string, options: RegenerateOptions = {}) => {
+    if (isLoading) return
+
+    const index = messages.findIndex(m => m.id === messageId)
+    let userIndex = index - 1
+    while (userIndex >= 0 && messages[userIndex].role !== 'user') {
+      userIndex--
+    }
+    // The direct reply to the user turn is the one that gets a new variant
+    const reply = messages[userIndex + 1]
+    if (index === -1 || userIndex < 0 || !reply) {
+      toast.error('No prompt to regenerate from')
+      return
+    }
+
+    const provider = options.providerId
+      ? providers.find(p => p.id === options.providerId)
+      : getCurrentProvider()
+    const model = provider?.models.find(m => m.id === (options.modelId ?? settings.selectedModel))
+
+    if (!provider || !model) {
+      toast.error('Please configure AI provider and model in settings')
+      return
+    }
+
+    await streamAssistantReply({
+      history: toHistory(messages.slice(0, userIndex)),
+      userMessage: messages[userIndex].content,
+      provider,
+      model,
+      temperature: options.temperature ?? settings.temperature,
+      variantOf: reply.id
+    })
+  }
+
+  /**
+   * Fork the conversation at an edited user message and answer the new branch
+   */
+  const handleEditMessage = async (messageId: string, newContent: string) => {
+    if (isLoading) return
+
+    const index = messages.findIndex(m => m.id === messageId)
+    if (index === -1) return
+
+    const history = toHistory(messages.slice(0, index))
+    editMessage(messageId, newContent)
+
+    const provider = getCurrentProvider()
+    const model = getCurrentModel()
+
+    if (!provider || !model) {
+      toast.error('Please configure AI provider and model in settings')
+      return
+    }
+
+    await streamAssistantReply({
+      history,
+      userMessage: newContent,
+      provider,
+      model,
+      temperature: settings.temperature
+    })
+  }
+
+  const handleSelectVariant = (id: string) => {
+    selectMessageVariant(id)
+
+    // The playground runs the latest code on the newly selected path
+    const path = useAppStore.getState().messages
+    for (let i = path.length - 1; i >= 0; i--) {
+      const code = path[i].role === 'assistant' ? extractSceneCode(path[i].content) : null
+      if (code) {
+        setCurrentCode(code)
+        break
+      }
+    }
+  }
+
+  // Keep the menu listener pointed at the latest handler without re-subscribing
+  const regenerateLastRef = useRef<() => void>(() => {})
+  regenerateLastRef.current = () => {
+    const lastAssistant = [...messages].reverse().find(m => m.role === 'assistant')
+    if (lastAssistant) {
+      handleRegenerate(lastAssistant.id)
+    }
+  }
+
+  // Desktop app: AI > Regenerate Response
+  useEffect(() => {
+    const api = getElectronAPI()
+    if (!api?.events?.onMenuAction) return
+
+    return api.events.onMenuAction((action) => {
+      if (action === 'regenerateResponse') {
+        regenerateLastRef.current()
+      }
+    })
+  }, [])
+
+  const handleOpenSource = (source: RAGSource) => {
+    if (isLoading) return
+
+    if (source.sourceType === 'snippet') {
+      loadSnippets()
+      loadSnippetToEditor(source.sourceId)
+    } else {
+      loadConversation(source.sourceId)
+    }
+  }
+
+  const getSourceTitle = (source: RAGSource) => {
+    if (source.sourceType === 'conversation') {
+      return conversations.find(c => c.id === source.sourceId)?.title || source.excerpt
+    }
+    return source.title || source.excerpt
+  }
+
+  const getModelName = (modelId?: string) => {
+    if (!modelId) return undefined
+    for (const provider of providers) {
+      const model = provider.models.find(m => m.id === modelId)
+      if (model) return model.name
+    }
+    return modelId
+  }
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -191,10 +476,42 @@ export function ChatInterface() {
     }
   }
 
-  const handleCodeExtract = (content: string) => {
-    const code = extractCodeFromMessage(content)
+  /**
+   * The block of a response to run: the scene for the current library,
+   * not whichever block (a package.json, a shell command) came first
+   */
+  const extractSceneCode = (content: string): string | null => {
+    return selectSceneBlock(extractCodeBlocks(content), getCurrentLibrary()?.id)?.code ?? null
+  }
+
+  /**
+   * Send a response's code to the project: blocks titled with a path to
+   * their files, and the scene to the editor unless one of those files was
+   * the entry file. `scene` is true if an untitled block became the scene.
+   */
+  const applyResponseCode = (content: string): { paths: string[]; scene: boolean } => {
+    const codeFiles = extractCodeFiles(content)
+    const paths = codeFiles.map(file => file.path)
+    if (codeFiles.length > 0 && applyCodeFiles(codeFiles)) {
+      return { paths, scene: false }
+    }
+
+    // Titled blocks are already in their files; the scene is one of the others
+    const untitled = extractCodeBlocks(content).filter(block => !block.filename)
+    const code = selectSceneBlock(untitled, getCurrentLibrary()?.id)?.code
     if (code) {
       setCurrentCode(code)
+    }
+    return { paths, scene: !!code }
+  }
+
+  const handleCodeExtract = (content: string) => {
+    const applied = applyResponseCode(content)
+    if (applied.paths.length > 0) {
+      setCurrentView('playground')
+      const files = `${applied.paths.length} file${applied.paths.length === 1 ? '' : 's'}`
+      toast.success(`Sent ${files}${applied.scene ? ' and the scene' : ''} to playground!`)
+    } else if (applied.scene) {
       setCurrentView('playground')
       toast.success('Code sent to playground!')
     } else {
@@ -202,6 +519,70 @@ export function ChatInterface() {
     }
   }
 
+  const handleRunBlock = (block: CodeBlock) => {
+    setCurrentCode(block.code)
+    setCurrentView('playground')
+    toast.success('Code sent to playground!')
+  }
+
+  const findFavorite = (messageId: string, block: CodeBlock) => {
+    return favorites.find(f => f.messageId === messageId && f.codeContent === block.code)
+  }
+
+  const handleFavoriteBlock = async (message: ChatMessageType, block: CodeBlock) => {
+    const existing = findFavorite(message.id, block)
+
+    try {
+      if (existing) {
+        await removeFavorite(existing.id)
+        toast.success('Removed from favorites')
+        return
+      }
+
+      // Title from the request that produced the code
+      const request = messages.find(m => m.id === message.parentId)?.content.replace(/\s+/g, ' ').trim()
+      const libraryId = message.library || settings.selectedLibrary
+      const title = block.filename
+        || (request ? (request.length > 60 ? `${request.substring(0, 60)}...` : request) : `${getCurrentLibrary()?.name || libraryId} scene`)
+
+      await addFavorite({
+        messageId: message.id,
+        conversationId: currentConversationId || '',
+        title,
+        codeContent: block.code,
+        libraryId,
+        modelUsed: message.model,
+        screenshotBase64: getSceneThumbnail(block.code)
+      })
+      toast.success('Added to favorites')
+    } catch (error) {
+      console.error('Failed to update favorites:', error)
+      toast.error('Failed to update favorites')
+    }
+  }
+
+  const handleSendBlockToFile = (block: CodeBlock) => {
+    const input = block.filename || window.prompt('File path (e.g. src/Box.jsx)')
+    if (!input) return
+
+    const path = normalizePath(input)
+    if (!path || path.includes('..')) {
+      toast.error('Invalid file path')
+      return
+    }
+
+    applyCodeFiles([{ path, code: block.code }])
+    toast.success(`Sent to ${path}`)
+  }
+
+  const handleReviewPatch = (messageId: string, content: string) => {
+    const hunks = parseCodePatch(content)
+    if (hunks) {
+      setPendingPatch({ hunks, messageId })
+      setCurrentView('playground')
+    }
+  }
+
   const handleCopyMessage = async (content: string) => {
     const success = await copyToClipboard(content)
     if (success) {
@@ -212,7 +593,7 @@ export function ChatInterface() {
   }
 
   const handleDownloadCode = (content: string) => {
-    const code = extractCodeFromMessage(content)
+    const code = extractSceneCode(content)
     if (code) {
       const library = getCurrentLibrary()
       const extension = library?.id === 'react-three-fiber' ? 'jsx' : 'js'
@@ -290,7 +671,7 @@ export function ChatInterface() {
                         <button
                           key={`${provider.id}-${model.id}`}
                           onClick={() => handleModelChange(provider.id, model.id)}
-                          disabled={!settings.apiKeys[provider.id]}
+                          disabled={!hasProviderCredentials(provider.id, settings.apiKeys)}
                           className={`w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                             currentProvider?.id === provider.id && currentModel?.id === model.id
                               ? 'bg-purple-50 dark:bg-purple-900/20'
@@ -302,7 +683,7 @@ export function ChatInterface() {
                           </div>
                           <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
                             {model.description}
-                            {!settings.apiKeys[provider.id] && ' • API key required'}
+                            {!hasProviderCredentials(provider.id, settings.apiKeys) && ' • API key required'}
                           </div>
                         </button>
                       ))}
@@ -315,6 +696,21 @@ export function ChatInterface() {
         </div>
 
         <div className="flex items-center space-x-3">
+          <button
+            onClick={() => updateSettings({ codeEditMode: settings.codeEditMode === 'patch' ? 'full' : 'patch' })}
+            className={`flex items-center space-x-1 px-3 py-1.5 rounded-lg transition-colors text-sm font-medium ${
+              settings.codeEditMode === 'patch'
+                ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+            title={settings.codeEditMode === 'patch'
+              ? 'The AI edits the current code; changes are reviewed as a diff'
+              : 'The AI writes the full scene each time'}
+          >
+            <GitCompare size={14} />
+            <span>{settings.codeEditMode === 'patch' ? 'Edit Mode' : 'Full Mode'}</span>
+          </button>
+
           <button
             onClick={() => setShowExamples(true)}
             className="flex items-center space-x-1 px-3 py-1.5 bg-gradient-to-r from-green-100 to-emerald-100 dark:from-green-900/20 dark:to-emerald-900/20 hover:from-green-200 hover:to-emerald-200 dark:hover:from-green-900/30 dark:hover:to-emerald-900/30 rounded-lg transition-colors text-sm font-medium text-gray-700 dark:text-gray-200"
@@ -332,6 +728,18 @@ export function ChatInterface() {
       {/* Examples Modal */}
       <ExamplesModal isOpen={showExamples} onClose={() => setShowExamples(false)} />
 
+      {snippetCode !== null && (
+        <SaveSnippetDialog
+          code={snippetCode}
+          currentLibrary={settings.selectedLibrary}
+          onClose={() => setSnippetCode(null)}
+          onSave={() => {
+            setSnippetCode(null)
+            loadSnippets()
+          }}
+        />
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.length === 0 ? (
@@ -365,8 +773,21 @@ export function ChatInterface() {
                 key={message.id}
                 message={message}
                 onExtractCode={() => handleCodeExtract(message.content)}
+                onReviewPatch={() => handleReviewPatch(message.id, message.content)}
                 onCopy={() => handleCopyMessage(message.content)}
                 onDownload={() => handleDownloadCode(message.content)}
+                onRunBlock={handleRunBlock}
+                onSaveBlock={(block) => setSnippetCode(block.code)}
+                onSendBlockToFile={handleSendBlockToFile}
+                onFavoriteBlock={message.role === 'assistant' ? (block) => handleFavoriteBlock(message, block) : undefined}
+                isBlockFavorited={(block) => findFavorite(message.id, block) !== undefined}
+                onRegenerate={message.role === 'assistant' ? (options) => handleRegenerate(message.id, options) : undefined}
+                onSelectVariant={handleSelectVariant}
+                onEdit={message.role === 'user' ? (content) => handleEditMessage(message.id, content) : undefined}
+                modelName={getModelName(message.model)}
+                onOpenSource={handleOpenSource}
+                getSourceTitle={getSourceTitle}
+                isGenerating={isLoading}
               />
             ))}
             
@@ -407,17 +828,24 @@ export function ChatInterface() {
             )}
           </div>
           
-          <button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            className="p-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            {isLoading ? (
-              <Loader2 size={20} className="animate-spin" />
-            ) : (
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="p-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+              title="Stop generating"
+            >
+              <Square size={20} />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="p-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
               <Send size={20} />
-            )}
-          </button>
+            </button>
+          )}
         </form>
         
         {currentModel && (
@@ -425,6 +853,12 @@ export function ChatInterface() {
             Using {currentModel.name} • Temperature: {settings.temperature} • Top-p: {settings.topP}
           </div>
         )}
+
+        {contextNotice && (
+          <div className="mt-1 text-xs text-amber-600 dark:text-amber-400 text-center">
+            Context trimmed to fit {currentModel?.name || 'the model'}&apos;s window: {contextNotice}
+          </div>
+        )}
       </div>
     </div>
   )
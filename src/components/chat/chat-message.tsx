@@ -1,8 +1,12 @@
 'use client'
 
-import { Bot, User, Code, Copy, Download, ExternalLink } from 'lucide-react'
+import { useState } from 'react'
+import { Bot, User, Code, Copy, Download, ExternalLink, ChevronLeft, ChevronRight, Pencil, MessageSquare, FileCode, GitCompare, Play, Save, FilePlus, Star } from 'lucide-react'
 import { ChatMessage as ChatMessageType } from '@/store/app-store'
-import { formatTimestamp, extractCodeFromMessage } from '@/lib/utils'
+import type { RAGSource } from '@/lib/rag-service'
+import { RegenerateMenu, type RegenerateOptions } from './regenerate-menu'
+import { formatTimestamp, extractCodeFromMessage, extractCodeBlocks, type CodeBlock } from '@/lib/utils'
+import { parseCodePatch } from '@/lib/code-patch'
 import ReactMarkdown from 'react-markdown'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { oneDark, oneLight } from 'react-syntax-highlighter/dist/cjs/styles/prism'
@@ -11,14 +15,78 @@ import { useTheme } from 'next-themes'
 interface ChatMessageProps {
   message: ChatMessageType
   onExtractCode?: () => void
+  onReviewPatch?: () => void
+  onRunBlock?: (block: CodeBlock) => void
+  onSaveBlock?: (block: CodeBlock) => void
+  onSendBlockToFile?: (block: CodeBlock) => void
+  onFavoriteBlock?: (block: CodeBlock) => void
+  isBlockFavorited?: (block: CodeBlock) => boolean
   onCopy?: () => void
   onDownload?: () => void
+  onRegenerate?: (options?: RegenerateOptions) => void
+  onSelectVariant?: (id: string) => void
+  onEdit?: (content: string) => void
+  onOpenSource?: (source: RAGSource) => void
+  getSourceTitle?: (source: RAGSource) => string
+  modelName?: string
+  isGenerating?: boolean
 }
 
-export function ChatMessage({ message, onExtractCode, onCopy, onDownload }: ChatMessageProps) {
+export function ChatMessage({
+  message,
+  onExtractCode,
+  onReviewPatch,
+  onRunBlock,
+  onSaveBlock,
+  onSendBlockToFile,
+  onFavoriteBlock,
+  isBlockFavorited,
+  onCopy,
+  onDownload,
+  onRegenerate,
+  onSelectVariant,
+  onEdit,
+  onOpenSource,
+  getSourceTitle,
+  modelName,
+  isGenerating
+}: ChatMessageProps) {
   const { theme } = useTheme()
   const isUser = message.role === 'user'
-  const hasCode = extractCodeFromMessage(message.content) !== null
+  // Edits to the current code are reviewed as a diff rather than sent whole
+  const hasPatch = !isUser && parseCodePatch(message.content) !== null
+  const hasCode = !hasPatch && extractCodeFromMessage(message.content) !== null
+  const codeBlocks = isUser ? [] : extractCodeBlocks(message.content)
+
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
+
+  const variants = message.siblingIds || []
+  const variantIndex = variants.indexOf(message.id)
+  // User-message variants are edits, each starting its own branch
+  const variantLabel = isUser ? 'branch' : 'variant'
+
+  const startEditing = () => {
+    setDraft(message.content)
+    setIsEditing(true)
+  }
+
+  const submitEdit = () => {
+    const content = draft.trim()
+    setIsEditing(false)
+    if (content && content !== message.content) {
+      onEdit?.(content)
+    }
+  }
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      submitEdit()
+    } else if (e.key === 'Escape') {
+      setIsEditing(false)
+    }
+  }
 
   return (
     <div className={`flex gap-3 ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
@@ -38,12 +106,96 @@ export function ChatMessage({ message, onExtractCode, onCopy, onDownload }: Chat
             ? 'bg-blue-600 text-white'
             : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white'
         }`}>
-          {isUser ? (
+          {isUser && isEditing ? (
+            <div className="flex flex-col gap-2 min-w-[16rem]">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleEditKeyDown}
+                rows={Math.min(Math.max(draft.split('\n').length, 2), 8)}
+                className="w-full p-2 rounded bg-white text-gray-900 resize-none focus:outline-none focus:ring-2 focus:ring-blue-300"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2 text-xs">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-2 py-1 rounded hover:bg-blue-700 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={submitEdit}
+                  disabled={!draft.trim()}
+                  className="px-2 py-1 rounded bg-white text-blue-700 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Save &amp; Submit
+                </button>
+              </div>
+            </div>
+          ) : isUser ? (
             <p className="whitespace-pre-wrap">{message.content}</p>
           ) : (
             <div className="prose prose-sm dark:prose-invert max-w-none">
               <ReactMarkdown
                 components={{
+                  // Each fenced block gets its own actions
+                  pre({ node, children, ...props }: any) {
+                    const block = codeBlocks.find(b => b.start === node?.position?.start?.offset)
+                    if (!block || isGenerating) {
+                      return <pre {...props}>{children}</pre>
+                    }
+
+                    return (
+                      <div className="my-2">
+                        <pre {...props} className="!my-0">{children}</pre>
+                        <div className="not-prose flex items-center gap-1 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          {block.language && <span className="mr-1 uppercase">{block.language}</span>}
+                          {onRunBlock && (
+                            <button
+                              onClick={() => onRunBlock(block)}
+                              className="flex items-center gap-1 px-1.5 py-0.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                              title="Run in playground"
+                            >
+                              <Play size={10} />
+                              <span>Run</span>
+                            </button>
+                          )}
+                          {onSaveBlock && (
+                            <button
+                              onClick={() => onSaveBlock(block)}
+                              className="flex items-center gap-1 px-1.5 py-0.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                              title="Save as snippet"
+                            >
+                              <Save size={10} />
+                              <span>Save</span>
+                            </button>
+                          )}
+                          {onSendBlockToFile && (
+                            <button
+                              onClick={() => onSendBlockToFile(block)}
+                              className="flex items-center gap-1 px-1.5 py-0.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                              title={block.filename ? `Send to ${block.filename}` : 'Send to a project file'}
+                            >
+                              <FilePlus size={10} />
+                              <span>{block.filename || 'Send to file'}</span>
+                            </button>
+                          )}
+                          {onFavoriteBlock && (
+                            <button
+                              onClick={() => onFavoriteBlock(block)}
+                              className="flex items-center gap-1 px-1.5 py-0.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                              title={isBlockFavorited?.(block) ? 'Remove from favorites' : 'Add to favorites'}
+                            >
+                              <Star
+                                size={10}
+                                className={isBlockFavorited?.(block) ? 'fill-yellow-400 text-yellow-500' : ''}
+                              />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  },
                   code({ className, children, ...props }: any) {
                     const match = /language-(\w+)/.exec(className || '')
                     const language = match ? match[1] : ''
@@ -76,20 +228,97 @@ export function ChatMessage({ message, onExtractCode, onCopy, onDownload }: Chat
           )}
         </div>
 
+        {/* Past conversations and snippets retrieved as context */}
+        {!isUser && message.sources && message.sources.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-gray-500 dark:text-gray-400">
+            <span>Sources:</span>
+            {message.sources.map((source) => (
+              <button
+                key={`${source.sourceType}-${source.sourceId}`}
+                onClick={() => onOpenSource?.(source)}
+                disabled={isGenerating}
+                className="flex items-center gap-1 max-w-[14rem] px-2 py-0.5 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title={source.excerpt}
+              >
+                {source.sourceType === 'snippet' ? <FileCode size={10} /> : <MessageSquare size={10} />}
+                <span className="truncate">{getSourceTitle ? getSourceTitle(source) : source.title || source.excerpt}</span>
+                {source.similarity !== undefined && (
+                  <span className="opacity-70">{Math.round(source.similarity * 100)}%</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Message metadata and actions */}
         <div className={`flex items-center gap-2 mt-1 text-xs text-gray-500 dark:text-gray-400 ${
           isUser ? 'justify-end' : 'justify-start'
         }`}>
+          {variants.length > 1 && onSelectVariant && (
+            <div className="flex items-center">
+              <button
+                onClick={() => onSelectVariant(variants[variantIndex - 1])}
+                disabled={isGenerating || variantIndex <= 0}
+                className="p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                title={`Previous ${variantLabel}`}
+              >
+                <ChevronLeft size={12} />
+              </button>
+              <span className="tabular-nums">
+                {variantIndex + 1}/{variants.length}
+              </span>
+              <button
+                onClick={() => onSelectVariant(variants[variantIndex + 1])}
+                disabled={isGenerating || variantIndex >= variants.length - 1}
+                className="p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                title={`Next ${variantLabel}`}
+              >
+                <ChevronRight size={12} />
+              </button>
+            </div>
+          )}
+
           <span>{formatTimestamp(message.timestamp)}</span>
+
+          {!isUser && modelName && (
+            <span>{modelName}</span>
+          )}
+
+          {isUser && onEdit && !isEditing && (
+            <button
+              onClick={startEditing}
+              disabled={isGenerating}
+              className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Edit and start a new branch"
+            >
+              <Pencil size={12} />
+            </button>
+          )}
           
           {message.library && (
             <span className="bg-gray-200 dark:bg-gray-700 px-2 py-0.5 rounded">
               {message.library}
             </span>
           )}
+
+          {message.interrupted && (
+            <span className="bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 px-2 py-0.5 rounded">
+              Interrupted
+            </span>
+          )}
           
           {!isUser && (
             <div className="flex items-center gap-1">
+              {hasPatch && (
+                <button
+                  onClick={onReviewPatch}
+                  className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                  title="Review changes in the editor"
+                >
+                  <GitCompare size={12} />
+                </button>
+              )}
+
               {hasCode && (
                 <button
                   onClick={onExtractCode}
@@ -117,6 +346,10 @@ export function ChatMessage({ message, onExtractCode, onCopy, onDownload }: Chat
               >
                 <Copy size={12} />
               </button>
+
+              {onRegenerate && (
+                <RegenerateMenu onRegenerate={onRegenerate} disabled={isGenerating} />
+              )}
             </div>
           )}
         </div>
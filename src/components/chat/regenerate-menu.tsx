@@ -0,0 +1,113 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { RefreshCw, ChevronDown } from 'lucide-react'
+import { useAppStore } from '@/store/app-store'
+import { hasProviderCredentials } from '@/lib/custom-providers'
+
+export interface RegenerateOptions {
+  providerId?: string
+  modelId?: string
+  temperature?: number
+}
+
+interface RegenerateMenuProps {
+  onRegenerate: (options?: RegenerateOptions) => void
+  disabled?: boolean
+}
+
+export function RegenerateMenu({ onRegenerate, disabled }: RegenerateMenuProps) {
+  const { providers, settings } = useAppStore()
+  const [isOpen, setIsOpen] = useState(false)
+  const [temperature, setTemperature] = useState(settings.temperature)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+      return () => document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  const handleOpen = () => {
+    setTemperature(settings.temperature)
+    setIsOpen(!isOpen)
+  }
+
+  const handleSelect = (providerId: string, modelId: string) => {
+    setIsOpen(false)
+    onRegenerate({ providerId, modelId, temperature })
+  }
+
+  return (
+    <div className="relative flex items-center" ref={menuRef}>
+      <button
+        onClick={() => onRegenerate()}
+        disabled={disabled}
+        className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-l transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Regenerate response"
+      >
+        <RefreshCw size={12} />
+      </button>
+      <button
+        onClick={handleOpen}
+        disabled={disabled}
+        className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-r transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Regenerate with another model"
+      >
+        <ChevronDown size={10} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-1 w-64 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50 text-left">
+          <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+            <label className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-300">
+              <span>Temperature</span>
+              <span>{temperature.toFixed(1)}</span>
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={temperature}
+              onChange={(e) => setTemperature(parseFloat(e.target.value))}
+              className="w-full"
+            />
+          </div>
+
+          <div className="py-1 max-h-64 overflow-y-auto">
+            {providers.map((provider) => (
+              <div key={provider.id}>
+                <div className="px-3 py-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                  {provider.name}
+                </div>
+                {provider.models.map((model) => (
+                  <button
+                    key={`${provider.id}-${model.id}`}
+                    onClick={() => handleSelect(provider.id, model.id)}
+                    disabled={!hasProviderCredentials(provider.id, settings.apiKeys)}
+                    className={`w-full text-left px-3 py-1.5 text-sm text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      settings.selectedProvider === provider.id && settings.selectedModel === model.id
+                        ? 'bg-purple-50 dark:bg-purple-900/20'
+                        : ''
+                    }`}
+                  >
+                    {model.name}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -70,11 +70,19 @@ export function ConversationListItem({
       onClick={() => !isEditing && onLoad(conversation.id)}
     >
       <div className="flex items-start gap-3">
-        <div className="flex-shrink-0 mt-1">
-          <MessageSquare
-            className={`w-5 h-5 ${isActive ? 'text-primary' : 'text-muted-foreground'}`}
+        {conversation.screenshotBase64 ? (
+          <img
+            src={conversation.screenshotBase64}
+            alt=""
+            className="flex-shrink-0 w-20 aspect-video object-cover rounded bg-gray-900"
           />
-        </div>
+        ) : (
+          <div className="flex-shrink-0 mt-1">
+            <MessageSquare
+              className={`w-5 h-5 ${isActive ? 'text-primary' : 'text-muted-foreground'}`}
+            />
+          </div>
+        )}
 
         <div className="flex-1 min-w-0">
           {isEditing ? (
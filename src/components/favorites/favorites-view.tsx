@@ -0,0 +1,341 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { Search, Star, Play, Trash2, Tag, Pencil, GripVertical, Calendar, Cpu } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAppStore } from '@/store/app-store'
+import { favoritesService, type Favorite } from '@/lib/favorites-service'
+
+const getLibraryColor = (library: string) => {
+  const colors: Record<string, string> = {
+    'babylonjs': 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300',
+    'threejs': 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300',
+    'react-three-fiber': 'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300',
+    'aframe': 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
+    'reactylon': 'bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300'
+  }
+  return colors[library] || 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+}
+
+const splitTags = (tags?: string) => tags ? tags.split(',').map(t => t.trim()).filter(Boolean) : []
+
+export function FavoritesView() {
+  const { favorites, loadFavorites, updateFavorite, removeFavorite, reorderFavorites, openFavorite } = useAppStore()
+
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchResults, setSearchResults] = useState<Favorite[] | null>(null)
+  const [allTags, setAllTags] = useState<string[]>([])
+  const [selectedTag, setSelectedTag] = useState<string | null>(null)
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+
+  // Refresh from the database on mount
+  useEffect(() => {
+    loadFavorites().catch(error => {
+      console.error('Failed to load favorites:', error)
+    })
+  }, [loadFavorites])
+
+  // Tag chips follow the saved favorites
+  useEffect(() => {
+    favoritesService.getAllTags()
+      .then(tags => {
+        setAllTags(tags)
+        setSelectedTag(current => current && tags.includes(current) ? current : null)
+      })
+      .catch(error => console.error('Failed to load favorite tags:', error))
+  }, [favorites])
+
+  // Search runs in the database; results are re-run when favorites change
+  useEffect(() => {
+    const query = searchQuery.trim()
+    if (!query) {
+      setSearchResults(null)
+      return
+    }
+
+    let cancelled = false
+    favoritesService.search(query)
+      .then(results => {
+        if (!cancelled) setSearchResults(results)
+      })
+      .catch(error => console.error('Failed to search favorites:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [searchQuery, favorites])
+
+  const visibleFavorites = useMemo(() => {
+    const results = searchResults ?? favorites
+    if (!selectedTag) return results
+    return results.filter(f => splitTags(f.tags).includes(selectedTag))
+  }, [favorites, searchResults, selectedTag])
+
+  // Reordering always works on the full list so hidden favorites keep their place
+  const canReorder = !searchQuery.trim() && !selectedTag
+
+  const handleDrop = (targetId: string) => {
+    const sourceId = draggedId
+    setDraggedId(null)
+    setDropTargetId(null)
+    if (!sourceId || sourceId === targetId) return
+
+    const ids = favorites.map(f => f.id).filter(id => id !== sourceId)
+    const targetIndex = ids.indexOf(targetId)
+    if (targetIndex === -1) return
+
+    // Dropping on a later card places the dragged one after it
+    const sourceIndex = favorites.findIndex(f => f.id === sourceId)
+    const originalTargetIndex = favorites.findIndex(f => f.id === targetId)
+    ids.splice(sourceIndex < originalTargetIndex ? targetIndex + 1 : targetIndex, 0, sourceId)
+
+    reorderFavorites(ids).catch(error => {
+      console.error('Failed to reorder favorites:', error)
+      toast.error('Failed to save the new order')
+    })
+  }
+
+  const handleRename = async (favorite: Favorite) => {
+    const title = window.prompt('Favorite name', favorite.title)?.trim()
+    if (!title || title === favorite.title) return
+
+    try {
+      await updateFavorite(favorite.id, { title })
+    } catch (error) {
+      console.error('Failed to rename favorite:', error)
+      toast.error('Failed to rename favorite')
+    }
+  }
+
+  const handleEditTags = async (favorite: Favorite) => {
+    const input = window.prompt('Tags (comma-separated)', favorite.tags || '')
+    if (input === null) return
+
+    try {
+      await updateFavorite(favorite.id, { tags: splitTags(input).join(', ') })
+    } catch (error) {
+      console.error('Failed to update favorite tags:', error)
+      toast.error('Failed to update tags')
+    }
+  }
+
+  const handleDelete = async (favorite: Favorite) => {
+    if (!window.confirm(`Remove "${favorite.title}" from favorites?`)) return
+
+    try {
+      await removeFavorite(favorite.id)
+    } catch (error) {
+      console.error('Failed to remove favorite:', error)
+      toast.error('Failed to remove favorite')
+    }
+  }
+
+  return (
+    <div className="h-full flex items-center justify-center p-4 bg-gray-50 dark:bg-gray-900">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-7xl h-full overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Favorites
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {visibleFavorites.length} favorite{visibleFavorites.length !== 1 ? 's' : ''}
+            {canReorder && favorites.length > 1 && ' · drag to reorder'}
+          </p>
+        </div>
+
+        {/* Search and Tags */}
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search favorites by title, code, or tags..."
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {allTags.length > 0 && (
+            <div className="flex items-center flex-wrap gap-2">
+              <Tag size={14} className="text-gray-400" />
+              <button
+                onClick={() => setSelectedTag(null)}
+                className={`px-2 py-0.5 text-xs rounded-full transition-colors ${
+                  selectedTag === null
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+              >
+                All
+              </button>
+              {allTags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => setSelectedTag(selectedTag === tag ? null : tag)}
+                  className={`px-2 py-0.5 text-xs rounded-full transition-colors ${
+                    selectedTag === tag
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Favorites Grid */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {visibleFavorites.length === 0 ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="text-center">
+                <div className="w-16 h-16 bg-gray-100 dark:bg-gray-800 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <Star className="w-8 h-8 text-gray-400" />
+                </div>
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+                  No favorites found
+                </h3>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {searchQuery || selectedTag
+                    ? 'Try adjusting your search or tag filter'
+                    : 'Star a code block in the chat to keep it here'}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {visibleFavorites.map(favorite => {
+                const tags = splitTags(favorite.tags)
+                return (
+                  <div
+                    key={favorite.id}
+                    draggable={canReorder}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move'
+                      setDraggedId(favorite.id)
+                    }}
+                    onDragOver={(e) => {
+                      if (!draggedId) return
+                      e.preventDefault()
+                      setDropTargetId(favorite.id)
+                    }}
+                    onDragLeave={() => setDropTargetId(current => current === favorite.id ? null : current)}
+                    onDrop={(e) => {
+                      e.preventDefault()
+                      handleDrop(favorite.id)
+                    }}
+                    onDragEnd={() => {
+                      setDraggedId(null)
+                      setDropTargetId(null)
+                    }}
+                    className={`bg-white dark:bg-gray-800 border rounded-lg p-4 hover:shadow-lg transition-all ${
+                      dropTargetId === favorite.id && draggedId !== favorite.id
+                        ? 'border-blue-500 ring-2 ring-blue-500/40'
+                        : 'border-gray-200 dark:border-gray-700'
+                    } ${draggedId === favorite.id ? 'opacity-50' : ''}`}
+                  >
+                    {/* Thumbnail */}
+                    {favorite.screenshotBase64 ? (
+                      <img
+                        src={favorite.screenshotBase64}
+                        alt={`${favorite.title} preview`}
+                        className="w-full aspect-video object-cover rounded mb-3 bg-gray-900"
+                      />
+                    ) : (
+                      <div className="bg-gray-50 dark:bg-gray-900 rounded border border-gray-200 dark:border-gray-700 p-2 mb-3 overflow-hidden aspect-video">
+                        <pre className="text-xs text-gray-700 dark:text-gray-300 font-mono overflow-hidden h-full">
+                          {favorite.codeContent}
+                        </pre>
+                      </div>
+                    )}
+
+                    {/* Header */}
+                    <div className="flex items-start mb-3">
+                      {canReorder && (
+                        <GripVertical size={16} className="mt-1 mr-1 flex-shrink-0 text-gray-400 cursor-grab" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate mb-1" title={favorite.title}>
+                          {favorite.title}
+                        </h3>
+                        <div className="flex items-center flex-wrap gap-2">
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${getLibraryColor(favorite.libraryId)}`}>
+                            {favorite.libraryId}
+                          </span>
+                          {favorite.modelUsed && (
+                            <span className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+                              <Cpu size={12} className="mr-1" />
+                              {favorite.modelUsed}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-1 ml-2">
+                        <button
+                          onClick={() => handleRename(favorite)}
+                          className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                          title="Rename"
+                        >
+                          <Pencil size={14} className="text-gray-600 dark:text-gray-400" />
+                        </button>
+                        <button
+                          onClick={() => handleEditTags(favorite)}
+                          className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                          title="Edit tags"
+                        >
+                          <Tag size={14} className="text-gray-600 dark:text-gray-400" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(favorite)}
+                          className="p-1.5 rounded hover:bg-red-100 dark:hover:bg-red-900 transition-colors"
+                          title="Remove from favorites"
+                        >
+                          <Trash2 size={14} className="text-red-600 dark:text-red-400" />
+                        </button>
+                      </div>
+                    </div>
+
+                    {/* Tags */}
+                    {tags.length > 0 && (
+                      <div className="flex items-center flex-wrap gap-1 mb-3">
+                        {tags.map(tag => (
+                          <button
+                            key={tag}
+                            onClick={() => setSelectedTag(tag)}
+                            className="px-1.5 py-0.5 text-xs bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded hover:bg-blue-100 dark:hover:bg-blue-900/50"
+                          >
+                            {tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Footer */}
+                    <div className="flex items-center justify-between pt-3 border-t border-gray-200 dark:border-gray-700">
+                      <div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+                        <Calendar size={12} className="mr-1" />
+                        {new Date(favorite.createdAt).toLocaleDateString()}
+                      </div>
+
+                      <button
+                        onClick={() => openFavorite(favorite.id)}
+                        className="flex items-center space-x-1 px-3 py-1.5 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors"
+                      >
+                        <Play size={14} />
+                        <span>Open in Playground</span>
+                      </button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { MessageCircle, Code, History, BookMarked } from 'lucide-react'
+import { MessageCircle, Code, History, BookMarked, Star } from 'lucide-react'
 import { useAppStore } from '@/store/app-store'
 import { cn } from '@/lib/utils'
 
@@ -26,6 +26,12 @@ export function BottomNavigation() {
       icon: BookMarked,
       description: 'Code Library'
     },
+    {
+      id: 'favorites' as const,
+      label: 'Favorites',
+      icon: Star,
+      description: 'Saved Scenes'
+    },
     {
       id: 'history' as const,
       label: 'History',
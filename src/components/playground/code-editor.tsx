@@ -1,18 +1,40 @@
 'use client'
 
 import { useEffect, useRef } from 'react'
+import { Plus, X } from 'lucide-react'
 import { Editor } from '@monaco-editor/react'
 import { useTheme } from 'next-themes'
 import { Library3D } from '@/store/app-store'
+import type { CodePatch } from '@/lib/code-patch'
+import { PatchReview } from './patch-review'
 
 interface CodeEditorProps {
   value: string
   onChange: (value: string) => void
   language: string
   library: Library3D
+  patch?: CodePatch | null // When set, the editor shows the patch as a diff for review
+  onClosePatch?: () => void
+  files?: string[] // Project file paths shown as tabs, entry file first
+  activeFile?: string
+  onSelectFile?: (path: string) => void
+  onAddFile?: () => void
+  onDeleteFile?: (path: string) => void
 }
 
-export function CodeEditor({ value, onChange, language, library }: CodeEditorProps) {
+export function CodeEditor({
+  value,
+  onChange,
+  language,
+  library,
+  patch,
+  onClosePatch,
+  files,
+  activeFile,
+  onSelectFile,
+  onAddFile,
+  onDeleteFile
+}: CodeEditorProps) {
   const { theme } = useTheme()
   const editorRef = useRef<any>(null)
 
@@ -184,24 +206,79 @@ export function CodeEditor({ value, onChange, language, library }: CodeEditorPro
             Press Ctrl+Enter to run
           </div>
         </div>
+
+        {/* File tabs */}
+        {files && (
+          <div className="flex items-center mt-2 -mb-2 overflow-x-auto">
+            {files.map((path, index) => (
+              <div
+                key={path}
+                className={`group flex items-center px-3 py-1 text-xs border-b-2 cursor-pointer whitespace-nowrap ${
+                  path === activeFile
+                    ? 'border-blue-500 text-gray-900 dark:text-white'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                }`}
+                onClick={() => onSelectFile?.(path)}
+              >
+                <span>{path}</span>
+                {/* The entry file can't be removed */}
+                {index > 0 && onDeleteFile && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onDeleteFile(path)
+                    }}
+                    className="ml-1 opacity-0 group-hover:opacity-100 hover:text-red-500 transition-opacity"
+                    title={`Delete ${path}`}
+                  >
+                    <X size={10} />
+                  </button>
+                )}
+              </div>
+            ))}
+            {onAddFile && (
+              <button
+                onClick={onAddFile}
+                className="p-1 ml-1 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+                title="Add file"
+              >
+                <Plus size={12} />
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Editor */}
-      <div className="h-full pt-12">
-        <Editor
-          height="100%"
-          language={language}
-          value={value}
-          onChange={(value) => onChange(value || '')}
-          theme={theme === 'dark' ? 'vs-dark' : 'light'}
-          options={editorOptions}
-          onMount={handleEditorDidMount}
-          loading={
-            <div className="flex items-center justify-center h-full">
-              <div className="text-gray-500 dark:text-gray-400">Loading editor...</div>
-            </div>
-          }
-        />
+      <div className={`h-full ${files ? 'pt-20' : 'pt-12'}`}>
+        {patch ? (
+          <PatchReview
+            key={patch.messageId}
+            code={value}
+            patch={patch}
+            language={language}
+            onApply={(code) => {
+              onChange(code)
+              onClosePatch?.()
+            }}
+            onDiscard={() => onClosePatch?.()}
+          />
+        ) : (
+          <Editor
+            height="100%"
+            language={language}
+            value={value}
+            onChange={(value) => onChange(value || '')}
+            theme={theme === 'dark' ? 'vs-dark' : 'light'}
+            options={editorOptions}
+            onMount={handleEditorDidMount}
+            loading={
+              <div className="flex items-center justify-center h-full">
+                <div className="text-gray-500 dark:text-gray-400">Loading editor...</div>
+              </div>
+            }
+          />
+        )}
       </div>
     </div>
   )
@@ -1,12 +1,13 @@
 'use client'
 
 import React, { Component, ErrorInfo, ReactNode } from 'react'
-import { RefreshCw, AlertTriangle, Home, MessageCircle } from 'lucide-react'
+import { RefreshCw, AlertTriangle, Home, MessageCircle, Wand2 } from 'lucide-react'
 
 interface Props {
   children: ReactNode
   fallback?: ReactNode
   onError?: (error: Error, errorInfo: ErrorInfo) => void
+  onFix?: (error: Error) => void // Shows a "Fix with AI" button
 }
 
 interface State {
@@ -47,6 +48,15 @@ export class SandpackErrorBoundary extends Component<Props, State> {
     this.setState({ hasError: false, error: null, errorInfo: null })
   }
 
+  handleFix = () => {
+    const { error } = this.state
+    if (error) {
+      this.props.onFix?.(error)
+      // The fix is reviewed in the editor; clear the boundary to show it
+      this.handleRetry()
+    }
+  }
+
   handleReload = () => {
     window.location.reload()
   }
@@ -91,6 +101,16 @@ export class SandpackErrorBoundary extends Component<Props, State> {
             )}
 
             <div className="flex flex-col sm:flex-row gap-3 justify-center">
+              {this.props.onFix && this.state.error && (
+                <button
+                  onClick={this.handleFix}
+                  className="flex items-center justify-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm font-medium"
+                >
+                  <Wand2 size={16} />
+                  <span>Fix with AI</span>
+                </button>
+              )}
+
               <button
                 onClick={this.handleRetry}
                 className="flex items-center justify-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium"
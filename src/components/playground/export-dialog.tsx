@@ -0,0 +1,263 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { X, FileDown, Loader2, WifiOff, AlertTriangle } from 'lucide-react'
+import { useAppStore } from '@/store/app-store'
+import { exportScene, EXPORT_LIBRARIES, OFFLINE_EXPORT_LIBRARIES, type ExportFormat } from '@/lib/export-service'
+import toast from 'react-hot-toast'
+
+interface ExportDialogProps {
+  packages: string[] // npm packages installed in the playground
+  onClose: () => void
+}
+
+const formats: { id: ExportFormat; label: string; description: string }[] = [
+  { id: 'zip', label: 'ZIP archive', description: 'All project files, ready to unpack and open' },
+  { id: 'project', label: 'npm project (Vite)', description: 'package.json, Vite config and ES-module sources that build to dist/' },
+  { id: 'html', label: 'Single HTML file', description: 'The page with its scripts inlined' },
+  { id: 'json', label: 'JSON', description: 'The generated files as one JSON document' }
+]
+
+export function ExportDialog({ packages, onClose }: ExportDialogProps) {
+  const { currentCode, projectFiles, getCurrentLibrary } = useAppStore()
+  const library = getCurrentLibrary()
+  const libraryId = library?.id || ''
+
+  const [filename, setFilename] = useState(`maigeXR_${libraryId}_scene`)
+  const [format, setFormat] = useState<ExportFormat>('zip')
+  const [includeReadme, setIncludeReadme] = useState(true)
+  const [includeGitignore, setIncludeGitignore] = useState(true)
+  const [offline, setOffline] = useState(false)
+  const [progress, setProgress] = useState<string | null>(null)
+  const [warnings, setWarnings] = useState<string[]>([])
+  const abortRef = useRef<AbortController | null>(null)
+
+  const isSupported = EXPORT_LIBRARIES.includes(libraryId)
+  const canExportOffline = OFFLINE_EXPORT_LIBRARIES.includes(libraryId) && format !== 'project'
+  const isExporting = progress !== null
+
+  // Stop downloads for an offline bundle if the dialog goes away
+  useEffect(() => {
+    return () => abortRef.current?.abort()
+  }, [])
+
+  const handleExport = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setProgress('Preparing')
+    setWarnings([])
+
+    try {
+      const result = await exportScene(currentCode, {
+        libraryId,
+        format,
+        includeReadme,
+        includeGitignore,
+        filename: filename.trim() || undefined,
+        files: projectFiles,
+        packages,
+        offline: offline && canExportOffline,
+        onProgress: setProgress,
+        signal: controller.signal
+      })
+
+      if (controller.signal.aborted) return
+
+      if (result.success) {
+        if (result.warnings && result.warnings.length > 0) {
+          // Keep the dialog open so the warnings can be read
+          setWarnings(result.warnings)
+          toast.success('Scene exported with warnings')
+        } else {
+          toast.success('Scene exported!')
+          onClose()
+        }
+      } else if (result.error !== 'Save cancelled') {
+        toast.error(result.error || 'Export failed')
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setProgress(null)
+      }
+    }
+  }
+
+  const handleCancel = () => {
+    if (isExporting) {
+      abortRef.current?.abort()
+      abortRef.current = null
+      setProgress(null)
+      return
+    }
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Export Scene
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {library?.name || libraryId}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {!isSupported ? (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-400">
+              {library?.name || libraryId} scenes can&apos;t be exported yet.
+            </div>
+          ) : (
+            <>
+              {/* Filename */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  File name
+                </label>
+                <input
+                  type="text"
+                  value={filename}
+                  onChange={(e) => setFilename(e.target.value)}
+                  disabled={isExporting}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              {/* Format */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Format
+                </label>
+                <div className="space-y-2">
+                  {formats.map(option => (
+                    <label
+                      key={option.id}
+                      className={`flex items-start p-3 border rounded-lg cursor-pointer transition-colors ${
+                        format === option.id
+                          ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                          : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="export-format"
+                        checked={format === option.id}
+                        onChange={() => setFormat(option.id)}
+                        disabled={isExporting}
+                        className="mt-1 mr-3"
+                      />
+                      <div>
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">{option.label}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{option.description}</div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Options */}
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={includeReadme}
+                    onChange={(e) => setIncludeReadme(e.target.checked)}
+                    disabled={isExporting || format === 'html'}
+                  />
+                  <span>Include README</span>
+                </label>
+                {format === 'project' && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={includeGitignore}
+                      onChange={(e) => setIncludeGitignore(e.target.checked)}
+                      disabled={isExporting}
+                    />
+                    <span>Include .gitignore</span>
+                  </label>
+                )}
+                {format === 'project' && packages.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Adds installed packages: {packages.join(', ')}
+                  </p>
+                )}
+                <label className={`flex items-start space-x-2 text-sm ${canExportOffline ? 'text-gray-700 dark:text-gray-300' : 'text-gray-400 dark:text-gray-500'}`}>
+                  <input
+                    type="checkbox"
+                    checked={offline && canExportOffline}
+                    onChange={(e) => setOffline(e.target.checked)}
+                    disabled={isExporting || !canExportOffline}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="flex items-center space-x-1">
+                      <WifiOff size={14} />
+                      <span>Fully offline</span>
+                    </span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {canExportOffline
+                        ? 'Downloads the library runtime and the textures, models and sounds the scene loads, so it opens from disk with no network'
+                        : 'npm projects need the network to install their dependencies'}
+                    </span>
+                  </span>
+                </label>
+              </div>
+
+              {/* Warnings from the last export */}
+              {warnings.length > 0 && (
+                <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+                  <div className="flex items-center space-x-1 text-sm font-medium text-amber-800 dark:text-amber-300 mb-1">
+                    <AlertTriangle size={14} />
+                    <span>Exported, but some parts still need the network</span>
+                  </div>
+                  <ul className="text-xs text-amber-700 dark:text-amber-400 list-disc list-inside space-y-0.5">
+                    {warnings.map((warning, index) => (
+                      <li key={index} className="break-words">{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-6 border-t border-gray-200 dark:border-gray-700">
+          <span className="text-sm text-gray-500 dark:text-gray-400 truncate mr-4">
+            {progress && `${progress}...`}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={handleCancel}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={!isSupported || isExporting}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isExporting ? <Loader2 size={16} className="animate-spin" /> : <FileDown size={16} />}
+              <span>{isExporting ? 'Exporting...' : 'Export'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { useTheme } from 'next-themes'
+import { Check, X, AlertTriangle } from 'lucide-react'
+import { applyCodePatch, getHunkStats, type CodePatch } from '@/lib/code-patch'
+
+interface PatchReviewProps {
+  code: string
+  patch: CodePatch
+  language: string
+  onApply: (code: string) => void
+  onDiscard: () => void
+}
+
+export function PatchReview({ code, patch, language, onApply, onDiscard }: PatchReviewProps) {
+  const { theme } = useTheme()
+  const [rejected, setRejected] = useState<Set<string>>(new Set())
+
+  // Preview of the code with only the accepted hunks applied
+  const result = useMemo(
+    () => applyCodePatch(code, patch.hunks.filter(hunk => !rejected.has(hunk.id))),
+    [code, patch, rejected]
+  )
+  const failedIds = new Set(result.failed.map(hunk => hunk.id))
+  const appliedCount = patch.hunks.length - rejected.size - result.failed.length
+
+  const toggleHunk = (id: string) => {
+    setRejected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-2 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800">
+        <span className="text-sm font-medium text-gray-900 dark:text-white">
+          Proposed changes • {appliedCount} of {patch.hunks.length} selected
+        </span>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={onDiscard}
+            className="flex items-center space-x-1 px-3 py-1 rounded-lg text-sm text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            <X size={14} />
+            <span>Discard</span>
+          </button>
+          <button
+            onClick={() => onApply(result.code)}
+            disabled={appliedCount === 0}
+            className="flex items-center space-x-1 px-3 py-1 rounded-lg text-sm text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Check size={14} />
+            <span>Apply</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Hunks */}
+      <div className="max-h-40 overflow-y-auto border-b border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-800">
+        {patch.hunks.map((hunk, index) => {
+          const isAccepted = !rejected.has(hunk.id)
+          const isFailed = failedIds.has(hunk.id)
+          const { removed, added } = getHunkStats(hunk)
+          const preview = (hunk.replace || hunk.search).split('\n').find(line => line.trim()) || ''
+
+          return (
+            <div key={hunk.id} className="flex items-center px-4 py-1.5 text-xs">
+              <button
+                onClick={() => toggleHunk(hunk.id)}
+                className={`mr-3 px-2 py-0.5 rounded transition-colors ${
+                  isAccepted
+                    ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
+                }`}
+                title={isAccepted ? 'Reject this change' : 'Accept this change'}
+              >
+                {isAccepted ? 'Accepted' : 'Rejected'}
+              </button>
+              <span className="text-gray-500 dark:text-gray-400 mr-2">#{index + 1}</span>
+              <span className="text-red-600 dark:text-red-400 mr-1">-{removed}</span>
+              <span className="text-green-600 dark:text-green-400 mr-3">+{added}</span>
+              <code className="flex-1 truncate text-gray-700 dark:text-gray-300">{preview.trim()}</code>
+              {isFailed && (
+                <span className="flex items-center space-x-1 ml-2 text-amber-600 dark:text-amber-400" title="The code this change targets was not found">
+                  <AlertTriangle size={12} />
+                  <span>No match</span>
+                </span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Diff */}
+      <div className="flex-1 min-h-0">
+        <DiffEditor
+          height="100%"
+          language={language}
+          original={code}
+          modified={result.code}
+          theme={theme === 'dark' ? 'vs-dark' : 'light'}
+          options={{
+            readOnly: true,
+            renderSideBySide: false,
+            minimap: { enabled: false },
+            scrollBeyondLastLine: false,
+            fontFamily: 'JetBrains Mono, Consolas, Monaco, monospace',
+            fontSize: 14,
+            automaticLayout: true
+          }}
+          loading={
+            <div className="flex items-center justify-center h-full">
+              <div className="text-gray-500 dark:text-gray-400">Loading diff...</div>
+            </div>
+          }
+        />
+      </div>
+    </div>
+  )
+}
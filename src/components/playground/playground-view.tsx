@@ -1,20 +1,64 @@
 'use client'
 
 import { useEffect, useRef, useState } from 'react'
-import { Play, Square, RotateCcw, Download, Upload, Maximize2, Minimize2, ChevronDown, Code as CodeIcon, BookOpen, Package } from 'lucide-react'
+import { Play, Square, RotateCcw, Download, Upload, Maximize2, Minimize2, ChevronDown, Code as CodeIcon, BookOpen, Package, Terminal, Wand2, Loader2, Camera, FileDown } from 'lucide-react'
 import { useAppStore } from '@/store/app-store'
 import { CodeEditor } from './code-editor'
 import { SceneRenderer } from './scene-renderer'
+import { SceneConsole } from './scene-console'
 import { SandpackWebView } from './sandpack-webview'
 import { PackageManager } from './package-manager'
-import { downloadTextFile } from '@/lib/utils'
+import { ExportDialog } from './export-dialog'
+import { XRMenu } from './xr-menu'
+import { downloadTextFile, downloadDataUrl } from '@/lib/utils'
+import { getEntryPath, getFileLanguage, normalizePath } from '@/lib/project-files'
 import { adManager } from '@/lib/ad-manager'
+import { isSceneMessage, type ConsoleEntry } from '@/lib/scene-bridge'
+import { captureScene, createThumbnail } from '@/lib/scene-capture'
+import { XR_LIBRARIES } from '@/lib/scene-xr'
+import { hasProviderCredentials } from '@/lib/custom-providers'
+import { requestCodeFix, type SceneError } from '@/lib/code-fix'
+import { applyCodePatch, type CodeHunk } from '@/lib/code-patch'
+import { isAbortError } from '@/lib/ai-service'
 import { SandpackErrorBoundary } from './error-boundary'
 import { ExamplesModal } from '../examples/examples-modal'
 import toast from 'react-hot-toast'
 
+// Oldest console entries are dropped past this
+const MAX_CONSOLE_ENTRIES = 500
+
+// How long a fixed scene must run without errors after loading
+const FIX_SETTLE_MS = 1500
+
+// A scene that never finishes loading is judged by its errors so far
+const FIX_RUN_TIMEOUT_MS = 15000
+
+// Delay after a scene loads before its thumbnail is taken, so it has drawn
+const THUMBNAIL_DELAY_MS = 1000
+
 export function PlaygroundView() {
-  const { currentCode, setCurrentCode, getCurrentLibrary, libraries, updateSettings } = useAppStore()
+  const {
+    currentCode,
+    setCurrentCode,
+    pendingPatch,
+    setPendingPatch,
+    projectFiles,
+    activeFilePath,
+    setActiveFile,
+    setProjectFile,
+    deleteProjectFile,
+    getCurrentLibrary,
+    getCurrentProvider,
+    getCurrentModel,
+    libraries,
+    settings,
+    updateSettings,
+    setSceneThumbnail,
+    getSceneThumbnail,
+    showExportDialog,
+    setShowExportDialog,
+    sceneXR
+  } = useAppStore()
   const [isRunning, setIsRunning] = useState(true) // Auto-run on load
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [splitView, setSplitView] = useState(true)
@@ -23,8 +67,23 @@ export function PlaygroundView() {
   const [showPackageManager, setShowPackageManager] = useState(false)
   const [installedPackages, setInstalledPackages] = useState<string[]>([])
   const [useNpmPackages, setUseNpmPackages] = useState(false)
+  const [showConsole, setShowConsole] = useState(false)
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([])
+  const [sceneError, setSceneError] = useState<SceneError | null>(null)
+  const [isFixing, setIsFixing] = useState(false)
+  const [previewCode, setPreviewCode] = useState<string | null>(null) // Candidate fix running during auto-fix
   const fileInputRef = useRef<HTMLInputElement>(null)
   const libraryDropdownRef = useRef<HTMLDivElement>(null)
+  const previewRef = useRef<HTMLDivElement>(null)
+  const previewCodeRef = useRef<string | null>(null)
+  const currentCodeRef = useRef(currentCode)
+  const consoleEntriesRef = useRef<ConsoleEntry[]>([])
+  const fixAbortRef = useRef<AbortController | null>(null)
+  const fixRunRef = useRef<{ resolve: (error: SceneError | null) => void; timer?: ReturnType<typeof setTimeout> } | null>(null)
+
+  consoleEntriesRef.current = consoleEntries
+  previewCodeRef.current = previewCode
+  currentCodeRef.current = currentCode
   
   const currentLibrary = getCurrentLibrary()
 
@@ -43,6 +102,16 @@ export function PlaygroundView() {
 
   const sandpackFramework = getSandpackFramework()
 
+  // npm-bundled Babylon.js and Three.js scenes have no globals for the XR bootstrap
+  const supportsXR = !!currentLibrary && XR_LIBRARIES.includes(currentLibrary.id) &&
+    (!useSandpack || currentLibrary.id === 'react-three-fiber')
+
+  // The editor shows the entry file (currentCode) or another project file;
+  // patches always target the entry file
+  const entryPath = getEntryPath(currentLibrary?.id)
+  const activePath = !pendingPatch && activeFilePath && activeFilePath in projectFiles ? activeFilePath : entryPath
+  const isEntryActive = activePath === entryPath
+
   useEffect(() => {
     // Initialize with template if no code exists
     if (!currentCode && currentLibrary) {
@@ -50,6 +119,36 @@ export function PlaygroundView() {
     }
   }, [currentLibrary, currentCode, setCurrentCode])
 
+  // Thumbnail of each scene that loads, for snippets, favorites and the
+  // conversation's preview. Candidate fixes and re-runs of code that was
+  // already captured are skipped.
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const handleMessage = (event: MessageEvent) => {
+      if (!isSceneMessage(event.data) || event.data.type !== 'ready') return
+      const iframe = previewRef.current?.querySelector('iframe')
+      if (!iframe || event.source !== iframe.contentWindow || previewCodeRef.current !== null) return
+
+      const code = currentCodeRef.current
+      clearTimeout(timer)
+      if (getSceneThumbnail(code)) return
+
+      timer = setTimeout(() => {
+        captureScene(previewRef.current)
+          .then(dataUrl => createThumbnail(dataUrl))
+          .then(thumbnail => setSceneThumbnail(code, thumbnail))
+          .catch(error => console.warn('Scene thumbnail capture failed:', error))
+      }, THUMBNAIL_DELAY_MS)
+    }
+
+    window.addEventListener('message', handleMessage)
+    return () => {
+      clearTimeout(timer)
+      window.removeEventListener('message', handleMessage)
+    }
+  }, [setSceneThumbnail, getSceneThumbnail])
+
   // Close dropdown when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -108,6 +207,16 @@ export function PlaygroundView() {
     toast.success('Code downloaded!')
   }
 
+  const handleSavePng = async () => {
+    try {
+      const dataUrl = await captureScene(previewRef.current)
+      downloadDataUrl(dataUrl, `${currentLibrary?.id || 'scene'}-${Date.now()}.png`)
+      toast.success('Screenshot saved!')
+    } catch (error) {
+      toast.error(`Screenshot failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   const handleUploadCode = () => {
     fileInputRef.current?.click()
   }
@@ -133,6 +242,30 @@ export function PlaygroundView() {
     event.target.value = ''
   }
 
+  const handleAddFile = () => {
+    const input = window.prompt('New file path (for example src/Box.jsx or shaders/wave.glsl)')
+    if (!input) return
+
+    const path = normalizePath(input)
+    if (!path || path.includes('..')) {
+      toast.error('Invalid file path')
+      return
+    }
+    if (path === entryPath || path in projectFiles) {
+      toast.error(`${path} already exists`)
+      return
+    }
+
+    setProjectFile(path, '')
+    setActiveFile(path)
+  }
+
+  const handleDeleteFile = (path: string) => {
+    if (window.confirm(`Delete ${path}?`)) {
+      deleteProjectFile(path)
+    }
+  }
+
   const toggleFullscreen = () => {
     setIsFullscreen(!isFullscreen)
   }
@@ -153,6 +286,148 @@ export function PlaygroundView() {
     setUseNpmPackages(enabled)
   }
 
+  const handleConsoleEntry = (entry: ConsoleEntry) => {
+    setConsoleEntries(prev => [...prev.slice(-(MAX_CONSOLE_ENTRIES - 1)), entry])
+  }
+
+  const consoleErrorCount = consoleEntries.filter(entry => entry.level === 'error').length
+
+  const handleSceneExecute = () => {
+    setConsoleEntries([])
+    setSceneError(null)
+  }
+
+  // Outcome of a candidate fix run in the scene
+  const finishFixRun = (error: SceneError | null) => {
+    const run = fixRunRef.current
+    if (!run) return
+    clearTimeout(run.timer)
+    fixRunRef.current = null
+    run.resolve(error)
+  }
+
+  const handleSceneError = (entry: ConsoleEntry) => {
+    setSceneError(entry)
+    finishFixRun(entry)
+  }
+
+  const handleSceneReady = () => {
+    const run = fixRunRef.current
+    if (run) {
+      clearTimeout(run.timer)
+      run.timer = setTimeout(() => finishFixRun(null), FIX_SETTLE_MS)
+    }
+  }
+
+  const runFixCandidate = (code: string): Promise<SceneError | null> => {
+    return new Promise(resolve => {
+      fixRunRef.current = { resolve, timer: setTimeout(() => finishFixRun(null), FIX_RUN_TIMEOUT_MS) }
+      setIsRunning(true)
+      setPreviewCode(code)
+    })
+  }
+
+  const handleStopFix = () => {
+    fixAbortRef.current?.abort()
+    finishFixRun(null)
+  }
+
+  /**
+   * Ask the model to fix a runtime error. The fix comes back as a patch for
+   * review; with auto-retry, each fix is first run in the scene and the model
+   * is asked again until it renders cleanly or the attempts run out.
+   */
+  const handleFixWithAI = async (error: SceneError) => {
+    if (isFixing || !currentLibrary) return
+
+    const provider = getCurrentProvider()
+    const model = getCurrentModel()
+    const apiKey = provider ? settings.apiKeys[provider.id] || '' : ''
+    if (!provider || !model || !hasProviderCredentials(provider.id, settings.apiKeys)) {
+      toast.error(`Please set your ${provider?.name || 'AI provider'} API key in settings`)
+      return
+    }
+
+    // Sandpack doesn't report whether a run succeeded, so it can't retry
+    const autoRetry = !useSandpack && settings.autoFixAttempts > 0
+    const maxAttempts = autoRetry ? settings.autoFixAttempts : 1
+
+    const abortController = new AbortController()
+    fixAbortRef.current = abortController
+    setIsFixing(true)
+
+    let hunks: CodeHunk[] = []
+    let appliedAttempts = 0
+    const previousErrors: string[] = []
+    let code = currentCode
+    let remainingError: SceneError | null = error
+    let attempts = 0
+
+    try {
+      while (remainingError && attempts < maxAttempts) {
+        attempts++
+        const fix = await requestCodeFix({
+          code,
+          error: remainingError,
+          library: currentLibrary,
+          consoleEntries: consoleEntriesRef.current,
+          previousErrors
+        }, {
+          provider: provider.id,
+          model: model.id,
+          apiKey,
+          baseUrl: provider.baseUrl,
+          topP: settings.topP,
+          signal: abortController.signal
+        })
+
+        const result = applyCodePatch(code, fix)
+        const applied = fix.filter(hunk => !result.failed.includes(hunk))
+        if (applied.length === 0) break
+        hunks = applied
+        appliedAttempts++
+        code = result.code
+
+        if (!autoRetry) break
+        previousErrors.push(remainingError.message)
+        remainingError = await runFixCandidate(code)
+        if (abortController.signal.aborted) break
+      }
+    } catch (err) {
+      if (!isAbortError(err)) {
+        toast.error(`Fix failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+    } finally {
+      finishFixRun(null)
+      setPreviewCode(null)
+      setIsFixing(false)
+      fixAbortRef.current = null
+    }
+
+    if (abortController.signal.aborted) {
+      toast('Fix cancelled')
+      return
+    }
+    if (hunks.length === 0) {
+      toast.error('The suggested fix does not match the current code')
+      return
+    }
+
+    // Each attempt was made against the previous one's code, so its hunks
+    // only apply on top of those; several attempts are reviewed as one change
+    if (appliedAttempts > 1) {
+      hunks = [{ id: 'hunk-0', search: currentCode, replace: code }]
+    }
+    setPendingPatch({ hunks: hunks.map((hunk, i) => ({ ...hunk, id: `hunk-${i}` })) })
+    if (!autoRetry) {
+      toast.success('Fix ready to review')
+    } else if (remainingError) {
+      toast.error(`Still failing after ${attempts} attempt${attempts === 1 ? '' : 's'}; review the changes so far`)
+    } else {
+      toast.success(`Scene runs without errors after ${attempts} fix${attempts === 1 ? '' : 'es'}; review the changes`)
+    }
+  }
+
   if (!currentLibrary) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -265,6 +540,39 @@ export function PlaygroundView() {
             )}
           </button>
 
+          {supportsXR && <XRMenu />}
+
+          {(sceneError || isFixing) && !pendingPatch && (
+            <button
+              onClick={() => isFixing ? handleStopFix() : sceneError && handleFixWithAI(sceneError)}
+              className="flex items-center space-x-1 px-2 py-1.5 rounded-lg text-sm text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors font-medium"
+              title={isFixing ? 'Stop fixing' : `Fix "${sceneError?.message}" with AI`}
+            >
+              {isFixing ? <Loader2 size={16} className="animate-spin" /> : <Wand2 size={16} />}
+              <span>{isFixing ? 'Fixing... (stop)' : 'Fix with AI'}</span>
+            </button>
+          )}
+
+          {!useSandpack && (
+            <button
+              onClick={() => setShowConsole(!showConsole)}
+              className={`flex items-center space-x-1 px-2 py-1.5 rounded-lg text-sm transition-colors ${
+                showConsole
+                  ? 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+              title="Scene console"
+            >
+              <Terminal size={16} />
+              <span>Console</span>
+              {consoleErrorCount > 0 && (
+                <span className="ml-1 px-1.5 py-0.5 text-xs bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 rounded">
+                  {consoleErrorCount}
+                </span>
+              )}
+            </button>
+          )}
+
           <div className="w-px h-6 bg-gray-300 dark:bg-gray-600"></div>
 
           <button
@@ -283,6 +591,25 @@ export function PlaygroundView() {
             <span>Download</span>
           </button>
 
+          <button
+            onClick={() => setShowExportDialog(true)}
+            className="flex items-center space-x-1 px-2 py-1.5 rounded-lg text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title="Export a standalone scene"
+          >
+            <FileDown size={16} />
+            <span>Export</span>
+          </button>
+
+          <button
+            onClick={handleSavePng}
+            disabled={!isRunning}
+            className="flex items-center space-x-1 px-2 py-1.5 rounded-lg text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="Save a screenshot of the scene"
+          >
+            <Camera size={16} />
+            <span>Save PNG</span>
+          </button>
+
           <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-2"></div>
           
           <button
@@ -307,43 +634,72 @@ export function PlaygroundView() {
         {(splitView || !isFullscreen) && (
           <div className={splitView ? 'w-1/2 border-r border-gray-200 dark:border-gray-700' : 'h-full'}>
             <CodeEditor
-              value={currentCode}
-              onChange={setCurrentCode}
-              language={(currentLibrary.id === 'react-three-fiber' || currentLibrary.id === 'reactylon') ? 'jsx' : 'javascript'}
+              value={isEntryActive ? currentCode : projectFiles[activePath]}
+              onChange={isEntryActive ? setCurrentCode : (value) => setProjectFile(activePath, value)}
+              language={isEntryActive
+                ? ((currentLibrary.id === 'react-three-fiber' || currentLibrary.id === 'reactylon') ? 'jsx' : 'javascript')
+                : getFileLanguage(activePath)}
               library={currentLibrary}
+              patch={pendingPatch}
+              onClosePatch={() => setPendingPatch(null)}
+              files={[entryPath, ...Object.keys(projectFiles).sort()]}
+              activeFile={activePath}
+              onSelectFile={(path) => setActiveFile(path === entryPath ? null : path)}
+              onAddFile={handleAddFile}
+              onDeleteFile={handleDeleteFile}
             />
           </div>
         )}
 
         {/* Scene Renderer - Conditional based on framework type */}
         {(splitView || isFullscreen) && (
-          <div className={splitView ? 'w-1/2' : 'h-full'}>
-            {useSandpack ? (
-              <SandpackErrorBoundary
-                onError={(error, errorInfo) => {
-                  console.error('Playground Sandpack error:', error, errorInfo)
-                  toast.error('React Three Fiber preview encountered an error. Check console for details.')
-                }}
-              >
-                <SandpackWebView
-                  initialCode={currentCode}
-                  framework={sandpackFramework}
-                  onCodeChange={setCurrentCode}
-                  onSandboxCreated={(url) => {
-                    console.log('Sandbox created:', url)
-                    toast.success('Sandbox created! URL copied to clipboard.')
+          <div className={`flex flex-col ${splitView ? 'w-1/2' : 'h-full'}`}>
+            <div ref={previewRef} className="flex-1 min-h-0">
+              {useSandpack ? (
+                <SandpackErrorBoundary
+                  onError={(error, errorInfo) => {
+                    console.error('Playground Sandpack error:', error, errorInfo)
+                    toast.error('React Three Fiber preview encountered an error. Check console for details.')
                   }}
-                  showConsole={false}
-                  showPreview={true}
-                  autoReload={isRunning}
-                  customPackages={installedPackages}
+                  onFix={(error) => handleFixWithAI({ message: error.message, stack: error.stack })}
+                >
+                  <SandpackWebView
+                    initialCode={currentCode}
+                    projectFiles={projectFiles}
+                    framework={sandpackFramework}
+                    onCodeChange={setCurrentCode}
+                    onSandboxCreated={(url) => {
+                      console.log('Sandbox created:', url)
+                      toast.success('Sandbox created! URL copied to clipboard.')
+                    }}
+                    showConsole={false}
+                    showPreview={true}
+                    autoReload={isRunning}
+                    customPackages={installedPackages}
+                    xr={sceneXR}
+                  />
+                </SandpackErrorBoundary>
+              ) : (
+                <SceneRenderer
+                  code={previewCode ?? currentCode}
+                  library={currentLibrary}
+                  isRunning={isRunning}
+                  onConsole={handleConsoleEntry}
+                  onExecute={handleSceneExecute}
+                  onReady={handleSceneReady}
+                  onError={handleSceneError}
+                  onFix={sceneError && !pendingPatch ? () => handleFixWithAI(sceneError) : undefined}
+                  isFixing={isFixing}
+                  xr={supportsXR ? sceneXR : undefined}
                 />
-              </SandpackErrorBoundary>
-            ) : (
-              <SceneRenderer
-                code={currentCode}
-                library={currentLibrary}
-                isRunning={isRunning}
+              )}
+            </div>
+
+            {!useSandpack && showConsole && (
+              <SceneConsole
+                entries={consoleEntries}
+                onClear={() => setConsoleEntries([])}
+                onClose={() => setShowConsole(false)}
               />
             )}
           </div>
@@ -374,6 +730,11 @@ export function PlaygroundView() {
           onToggleNpmPackages={handleToggleNpmPackages}
         />
       )}
+
+      {/* Export Dialog */}
+      {showExportDialog && (
+        <ExportDialog packages={installedPackages} onClose={() => setShowExportDialog(false)} />
+      )}
     </div>
   )
 }
\ No newline at end of file
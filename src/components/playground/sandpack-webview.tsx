@@ -13,12 +13,16 @@ import { codeSandboxService } from '@/lib/codesandbox-service'
 import { buildService } from '@/lib/build-service'
 import { sharingService } from '@/lib/sharing-service'
 import { copyToClipboard } from '@/lib/utils'
+import { toBundleFiles, type ProjectFiles } from '@/lib/project-files'
+import { injectSceneBridge } from '@/lib/scene-bridge'
+import { allowXR, DEFAULT_XR_SETTINGS, type SceneXRSettings } from '@/lib/scene-xr'
 import { SandpackErrorBoundary, useErrorHandler } from './error-boundary'
 import { useAppStore } from '@/store/app-store'
 import toast from 'react-hot-toast'
 
 interface SandpackWebViewProps {
   initialCode: string
+  projectFiles?: ProjectFiles // Files besides the entry, added to the bundle as-is
   framework: 'react' | 'react-three-fiber' | 'reactylon' | 'babylonjs' | 'threejs'
   onCodeChange?: (code: string) => void
   onSandboxCreated?: (sandboxUrl: string) => void
@@ -26,17 +30,20 @@ interface SandpackWebViewProps {
   showPreview?: boolean
   autoReload?: boolean
   customPackages?: string[]
+  xr?: SceneXRSettings // Adds an Enter VR/AR button to React Three Fiber scenes
 }
 
 export function SandpackWebView({
   initialCode,
+  projectFiles,
   framework,
   onCodeChange,
   onSandboxCreated,
   showConsole = false,
   showPreview = true,
   autoReload = true,
-  customPackages = []
+  customPackages = [],
+  xr = DEFAULT_XR_SETTINGS
 }: SandpackWebViewProps) {
   const [files, setFiles] = useState<Record<string, string>>({})
   const [template, setTemplate] = useState<string>('react')
@@ -48,6 +55,7 @@ export function SandpackWebView({
   const [error, setError] = useState<string | null>(null)
   const [isRetrying, setIsRetrying] = useState(false)
   const shareMenuRef = useRef<HTMLDivElement>(null)
+  const previewRef = useRef<HTMLDivElement>(null)
   const handleError = useErrorHandler()
   const { settings } = useAppStore()
 
@@ -67,7 +75,7 @@ export function SandpackWebView({
 
       // Handle React-based frameworks with codeSandboxService
       if (framework === 'react-three-fiber') {
-        generatedFiles = codeSandboxService.generateR3FFiles(initialCode)
+        generatedFiles = codeSandboxService.addR3FXRSupport(codeSandboxService.generateR3FFiles(initialCode), xr)
       } else if (framework === 'reactylon') {
         generatedFiles = codeSandboxService.generateReactylonFiles(initialCode)
       } else if (framework === 'react') {
@@ -124,6 +132,19 @@ export function SandpackWebView({
         filesObj[path] = code
       })
 
+      // Components, shaders and assets sit next to the generated files
+      if (projectFiles) {
+        const leadingSlash = Object.keys(filesObj).some(path => path.startsWith('/'))
+        Object.assign(filesObj, toBundleFiles(projectFiles, leadingSlash))
+      }
+
+      // The scene bridge lets the playground capture the preview
+      for (const path of Object.keys(filesObj)) {
+        if (/(^|\/)index\.html$/.test(path)) {
+          filesObj[path] = injectSceneBridge(filesObj[path])
+        }
+      }
+
       setFiles(filesObj)
       setTemplate(sandpackTemplate)
 
@@ -145,7 +166,28 @@ export function SandpackWebView({
       setError(`Failed to setup code environment: ${errorMessage}`)
       toast.error('Failed to initialize code environment')
     }
-  }, [initialCode, framework, customPackages])
+  }, [initialCode, projectFiles, framework, customPackages, xr])
+
+  // Previews need WebXR permissions to start a VR/AR session. Sandpack
+  // grants them to the frames it creates; make sure, and reload any
+  // frame that was missing them.
+  useEffect(() => {
+    const container = previewRef.current
+    if (!container) return
+
+    const checkFrames = () => {
+      container.querySelectorAll('iframe').forEach(iframe => {
+        if (allowXR(iframe) && iframe.src) {
+          iframe.src = iframe.src
+        }
+      })
+    }
+
+    checkFrames()
+    const observer = new MutationObserver(checkFrames)
+    observer.observe(container, { childList: true, subtree: true })
+    return () => observer.disconnect()
+  }, [error])
 
   // Close share menu when clicking outside
   useEffect(() => {
@@ -194,13 +236,19 @@ export function SandpackWebView({
     try {
       let options
       if (framework === 'react-three-fiber') {
-        options = codeSandboxService.generateR3FFiles(files['src/App.js'] || initialCode)
+        options = codeSandboxService.addR3FXRSupport(codeSandboxService.generateR3FFiles(files['src/App.js'] || initialCode), xr)
       } else if (framework === 'reactylon') {
         options = codeSandboxService.generateReactylonFiles(files['src/App.js'] || initialCode)
       } else {
         options = codeSandboxService.generateReactFiles(files['src/App.js'] || initialCode)
       }
 
+      if (projectFiles) {
+        for (const [path, code] of Object.entries(toBundleFiles(projectFiles, false))) {
+          options.files[path] = { code }
+        }
+      }
+
       const sandboxUrl = await codeSandboxService.createSandbox(options)
       onSandboxCreated?.(sandboxUrl)
 
@@ -415,7 +463,7 @@ export function SandpackWebView({
       </div>
       
       {/* Sandpack Container */}
-      <div className="flex-1 overflow-hidden">
+      <div ref={previewRef} className="flex-1 overflow-hidden">
         <SandpackErrorBoundary
           onError={(error, errorInfo) => {
             handleError(error, 'Sandpack runtime')
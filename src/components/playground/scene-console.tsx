@@ -0,0 +1,109 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Terminal, Trash2, X, AlertCircle, AlertTriangle, Info } from 'lucide-react'
+import type { ConsoleEntry, SceneConsoleLevel } from '@/lib/scene-bridge'
+
+interface SceneConsoleProps {
+  entries: ConsoleEntry[]
+  onClear: () => void
+  onClose: () => void
+}
+
+const LEVEL_STYLES: Record<SceneConsoleLevel, string> = {
+  log: 'text-gray-800 dark:text-gray-200',
+  info: 'text-blue-700 dark:text-blue-300',
+  debug: 'text-gray-500 dark:text-gray-400',
+  warn: 'bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300',
+  error: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+}
+
+function LevelIcon({ level }: { level: SceneConsoleLevel }) {
+  if (level === 'error') return <AlertCircle size={12} className="mt-0.5 flex-shrink-0" />
+  if (level === 'warn') return <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
+  if (level === 'info') return <Info size={12} className="mt-0.5 flex-shrink-0" />
+  return <span className="w-3 flex-shrink-0" />
+}
+
+export function SceneConsole({ entries, onClear, onClose }: SceneConsoleProps) {
+  const [filter, setFilter] = useState<'all' | 'warn' | 'error'>('all')
+  const endRef = useRef<HTMLDivElement>(null)
+
+  const visible = entries.filter(entry =>
+    filter === 'all' || entry.level === 'error' || (filter === 'warn' && entry.level === 'warn')
+  )
+  const errorCount = entries.filter(entry => entry.level === 'error').length
+  const warnCount = entries.filter(entry => entry.level === 'warn').length
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [entries.length])
+
+  return (
+    <div className="h-48 flex flex-col border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800">
+        <div className="flex items-center space-x-2 text-xs font-medium text-gray-700 dark:text-gray-300">
+          <Terminal size={14} />
+          <span>Console</span>
+          {errorCount > 0 && <span className="text-red-600 dark:text-red-400">{errorCount} error{errorCount === 1 ? '' : 's'}</span>}
+          {warnCount > 0 && <span className="text-amber-600 dark:text-amber-400">{warnCount} warning{warnCount === 1 ? '' : 's'}</span>}
+        </div>
+        <div className="flex items-center space-x-1">
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as 'all' | 'warn' | 'error')}
+            className="text-xs px-1 py-0.5 bg-transparent border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300"
+          >
+            <option value="all">All levels</option>
+            <option value="warn">Warnings and errors</option>
+            <option value="error">Errors only</option>
+          </select>
+          <button
+            onClick={onClear}
+            className="p-1 rounded text-gray-500 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+            title="Clear console"
+          >
+            <Trash2 size={12} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-gray-500 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+            title="Hide console"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto font-mono text-xs">
+        {visible.length === 0 ? (
+          <div className="px-3 py-2 text-gray-400 dark:text-gray-500">No console output</div>
+        ) : (
+          visible.map(entry => (
+            <div
+              key={entry.id}
+              className={`flex items-start space-x-2 px-3 py-1 border-b border-gray-100 dark:border-gray-800 ${LEVEL_STYLES[entry.level]}`}
+            >
+              <LevelIcon level={entry.level} />
+              <div className="flex-1 min-w-0">
+                <div className="whitespace-pre-wrap break-words">{entry.message}</div>
+                {entry.stack && (
+                  <details className="mt-0.5 opacity-80">
+                    <summary className="cursor-pointer select-none">Stack trace</summary>
+                    <pre className="whitespace-pre-wrap break-words">{entry.stack}</pre>
+                  </details>
+                )}
+              </div>
+              {entry.line && (
+                <span className="flex-shrink-0 text-gray-400 dark:text-gray-500" title="Line in the editor">
+                  line {entry.line}{entry.column ? `:${entry.column}` : ''}
+                </span>
+              )}
+            </div>
+          ))
+        )}
+        <div ref={endRef} />
+      </div>
+    </div>
+  )
+}
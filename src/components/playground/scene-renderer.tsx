@@ -1,56 +1,117 @@
 'use client'
 
 import { useEffect, useRef, useState } from 'react'
-import { AlertCircle, Loader2, Eye, EyeOff } from 'lucide-react'
+import { AlertCircle, Loader2, Eye, EyeOff, Wand2 } from 'lucide-react'
 import { Library3D } from '@/store/app-store'
+import { generateId } from '@/lib/utils'
+import {
+  injectSceneBridge,
+  getSceneSourceMap,
+  mapSceneLine,
+  mapSceneStack,
+  isSceneMessage,
+  type ConsoleEntry,
+  type SceneSourceMap
+} from '@/lib/scene-bridge'
+import { injectXRBootstrap, DEFAULT_XR_SETTINGS, XR_IFRAME_ALLOW, type SceneXRSettings } from '@/lib/scene-xr'
+import { injectXREmulator } from '@/lib/xr-emulator'
 
 interface SceneRendererProps {
   code: string
   library: Library3D
   isRunning: boolean
+  onConsole?: (entry: ConsoleEntry) => void
+  onExecute?: () => void // A new run started; earlier console output is stale
+  onReady?: () => void // The scene and all its resources loaded
+  onError?: (entry: ConsoleEntry) => void // Uncaught errors and rejections, not console.error
+  onFix?: () => void // Shows a "Fix with AI" button on runtime errors
+  isFixing?: boolean
+  xr?: SceneXRSettings // Adds the library's Enter VR/AR button to the scene
 }
 
-export function SceneRenderer({ code, library, isRunning }: SceneRendererProps) {
+export function SceneRenderer({ code, library, isRunning, onConsole, onExecute, onReady, onError, onFix, isFixing, xr = DEFAULT_XR_SETTINGS }: SceneRendererProps) {
   const iframeRef = useRef<HTMLIFrameElement>(null)
+  const sourceMapRef = useRef<SceneSourceMap>({ lineOffset: 0, lineCount: 0 })
+  const onConsoleRef = useRef(onConsole)
+  const onReadyRef = useRef(onReady)
+  const onErrorRef = useRef(onError)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isVisible, setIsVisible] = useState(true)
 
+  onConsoleRef.current = onConsole
+  onReadyRef.current = onReady
+  onErrorRef.current = onError
+
+  // Messages from the bridge injected into the scene
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow || !isSceneMessage(event.data)) return
+      const message = event.data
+
+      if (message.type === 'ready') {
+        setIsLoading(false)
+        onReadyRef.current?.()
+        return
+      }
+      if (message.type === 'load' || message.type === 'capture') return
+
+      if (message.type === 'console') {
+        onConsoleRef.current?.({ id: generateId(), level: message.level, message: message.message, timestamp: Date.now() })
+        return
+      }
+
+      const line = mapSceneLine(message.line, sourceMapRef.current)
+      setError(`Runtime Error: ${message.message}${line ? ` (line ${line})` : ''}`)
+      setIsLoading(false)
+      const entry: ConsoleEntry = {
+        id: generateId(),
+        level: 'error',
+        message: message.message,
+        stack: mapSceneStack(message.stack, sourceMapRef.current),
+        line,
+        column: line ? message.column : undefined,
+        timestamp: Date.now()
+      }
+      onConsoleRef.current?.(entry)
+      onErrorRef.current?.(entry)
+    }
+
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [])
+
   useEffect(() => {
     if (isRunning && code && iframeRef.current) {
       executeCode()
     }
-  }, [isRunning, code, library])
+  }, [isRunning, code, library, xr])
 
   const executeCode = () => {
     if (!iframeRef.current) return
 
     setIsLoading(true)
     setError(null)
+    onExecute?.()
 
     try {
       const iframe = iframeRef.current
       
-      // Create the HTML content for the iframe
-      const htmlContent = createSceneHTML(code, library)
+      // Create the HTML content for the iframe, with the console/error bridge
+      // and, when XR is on, the library's XR entry point
+      let htmlContent = injectXRBootstrap(createSceneHTML(code, library), library.id, code, xr)
+      if (xr.mode !== 'off' && xr.emulator) {
+        htmlContent = injectXREmulator(htmlContent)
+      }
+      htmlContent = injectSceneBridge(htmlContent)
+      sourceMapRef.current = getSceneSourceMap(htmlContent, code)
       
-      // Write the content to the iframe
+      // Write the content to the iframe; the bridge reports errors and readiness
       const doc = iframe.contentDocument || iframe.contentWindow?.document
       if (doc) {
         doc.open()
         doc.write(htmlContent)
         doc.close()
-        
-        // Listen for errors from the iframe
-        iframe.contentWindow?.addEventListener('error', (event) => {
-          setError(`Runtime Error: ${event.error?.message || event.message}`)
-          setIsLoading(false)
-        })
-        
-        // Listen for successful load
-        iframe.onload = () => {
-          setIsLoading(false)
-        }
       }
     } catch (err) {
       setError(`Execution Error: ${err instanceof Error ? err.message : 'Unknown error'}`)
@@ -331,6 +392,16 @@ export function SceneRenderer({ code, library, isRunning }: SceneRendererProps)
             <div className="text-sm">
               <div className="font-medium mb-1">Execution Error</div>
               <div className="opacity-90">{error}</div>
+              {onFix && (
+                <button
+                  onClick={onFix}
+                  disabled={isFixing}
+                  className="mt-2 flex items-center space-x-1 px-2 py-1 bg-white/20 hover:bg-white/30 disabled:opacity-50 rounded text-xs font-medium transition-colors"
+                >
+                  {isFixing ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+                  <span>{isFixing ? 'Fixing...' : 'Fix with AI'}</span>
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -343,6 +414,7 @@ export function SceneRenderer({ code, library, isRunning }: SceneRendererProps)
           className="w-full h-full border-0"
           title={`${library.name} Scene`}
           sandbox="allow-scripts allow-same-origin"
+          allow={XR_IFRAME_ALLOW}
         />
       )}
 
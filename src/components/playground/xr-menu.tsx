@@ -0,0 +1,105 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Glasses, ChevronDown } from 'lucide-react'
+import { useAppStore } from '@/store/app-store'
+import { REFERENCE_SPACES, type SceneXRMode, type SceneReferenceSpace } from '@/lib/scene-xr'
+
+const modes: { id: SceneXRMode; label: string; description: string }[] = [
+  { id: 'off', label: 'Off', description: 'Regular in-page preview' },
+  { id: 'vr', label: 'Enter VR', description: 'immersive-vr session on a headset' },
+  { id: 'ar', label: 'Enter AR', description: 'immersive-ar passthrough on headsets and phones' }
+]
+
+export function XRMenu() {
+  const { sceneXR, setSceneXR } = useAppStore()
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+      return () => document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  const isOn = sceneXR.mode !== 'off'
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center space-x-1 px-2 py-1.5 rounded-lg text-sm transition-colors font-medium ${
+          isOn
+            ? 'bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300'
+            : 'text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20'
+        }`}
+        title="WebXR session for the preview"
+      >
+        <Glasses size={16} />
+        <span>{isOn ? sceneXR.mode.toUpperCase() : 'XR'}</span>
+        <ChevronDown size={12} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-64 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50">
+          <div className="py-1">
+            {modes.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => setSceneXR({ mode: mode.id })}
+                className={`w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors ${
+                  sceneXR.mode === mode.id ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                }`}
+              >
+                <div className="font-medium text-sm text-gray-900 dark:text-white">{mode.label}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{mode.description}</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="p-3 border-t border-gray-200 dark:border-gray-700">
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Reference space
+            </label>
+            <select
+              value={sceneXR.referenceSpace}
+              onChange={(e) => setSceneXR({ referenceSpace: e.target.value as SceneReferenceSpace })}
+              className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            >
+              {REFERENCE_SPACES.map(space => (
+                <option key={space.id} value={space.id}>{space.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {REFERENCE_SPACES.find(space => space.id === sceneXR.referenceSpace)?.description}
+            </p>
+          </div>
+
+          <label className={`flex items-start space-x-2 p-3 border-t border-gray-200 dark:border-gray-700 text-sm ${isOn ? 'text-gray-700 dark:text-gray-300' : 'text-gray-400 dark:text-gray-500'}`}>
+            <input
+              type="checkbox"
+              checked={sceneXR.emulator}
+              onChange={(e) => setSceneXR({ emulator: e.target.checked })}
+              disabled={!isOn}
+              className="mt-0.5"
+            />
+            <span>
+              <span className="block">Emulate a headset</span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                Simulated Meta Quest 3 and controllers, moved from a panel in the scene
+              </span>
+            </span>
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
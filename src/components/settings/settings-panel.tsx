@@ -1,11 +1,22 @@
 'use client'
 
 import { useState } from 'react'
-import { X, Eye, EyeOff, Save, RotateCcw, Lock, Unlock, Shield } from 'lucide-react'
+import { X, Eye, EyeOff, Save, RotateCcw, Lock, Unlock, Shield, Plus, RefreshCw, Trash2, Server, Loader2 } from 'lucide-react'
 import { useAppStore } from '@/store/app-store'
-import { getParameterDescription, validateApiKey } from '@/lib/utils'
+import { formatTimestamp, getParameterDescription, validateApiKey } from '@/lib/utils'
 import { cryptoService } from '@/lib/crypto-service'
 import { dbService } from '@/lib/db-service'
+import { DEFAULT_LOCAL_EMBEDDING_MODEL } from '@/lib/embedding-service'
+import { MAX_AUTO_FIX_ATTEMPTS } from '@/lib/code-fix'
+import {
+  createCustomProviderId,
+  fetchCustomProviderModels,
+  isCustomProvider,
+  normalizeBaseUrl,
+  withCustomProviders,
+  DEFAULT_CUSTOM_PROVIDER_URL,
+  type CustomProvider
+} from '@/lib/custom-providers'
 import toast from 'react-hot-toast'
 
 interface SettingsPanelProps {
@@ -13,16 +24,25 @@ interface SettingsPanelProps {
 }
 
 export function SettingsPanel({ onClose }: SettingsPanelProps) {
-  const { settings, updateSettings, providers, libraries, getCurrentProvider, getCurrentModel } = useAppStore()
+  const { settings, updateSettings, providers, libraries, getCurrentProvider, getCurrentModel, modelCatalog, refreshModelCatalog } = useAppStore()
   const [localSettings, setLocalSettings] = useState(settings)
   const [showApiKeys, setShowApiKeys] = useState<Record<string, boolean>>({})
   const [hasChanges, setHasChanges] = useState(false)
   const [encryptionEnabled, setEncryptionEnabled] = useState(dbService.hasEncryptedApiKeys())
   const [isLocked, setIsLocked] = useState(!cryptoService.isUnlocked())
+  const [newProviderName, setNewProviderName] = useState('')
+  const [newProviderUrl, setNewProviderUrl] = useState(DEFAULT_CUSTOM_PROVIDER_URL)
+  const [newProviderKey, setNewProviderKey] = useState('')
+  const [isAddingProvider, setIsAddingProvider] = useState(false)
+  const [refreshingProviderId, setRefreshingProviderId] = useState<string | null>(null)
+  const [isRefreshingCatalog, setIsRefreshingCatalog] = useState(false)
 
-  const currentProvider = providers.find(p => p.id === localSettings.selectedProvider)
+  // Custom providers added or removed here show up before saving
+  const providerOptions = withCustomProviders(providers, localSettings.customProviders)
+  const currentProvider = providerOptions.find(p => p.id === localSettings.selectedProvider)
   const currentModel = currentProvider?.models.find(m => m.id === localSettings.selectedModel)
   const currentLibrary = libraries.find(l => l.id === localSettings.selectedLibrary)
+  const catalogEntry = modelCatalog.find(e => e.providerId === localSettings.selectedProvider)
 
   const handleSettingChange = (key: keyof typeof settings, value: any) => {
     setLocalSettings(prev => ({ ...prev, [key]: value }))
@@ -37,6 +57,109 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
     setHasChanges(true)
   }
 
+  const setCustomProviders = (customProviders: CustomProvider[]) => {
+    setLocalSettings(prev => ({ ...prev, customProviders }))
+    setHasChanges(true)
+  }
+
+  const handleAddProvider = async () => {
+    const baseUrl = normalizeBaseUrl(newProviderUrl)
+    if (!baseUrl) {
+      toast.error('Enter the base URL of the server')
+      return
+    }
+
+    setIsAddingProvider(true)
+    let models: string[] = []
+    try {
+      models = await fetchCustomProviderModels(baseUrl, newProviderKey)
+      toast.success(`Found ${models.length} model${models.length === 1 ? '' : 's'}`)
+    } catch (error) {
+      // Saved anyway, so the models can be fetched once the server is up
+      toast.error(error instanceof Error ? error.message : 'Could not list models')
+    } finally {
+      setIsAddingProvider(false)
+    }
+
+    const provider: CustomProvider = {
+      id: createCustomProviderId(),
+      name: newProviderName.trim() || baseUrl.replace(/^https?:\/\//, ''),
+      baseUrl,
+      models
+    }
+    setLocalSettings(prev => ({
+      ...prev,
+      customProviders: [...prev.customProviders, provider],
+      apiKeys: newProviderKey.trim() ? { ...prev.apiKeys, [provider.id]: newProviderKey.trim() } : prev.apiKeys
+    }))
+    setHasChanges(true)
+    setNewProviderName('')
+    setNewProviderUrl(DEFAULT_CUSTOM_PROVIDER_URL)
+    setNewProviderKey('')
+  }
+
+  const handleRefreshModels = async (provider: CustomProvider) => {
+    setRefreshingProviderId(provider.id)
+    try {
+      const models = await fetchCustomProviderModels(provider.baseUrl, localSettings.apiKeys[provider.id])
+      setCustomProviders(localSettings.customProviders.map(p => p.id === provider.id ? { ...p, models } : p))
+      toast.success(`Found ${models.length} model${models.length === 1 ? '' : 's'}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not list models')
+    } finally {
+      setRefreshingProviderId(null)
+    }
+  }
+
+  const handleRefreshCatalog = async () => {
+    setIsRefreshingCatalog(true)
+    try {
+      const { updated, failed } = await refreshModelCatalog(localSettings.apiKeys)
+      if (updated.length === 0 && failed.length === 0) {
+        toast.error('Add an API key to fetch a provider\'s models')
+        return
+      }
+
+      // Keep the selection valid if the selected model was retired
+      const provider = useAppStore.getState().providers.find(p => p.id === localSettings.selectedProvider)
+      if (provider && provider.models.length > 0 && !provider.models.some(m => m.id === localSettings.selectedModel)) {
+        handleSettingChange('selectedModel', provider.models[0].id)
+      }
+
+      const names = (ids: string[]) => ids.map(id => providers.find(p => p.id === id)?.name || id).join(', ')
+      if (updated.length > 0) {
+        toast.success(`Updated models for ${names(updated)}`)
+      }
+      if (failed.length > 0) {
+        // The cached or built-in list stays in place
+        toast.error(`Could not fetch models for ${names(failed.map(f => f.providerId))}: ${failed[0].error}`)
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not refresh models')
+    } finally {
+      setIsRefreshingCatalog(false)
+    }
+  }
+
+  const handleRemoveProvider = (providerId: string) => {
+    setLocalSettings(prev => {
+      const { [providerId]: _removed, ...apiKeys } = prev.apiKeys
+      const updated = {
+        ...prev,
+        customProviders: prev.customProviders.filter(p => p.id !== providerId),
+        apiKeys
+      }
+      // Fall back to the first built-in provider if the removed one was selected
+      if (prev.selectedProvider === providerId) {
+        const fallback = providers.find(p => !isCustomProvider(p.id))
+        updated.selectedProvider = fallback?.id || ''
+        updated.selectedModel = fallback?.models[0]?.id || ''
+      }
+      return updated
+    })
+    setHasChanges(true)
+  }
+
   const toggleShowApiKey = (providerId: string) => {
     setShowApiKeys(prev => ({ ...prev, [providerId]: !prev[providerId] }))
   }
@@ -182,14 +305,14 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                     onChange={(e) => {
                       handleSettingChange('selectedProvider', e.target.value)
                       // Reset model selection when provider changes
-                      const newProvider = providers.find(p => p.id === e.target.value)
+                      const newProvider = providerOptions.find(p => p.id === e.target.value)
                       if (newProvider) {
                         handleSettingChange('selectedModel', newProvider.models[0]?.id || '')
                       }
                     }}
                     className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
-                    {providers.map(provider => (
+                    {providerOptions.map(provider => (
                       <option key={provider.id} value={provider.id}>
                         {provider.name}
                       </option>
@@ -200,9 +323,24 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                 {/* Model Selection */}
                 {currentProvider && (
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                      Model
-                    </label>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Model
+                      </label>
+                      {!isCustomProvider(currentProvider.id) && (
+                        <button
+                          onClick={handleRefreshCatalog}
+                          disabled={isRefreshingCatalog}
+                          className="flex items-center space-x-1 text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                          title={catalogEntry ? `Last updated ${formatTimestamp(catalogEntry.fetchedAt)}` : 'Showing the built-in model list'}
+                        >
+                          {isRefreshingCatalog
+                            ? <Loader2 size={12} className="animate-spin" />
+                            : <RefreshCw size={12} />}
+                          <span>Refresh models</span>
+                        </button>
+                      )}
+                    </div>
                     <select
                       value={localSettings.selectedModel}
                       onChange={(e) => handleSettingChange('selectedModel', e.target.value)}
@@ -227,8 +365,11 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                     API Keys
                   </label>
-                  {providers.map(provider => {
-                    const validation = validateApiKey(localSettings.apiKeys[provider.id] || '', provider.id)
+                  {providerOptions.map(provider => {
+                    const isCustom = isCustomProvider(provider.id)
+                    const validation = isCustom
+                      ? { isValid: true, message: 'API key is optional' }
+                      : validateApiKey(localSettings.apiKeys[provider.id] || '', provider.id)
                     const isCurrentProvider = provider.id === localSettings.selectedProvider
                     return (
                       <div key={provider.id} className="relative">
@@ -245,7 +386,7 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                             type={showApiKeys[provider.id] ? 'text' : 'password'}
                             value={localSettings.apiKeys[provider.id] || ''}
                             onChange={(e) => handleApiKeyChange(provider.id, e.target.value)}
-                            placeholder={`Enter your ${provider.name} API key`}
+                            placeholder={isCustom ? 'API key (optional)' : `Enter your ${provider.name} API key`}
                             className={`w-full p-3 pr-12 border rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
                               isCurrentProvider && !validation.isValid 
                                 ? 'border-red-300 dark:border-red-600' 
@@ -274,6 +415,88 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                     )
                   })}
                 </div>
+
+                {/* Custom OpenAI-compatible providers */}
+                <div className="space-y-3">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Custom Providers
+                  </label>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Any OpenAI-compatible server, such as Ollama, LM Studio, llama.cpp server or vLLM. Models are listed from its /models endpoint.
+                  </p>
+
+                  {localSettings.customProviders.map(provider => (
+                    <div
+                      key={provider.id}
+                      className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
+                    >
+                      <div className="flex items-center space-x-3 min-w-0">
+                        <Server size={16} className="text-gray-500 dark:text-gray-400 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium text-gray-900 dark:text-white truncate">{provider.name}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                            {provider.baseUrl} • {provider.models.length} model{provider.models.length === 1 ? '' : 's'}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-1 flex-shrink-0">
+                        <button
+                          onClick={() => handleRefreshModels(provider)}
+                          disabled={refreshingProviderId === provider.id}
+                          className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                          title="Refresh models"
+                        >
+                          {refreshingProviderId === provider.id
+                            ? <Loader2 size={14} className="animate-spin" />
+                            : <RefreshCw size={14} />}
+                        </button>
+                        <button
+                          onClick={() => handleRemoveProvider(provider.id)}
+                          className="p-2 rounded-lg text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                          title="Remove provider"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+
+                  <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="text"
+                        value={newProviderName}
+                        onChange={(e) => setNewProviderName(e.target.value)}
+                        placeholder="Name (e.g. Ollama)"
+                        className="w-full p-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <input
+                        type="password"
+                        value={newProviderKey}
+                        onChange={(e) => setNewProviderKey(e.target.value)}
+                        placeholder="API key (optional)"
+                        className="w-full p-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={newProviderUrl}
+                        onChange={(e) => setNewProviderUrl(e.target.value)}
+                        placeholder={DEFAULT_CUSTOM_PROVIDER_URL}
+                        className="flex-1 p-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <button
+                        onClick={handleAddProvider}
+                        disabled={isAddingProvider}
+                        className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+                      >
+                        {isAddingProvider ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+                        <span>{isAddingProvider ? 'Connecting...' : 'Add'}</span>
+                      </button>
+                    </div>
+                  </div>
+                </div>
               </div>
             </section>
 
@@ -362,6 +585,96 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
               </div>
             </section>
 
+            {/* Fix with AI */}
+            <section>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+                Fix with AI
+              </h3>
+              
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Auto-retry attempts
+                </label>
+                <select
+                  value={localSettings.autoFixAttempts}
+                  onChange={(e) => handleSettingChange('autoFixAttempts', parseInt(e.target.value, 10))}
+                  className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value={0}>Off (review each fix)</option>
+                  {Array.from({ length: MAX_AUTO_FIX_ATTEMPTS }, (_, i) => i + 1).map(count => (
+                    <option key={count} value={count}>
+                      Up to {count} attempt{count === 1 ? '' : 's'}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  With auto-retry, each fix is run in the scene and the model is asked again until it renders without errors. All changes are still reviewed before they replace your code.
+                </p>
+              </div>
+            </section>
+
+            {/* Embeddings */}
+            <section>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+                Embeddings (RAG)
+              </h3>
+              
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Embedding Provider
+                  </label>
+                  <select
+                    value={localSettings.embeddingProvider}
+                    onChange={(e) => handleSettingChange('embeddingProvider', e.target.value)}
+                    className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="together">Together AI</option>
+                    <option value="openai">OpenAI</option>
+                    <option value="google">Google</option>
+                    <option value="local">Local (OpenAI-compatible endpoint)</option>
+                    <option value="offline">Offline (no network)</option>
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Cloud providers use the API key above. Without one, search falls back to offline embeddings.
+                  </p>
+                </div>
+
+                {localSettings.embeddingProvider === 'local' && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Endpoint URL
+                      </label>
+                      <input
+                        type="text"
+                        value={localSettings.embeddingBaseUrl}
+                        onChange={(e) => handleSettingChange('embeddingBaseUrl', e.target.value)}
+                        placeholder="http://localhost:11434/v1"
+                        className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Model
+                      </label>
+                      <input
+                        type="text"
+                        value={localSettings.embeddingModel}
+                        onChange={(e) => handleSettingChange('embeddingModel', e.target.value)}
+                        placeholder={DEFAULT_LOCAL_EMBEDDING_MODEL}
+                        className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  </>
+                )}
+
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Changing the model re-indexes your history in the background.
+                </p>
+              </div>
+            </section>
+
             {/* System Prompt */}
             <section>
               <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
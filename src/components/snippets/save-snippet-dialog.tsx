@@ -27,7 +27,7 @@ const categories = [
 ]
 
 export function SaveSnippetDialog({ code, currentLibrary, onClose, onSave }: SaveSnippetDialogProps) {
-  const { addSnippet } = useAppStore()
+  const { addSnippet, getSceneThumbnail } = useAppStore()
 
   const [title, setTitle] = useState('')
   const [description, setDescription] = useState('')
@@ -66,7 +66,8 @@ export function SaveSnippetDialog({ code, currentLibrary, onClose, onSave }: Sav
         code,
         library,
         category,
-        tags: tags.trim()
+        tags: tags.trim(),
+        screenshotBase64: getSceneThumbnail(code)
       })
 
       toast.success('Snippet saved successfully!')
@@ -80,6 +80,15 @@ export function SnippetCard({ snippet, onLoad, onDelete }: SnippetCardProps) {
       onMouseLeave={() => setIsHovered(false)}
       onClick={() => onLoad(snippet)}
     >
+      {/* Thumbnail */}
+      {snippet.screenshotBase64 && (
+        <img
+          src={snippet.screenshotBase64}
+          alt={`${snippet.title} preview`}
+          className="w-full aspect-video object-cover rounded mb-3 bg-gray-900"
+        />
+      )}
+
       {/* Header */}
       <div className="flex items-start justify-between mb-3">
         <div className="flex-1 min-w-0">
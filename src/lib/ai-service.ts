@@ -1,4 +1,4 @@
-import { useAppStore } from '@/store/app-store'
+import { getProviderAdapter, type ProviderAdapter, type ProviderHttpRequest, type GenerationRequest, type StreamEvent } from './provider-adapters'
 
 export interface AIResponse {
   content: string
@@ -15,668 +15,251 @@ export interface StreamingResponse {
   done: boolean
 }
 
-// Maximum output tokens per provider
-function getMaxTokensForProvider(provider: string): number {
-  switch (provider) {
-    case 'anthropic': return 64000   // Claude 4 supports up to 64K output
-    case 'google':    return 65536   // Gemini 2.5 Pro/Flash max output
-    case 'together':  return 32768   // Most Together AI models support 32K
-    case 'openai':    return 65536   // GPT-5.2 supports large outputs
-    case 'xai':       return 32768   // Grok 4 supports 32K output
-    default:          return 32768
-  }
+/**
+ * A chat model as listed by a provider's API. Only the id is guaranteed;
+ * the rest is filled in where the provider reports it.
+ */
+export interface ListedModel {
+  id: string
+  name?: string
+  description?: string
+  pricing?: string
+  contextLength?: number
 }
 
-// Domains that block browser CORS — requests must go through the server-side proxy
-const PROXY_DOMAINS = ['api.anthropic.com', 'api.x.ai']
+/**
+ * A single conversation turn sent to the provider. The system prompt is passed
+ * separately because every provider places it differently on the wire.
+ */
+export interface AIMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
 
-export class AIService {
-  private static instance: AIService
+// Output tokens for providers without an adapter
+const DEFAULT_MAX_OUTPUT_TOKENS = 32768
 
-  public static getInstance(): AIService {
-    if (!AIService.instance) {
-      AIService.instance = new AIService()
-    }
-    return AIService.instance
-  }
+// Maximum output tokens per provider
+export function getMaxTokensForProvider(provider: string): number {
+  return getProviderAdapter(provider)?.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS
+}
 
-  /**
-   * Fetch wrapper that routes CORS-restricted AI APIs through the Next.js proxy.
-   * For all other providers (Together AI, OpenAI, Google) it calls fetch directly.
-   */
-  private async safeFetch(url: string, init: RequestInit): Promise<Response> {
-    const needsProxy = PROXY_DOMAINS.some(domain => url.includes(domain))
-    if (!needsProxy) {
-      return fetch(url, init)
+/**
+ * Drop empty turns and merge consecutive turns from the same role.
+ * Anthropic and Gemini reject histories that don't alternate or that start
+ * with an assistant turn, which happens after a failed or cancelled request.
+ */
+function normalizeTurns(messages: AIMessage[]): AIMessage[] {
+  const turns: AIMessage[] = []
+  for (const message of messages) {
+    const content = message.content.trim()
+    if (!content) continue
+
+    const last = turns[turns.length - 1]
+    if (last && last.role === message.role) {
+      last.content += `\n\n${content}`
+    } else if (turns.length > 0 || message.role === 'user') {
+      turns.push({ role: message.role, content })
     }
-    return fetch('/api/ai-proxy', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        url,
-        headers: init.headers,
-        body: init.body,
-      }),
-    })
   }
+  return turns
+}
 
-  async generateResponse(
-    prompt: string,
-    options: {
-      provider: string
-      model: string
-      apiKey: string
-      temperature?: number
-      topP?: number
-      systemPrompt?: string
-      maxTokens?: number
-    }
-  ): Promise<AIResponse> {
-    const { provider, model, apiKey, temperature = 0.7, topP = 0.9, systemPrompt = '' } = options
-    const maxTokens = options.maxTokens ?? getMaxTokensForProvider(provider)
-
-    if (!apiKey || apiKey.trim() === '') {
-      throw new Error(`API key required for ${provider}`)
-    }
+/**
+ * True if the error came from an aborted request (e.g. the user pressed Stop)
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError'
+}
 
-    switch (provider) {
-      case 'together':
-        return this.callTogetherAI({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens })
-      case 'openai':
-        return this.callOpenAI({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens })
-      case 'anthropic':
-        return this.callAnthropic({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens })
-      case 'google':
-        return this.callGoogleAI({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens })
-      case 'xai':
-        return this.callOpenAI({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens, baseUrl: 'https://api.x.ai/v1' })
-      default:
-        throw new Error(`Unsupported AI provider: ${provider}`)
-    }
+/**
+ * Call onData with each `data:` payload of a server-sent event stream,
+ * until the stream ends or onData returns true
+ */
+async function readEventStream(response: Response, onData: (data: string) => boolean): Promise<void> {
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('No response body reader available')
   }
 
-  async generateStreamingResponse(
-    prompt: string,
-    options: {
-      provider: string
-      model: string
-      apiKey: string
-      temperature?: number
-      topP?: number
-      systemPrompt?: string
-      maxTokens?: number
-    },
-    onChunk: (chunk: StreamingResponse) => void
-  ): Promise<void> {
-    const { provider, model, apiKey, temperature = 0.7, topP = 0.9, systemPrompt = '' } = options
-    const maxTokens = options.maxTokens ?? getMaxTokensForProvider(provider)
-
-    if (!apiKey || apiKey.trim() === '') {
-      throw new Error(`API key required for ${provider}`)
-    }
+  const decoder = new TextDecoder()
+  let buffer = ''
 
-    switch (provider) {
-      case 'together':
-        return this.streamTogetherAI({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens }, onChunk)
-      case 'openai':
-        return this.streamOpenAI({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens }, onChunk)
-      case 'anthropic':
-        return this.streamAnthropic({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens }, onChunk)
-      case 'google':
-        return this.streamGoogleAI({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens }, onChunk)
-      case 'xai':
-        return this.streamOpenAI({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens, baseUrl: 'https://api.x.ai/v1' }, onChunk)
-      default:
-        throw new Error(`Unsupported AI provider: ${provider}`)
-    }
+  // Returns true once onData asks to stop
+  const handleLine = (line: string): boolean => {
+    const trimmed = line.trim()
+    if (!trimmed.startsWith('data:')) return false
+    const data = trimmed.slice(5).trim()
+    return data !== '' && onData(data)
   }
 
-  private async callTogetherAI(options: {
-    prompt: string
-    model: string
-    apiKey: string
-    temperature: number
-    topP: number
-    systemPrompt: string
-    maxTokens: number
-  }): Promise<AIResponse> {
-    const { prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens } = options
-
-    const messages = []
-    if (systemPrompt) {
-      messages.push({ role: 'system', content: systemPrompt })
-    }
-    messages.push({ role: 'user', content: prompt })
-
-    const response = await fetch('https://api.together.xyz/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature,
-        top_p: topP,
-        max_tokens: maxTokens,
-        stream: false
-      })
-    })
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Together AI API error: ${response.status} - ${error}`)
-    }
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
 
-    const data = await response.json()
-    return {
-      content: data.choices[0].message.content,
-      model: data.model,
-      usage: data.usage
+      for (const line of lines) {
+        if (handleLine(line)) return
+      }
     }
-  }
-
-  private async streamTogetherAI(
-    options: {
-      prompt: string
-      model: string
-      apiKey: string
-      temperature: number
-      topP: number
-      systemPrompt: string
-      maxTokens: number
-    },
-    onChunk: (chunk: StreamingResponse) => void
-  ): Promise<void> {
-    const { prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens } = options
 
-    const messages = []
-    if (systemPrompt) {
-      messages.push({ role: 'system', content: systemPrompt })
-    }
-    messages.push({ role: 'user', content: prompt })
-
-    const response = await fetch('https://api.together.xyz/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature,
-        top_p: topP,
-        max_tokens: maxTokens,
-        stream: true
-      })
-    })
+    // The last event may not end with a newline
+    handleLine(buffer + decoder.decode())
+  } finally {
+    reader.releaseLock()
+  }
+}
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Together AI API error: ${response.status} - ${error}`)
-    }
+interface GenerationOptions {
+  provider: string
+  model: string
+  apiKey: string
+  temperature?: number
+  topP?: number
+  systemPrompt?: string
+  maxTokens?: number
+  signal?: AbortSignal
+  baseUrl?: string // Endpoint of a custom OpenAI-compatible provider
+}
 
-    const reader = response.body?.getReader()
-    if (!reader) {
-      throw new Error('No response body reader available')
-    }
+export class AIService {
+  private static instance: AIService
 
-    const decoder = new TextDecoder()
-    let buffer = ''
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        buffer += decoder.decode(value, { stream: true })
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6).trim()
-            if (data === '[DONE]') {
-              onChunk({ content: '', done: true })
-              return
-            }
-
-            try {
-              const parsed = JSON.parse(data)
-              const content = parsed.choices[0]?.delta?.content || ''
-              if (content) {
-                onChunk({ content, done: false })
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock()
+  public static getInstance(): AIService {
+    if (!AIService.instance) {
+      AIService.instance = new AIService()
     }
+    return AIService.instance
   }
 
-  private async callOpenAI(options: {
-    prompt: string
-    model: string
-    apiKey: string
-    temperature: number
-    topP: number
-    systemPrompt: string
-    maxTokens: number
-    baseUrl?: string
-  }): Promise<AIResponse> {
-    const { prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens, baseUrl = 'https://api.openai.com/v1' } = options
-
-    const messages = []
-    if (systemPrompt) {
-      messages.push({ role: 'system', content: systemPrompt })
-    }
-    messages.push({ role: 'user', content: prompt })
-
-    const response = await this.safeFetch(`${baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature,
-        top_p: topP,
-        max_tokens: maxTokens
+  /**
+   * Send a provider request, through the Next.js proxy for providers whose
+   * APIs block browser CORS requests and directly for all others
+   */
+  private async sendRequest(adapter: ProviderAdapter, request: ProviderHttpRequest, signal?: AbortSignal): Promise<Response> {
+    const method = request.body === undefined ? 'GET' : 'POST'
+    const headers = request.body === undefined
+      ? request.headers
+      : { 'Content-Type': 'application/json', ...request.headers }
+    const body = request.body === undefined ? undefined : JSON.stringify(request.body)
+
+    const response = adapter.needsProxy
+      ? await fetch('/api/ai-proxy', {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: request.url, method, headers, body })
       })
-    })
+      : await fetch(request.url, { method, headers, body, signal })
 
     if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`OpenAI API error: ${response.status} - ${error}`)
-    }
-
-    const data = await response.json()
-    return {
-      content: data.choices[0].message.content,
-      model: data.model,
-      usage: data.usage
+      throw adapter.normalizeError(response.status, await response.text())
     }
+    return response
   }
 
-  private async streamOpenAI(
-    options: {
-      prompt: string
-      model: string
-      apiKey: string
-      temperature: number
-      topP: number
-      systemPrompt: string
-      maxTokens: number
-      baseUrl?: string
-    },
-    onChunk: (chunk: StreamingResponse) => void
-  ): Promise<void> {
-    const { prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens, baseUrl = 'https://api.openai.com/v1' } = options
-
-    const messages = []
-    if (systemPrompt) {
-      messages.push({ role: 'system', content: systemPrompt })
-    }
-    messages.push({ role: 'user', content: prompt })
-
-    const response = await this.safeFetch(`${baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature,
-        top_p: topP,
-        max_tokens: maxTokens,
-        stream: true
-      })
-    })
+  /**
+   * Look up the provider's adapter and check the request can be made
+   */
+  private prepareRequest(
+    messages: AIMessage[],
+    options: GenerationOptions,
+    stream: boolean
+  ): { adapter: ProviderAdapter; request: GenerationRequest } {
+    const { provider, model, apiKey, temperature = 0.7, topP = 0.9, systemPrompt = '', baseUrl } = options
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`OpenAI API error: ${response.status} - ${error}`)
+    const adapter = getProviderAdapter(provider)
+    if (!adapter) {
+      throw new Error(`Unsupported AI provider: ${provider}`)
     }
 
-    const reader = response.body?.getReader()
-    if (!reader) throw new Error('No response body reader available')
-
-    const decoder = new TextDecoder()
-    let buffer = ''
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        buffer += decoder.decode(value, { stream: true })
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6).trim()
-            if (data === '[DONE]') {
-              onChunk({ content: '', done: true })
-              return
-            }
-            try {
-              const parsed = JSON.parse(data)
-              const content = parsed.choices[0]?.delta?.content || ''
-              if (content) onChunk({ content, done: false })
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock()
+    if (adapter.requiresApiKey && (!apiKey || apiKey.trim() === '')) {
+      throw new Error(`API key required for ${provider}`)
     }
-  }
 
-  private async callAnthropic(options: {
-    prompt: string
-    model: string
-    apiKey: string
-    temperature: number
-    topP: number
-    systemPrompt: string
-    maxTokens: number
-  }): Promise<AIResponse> {
-    const { prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens } = options
-
-    const response = await this.safeFetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model,
-        max_tokens: maxTokens,
-        temperature,
-        top_p: topP,
-        system: systemPrompt,
-        messages: [{ role: 'user', content: prompt }]
-      })
-    })
-
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Anthropic API error: ${response.status} - ${error}`)
+    const turns = normalizeTurns(messages)
+    if (turns.length === 0) {
+      throw new Error('At least one user message is required')
     }
 
-    const data = await response.json()
     return {
-      content: data.content[0].text,
-      model: data.model,
-      usage: data.usage
-    }
-  }
-
-  private async streamAnthropic(
-    options: {
-      prompt: string
-      model: string
-      apiKey: string
-      temperature: number
-      topP: number
-      systemPrompt: string
-      maxTokens: number
-    },
-    onChunk: (chunk: StreamingResponse) => void
-  ): Promise<void> {
-    const { prompt, model, apiKey, temperature, systemPrompt, maxTokens } = options
-
-    const response = await this.safeFetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
+      adapter,
+      request: {
+        messages: turns,
         model,
-        max_tokens: maxTokens,
-        temperature,
-        stream: true,
-        system: systemPrompt || undefined,
-        messages: [{ role: 'user', content: prompt }]
-      })
-    })
-
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Anthropic API error: ${response.status} - ${error}`)
-    }
-
-    const reader = response.body?.getReader()
-    if (!reader) throw new Error('No response body reader available')
-
-    const decoder = new TextDecoder()
-    let buffer = ''
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        buffer += decoder.decode(value, { stream: true })
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6).trim()
-            try {
-              const parsed = JSON.parse(data)
-              if (parsed.type === 'content_block_delta') {
-                const text = parsed.delta?.text || ''
-                if (text) onChunk({ content: text, done: false })
-              } else if (parsed.type === 'message_stop') {
-                onChunk({ content: '', done: true })
-                return
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock()
-    }
-  }
-
-  private async callGoogleAI(options: {
-    prompt: string
-    model: string
-    apiKey: string
-    temperature: number
-    topP: number
-    systemPrompt: string
-    maxTokens: number
-  }): Promise<AIResponse> {
-    const { prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens } = options
-
-    const requestBody: any = {
-      contents: [
-        {
-          role: 'user',
-          parts: [{ text: prompt }]
-        }
-      ],
-      generationConfig: {
+        apiKey,
         temperature,
         topP,
-        maxOutputTokens: 65536
+        systemPrompt,
+        maxTokens: options.maxTokens ?? adapter.maxOutputTokens,
+        stream,
+        baseUrl
       }
     }
+  }
 
-    // Add system instruction if provided
-    if (systemPrompt) {
-      requestBody.systemInstruction = {
-        parts: [{ text: systemPrompt }]
-      }
-    }
-
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(requestBody)
-      }
-    )
-
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Google AI API error: ${response.status} - ${error}`)
-    }
+  async generateResponse(messages: AIMessage[], options: GenerationOptions): Promise<AIResponse> {
+    const { adapter, request } = this.prepareRequest(messages, options, false)
 
+    const response = await this.sendRequest(adapter, adapter.buildRequest(request), options.signal)
     const data = await response.json()
-
-    if (!data.candidates || data.candidates.length === 0) {
-      throw new Error('No response from Google AI')
-    }
-
-    const candidate = data.candidates[0]
-    const content = candidate.content.parts.map((part: any) => part.text).join('')
+    const { content, model } = adapter.parseResponse(data)
 
     return {
       content,
-      model: data.modelVersion || model,
-      usage: data.usageMetadata ? {
-        prompt_tokens: data.usageMetadata.promptTokenCount || 0,
-        completion_tokens: data.usageMetadata.candidatesTokenCount || 0,
-        total_tokens: data.usageMetadata.totalTokenCount || 0
-      } : undefined
+      model: model || request.model,
+      usage: adapter.extractUsage(data)
     }
   }
 
-  private async streamGoogleAI(
-    options: {
-      prompt: string
-      model: string
-      apiKey: string
-      temperature: number
-      topP: number
-      systemPrompt: string
-      maxTokens: number
-    },
+  async generateStreamingResponse(
+    messages: AIMessage[],
+    options: GenerationOptions,
     onChunk: (chunk: StreamingResponse) => void
   ): Promise<void> {
-    const { prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens } = options
-
-    const requestBody: any = {
-      contents: [
-        {
-          role: 'user',
-          parts: [{ text: prompt }]
-        }
-      ],
-      generationConfig: {
-        temperature,
-        topP,
-        maxOutputTokens: 65536
-      }
-    }
+    const { adapter, request } = this.prepareRequest(messages, options, true)
+
+    const response = await this.sendRequest(adapter, adapter.buildRequest(request), options.signal)
 
-    // Add system instruction if provided
-    if (systemPrompt) {
-      requestBody.systemInstruction = {
-        parts: [{ text: systemPrompt }]
+    await readEventStream(response, data => {
+      let event: StreamEvent | null
+      try {
+        event = adapter.parseStreamEvent(data)
+      } catch {
+        // Skip invalid JSON
+        return false
       }
-    }
+      if (!event) return false
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?key=${apiKey}&alt=sse`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(requestBody)
+      if (event.content) {
+        onChunk({ content: event.content, done: false })
       }
-    )
+      return event.done
+    })
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Google AI API error: ${response.status} - ${error}`)
-    }
+    // Also sent when a stream closes without a final event
+    onChunk({ content: '', done: true })
+  }
 
-    const reader = response.body?.getReader()
-    if (!reader) {
-      throw new Error('No response body reader available')
+  /**
+   * List the chat models a provider currently offers. Resolves to null for
+   * providers without a model listing.
+   */
+  async listModels(provider: string, apiKey: string, signal?: AbortSignal): Promise<ListedModel[] | null> {
+    if (!apiKey || apiKey.trim() === '') {
+      throw new Error(`API key required for ${provider}`)
     }
 
-    const decoder = new TextDecoder()
-    let buffer = ''
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) {
-          onChunk({ content: '', done: true })
-          break
-        }
-
-        buffer += decoder.decode(value, { stream: true })
-
-        // Google AI SSE format: each event is "data: {json}\n\n"
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
-
-        for (const line of lines) {
-          const trimmed = line.trim()
-          if (!trimmed || !trimmed.startsWith('data: ')) continue
-
-          const jsonStr = trimmed.slice(6) // strip "data: " prefix
-          if (!jsonStr) continue
-
-          try {
-            const parsed = JSON.parse(jsonStr)
-
-            if (parsed.candidates && parsed.candidates.length > 0) {
-              const candidate = parsed.candidates[0]
-              if (candidate.content && candidate.content.parts) {
-                const content = candidate.content.parts
-                  .map((part: any) => part.text || '')
-                  .join('')
-
-                if (content) {
-                  onChunk({ content, done: false })
-                }
-              }
-
-              // Check if generation is complete
-              if (candidate.finishReason) {
-                onChunk({ content: '', done: true })
-                return
-              }
-            }
-          } catch (e) {
-            // Skip invalid JSON lines
-            console.debug('Skipping invalid JSON line:', trimmed)
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock()
+    const adapter = getProviderAdapter(provider)
+    if (!adapter?.buildModelListRequest || !adapter.parseModelList) {
+      return null
     }
+
+    const response = await this.sendRequest(adapter, adapter.buildModelListRequest(apiKey), signal)
+    return adapter.parseModelList(await response.json())
   }
-}
\ No newline at end of file
+}
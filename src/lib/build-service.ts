@@ -32,7 +32,7 @@ export class BuildService {
   /**
    * Get default package versions for common libraries
    */
-  private getDefaultVersions(): Record<string, string> {
+  public getDefaultVersions(): Record<string, string> {
     return {
       // Babylon.js
       '@babylonjs/core': '^7.31.0',
@@ -225,7 +225,7 @@ export class BuildService {
   /**
    * Convert Babylon.js global namespace code to ES6 modules
    */
-  private convertBabylonJSToModules(code: string): string {
+  public convertBabylonJSToModules(code: string): string {
     // Check if code already uses imports
     if (code.includes('import') && code.includes('from')) {
       return code
@@ -246,7 +246,7 @@ window.BABYLON = BABYLON;
   /**
    * Convert Three.js global namespace code to ES6 modules
    */
-  private convertThreeJSToModules(code: string): string {
+  public convertThreeJSToModules(code: string): string {
     // Check if code already uses imports
     if (code.includes('import') && code.includes('from')) {
       return code
@@ -0,0 +1,102 @@
+/**
+ * Code Fix Service
+ *
+ * "Fix with AI" for runtime errors caught in the playground. The failing
+ * code, the error and its stack, the library and the scene's recent console
+ * output are sent with a dedicated repair prompt; the answer is parsed into
+ * a patch (see code-patch.ts) so the fix can be reviewed like any other edit.
+ */
+
+import { AIService } from './ai-service'
+import { buildPatchPrompt, parseCodePatch, type CodeHunk } from './code-patch'
+import type { ConsoleEntry } from './scene-bridge'
+import type { Library3D } from '@/store/app-store'
+
+// Console entries sent with a fix request, most recent last
+const MAX_FIX_CONSOLE_ENTRIES = 20
+
+// Longest stack trace sent, in characters
+const MAX_STACK_CHARS = 2000
+
+// Upper bound for the auto-fix setting
+export const MAX_AUTO_FIX_ATTEMPTS = 5
+
+// Repairs should be conservative, not creative
+const FIX_TEMPERATURE = 0.2
+
+const FIX_SYSTEM_PROMPT = `You are debugging a 3D scene that fails at runtime. Find the cause of the error and fix it with the smallest possible change. Keep the scene's behavior and structure; do not rewrite working code, add features or change the library.`
+
+export interface SceneError {
+  message: string
+  stack?: string
+  line?: number // Line in the editor, if known
+}
+
+export interface CodeFixRequest {
+  code: string
+  error: SceneError
+  library: Library3D
+  consoleEntries?: ConsoleEntry[]
+  previousErrors?: string[] // Errors left by earlier fixes in an auto-fix run
+}
+
+export interface CodeFixOptions {
+  provider: string
+  model: string
+  apiKey: string
+  baseUrl?: string // Custom OpenAI-compatible providers
+  topP?: number
+  signal?: AbortSignal
+}
+
+/**
+ * Repair prompt for a runtime error
+ */
+export function buildFixPrompt(request: CodeFixRequest): string {
+  const { code, error, library, consoleEntries = [], previousErrors = [] } = request
+  const isReact = library.id === 'react-three-fiber' || library.id === 'reactylon'
+
+  let prompt = `Library: ${library.name} v${library.version}\n\nThe scene fails with this error:\n${error.message}`
+  if (error.line) {
+    prompt += `\n(at line ${error.line} of the code below)`
+  }
+  if (error.stack) {
+    prompt += `\n\nStack trace:\n${error.stack.slice(0, MAX_STACK_CHARS)}`
+  }
+
+  const recent = consoleEntries.slice(-MAX_FIX_CONSOLE_ENTRIES)
+  if (recent.length > 0) {
+    prompt += `\n\nRecent console output:\n${recent.map(entry => `[${entry.level}] ${entry.message}`).join('\n')}`
+  }
+
+  if (previousErrors.length > 0) {
+    prompt += `\n\nEarlier fixes were already applied to this code and failed with:\n${previousErrors.map(message => `- ${message}`).join('\n')}\nTry a different approach.`
+  }
+
+  return `${prompt}\n\n${buildPatchPrompt(code, isReact ? 'jsx' : 'javascript')}`
+}
+
+/**
+ * Ask the model for a fix. Throws if the answer contains no edits.
+ */
+export async function requestCodeFix(request: CodeFixRequest, options: CodeFixOptions): Promise<CodeHunk[]> {
+  const response = await AIService.getInstance().generateResponse(
+    [{ role: 'user', content: buildFixPrompt(request) }],
+    {
+      provider: options.provider,
+      model: options.model,
+      apiKey: options.apiKey,
+      baseUrl: options.baseUrl,
+      temperature: FIX_TEMPERATURE,
+      topP: options.topP,
+      systemPrompt: FIX_SYSTEM_PROMPT,
+      signal: options.signal
+    }
+  )
+
+  const hunks = parseCodePatch(response.content)
+  if (!hunks) {
+    throw new Error('The model did not suggest any changes')
+  }
+  return hunks
+}
@@ -0,0 +1,210 @@
+/**
+ * Code Patch Service
+ *
+ * Structured code edits for iterating on a scene without re-emitting it.
+ * The AI is given the editor's current code and answers with SEARCH/REPLACE
+ * blocks or a unified diff; both are parsed into hunks that the user can
+ * accept or reject one by one before they are applied.
+ */
+
+export interface CodeHunk {
+  id: string
+  search: string // Lines to find in the current code; empty appends
+  replace: string
+  // Diff hunks that only add lines have nothing to search for: the original
+  // line they follow (0 = top of the file), or null if the diff gave none
+  insertAfter?: number | null
+}
+
+export interface CodePatch {
+  hunks: CodeHunk[]
+  messageId?: string // Assistant message the patch came from
+}
+
+export interface PatchResult {
+  code: string
+  failed: CodeHunk[] // Hunks whose search text or line wasn't found
+}
+
+const SEARCH_REPLACE_REGEX = /^<{5,7} ?SEARCH[^\n]*\n([\s\S]*?)^={5,7}[^\n]*\n([\s\S]*?)^>{5,7} ?REPLACE[^\n]*$/gm
+
+const DIFF_FENCE_REGEX = /```(?:diff|patch)[^\n]*\n([\s\S]*?)```/g
+
+const DIFF_HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))?/
+
+/**
+ * Instructions appended to a request so the AI answers with edits to the
+ * current code instead of a new file
+ */
+export function buildPatchPrompt(currentCode: string, language = 'javascript'): string {
+  return `Current code in the editor:
+\`\`\`${language}
+${currentCode}
+\`\`\`
+
+Do not repeat the whole file. Reply with only the changes, as one or more SEARCH/REPLACE blocks:
+
+<<<<<<< SEARCH
+exact lines copied from the current code
+=======
+the lines that replace them
+>>>>>>> REPLACE
+
+Copy SEARCH lines exactly, including indentation, and include just enough surrounding lines to make each match unique. Use one block per separate change, in file order. Briefly explain the changes before the blocks.`
+}
+
+/**
+ * Parse SEARCH/REPLACE blocks or a unified diff from an AI response.
+ * Returns null if the response contains no edits.
+ */
+export function parseCodePatch(content: string): CodeHunk[] | null {
+  const hunks = parseSearchReplace(content)
+  if (hunks.length > 0) return hunks
+
+  const diffHunks = parseUnifiedDiff(content)
+  return diffHunks.length > 0 ? diffHunks : null
+}
+
+function parseSearchReplace(content: string): CodeHunk[] {
+  const hunks: CodeHunk[] = []
+  for (const match of Array.from(content.matchAll(SEARCH_REPLACE_REGEX))) {
+    hunks.push({
+      id: `hunk-${hunks.length}`,
+      search: stripTrailingNewline(match[1]),
+      replace: stripTrailingNewline(match[2])
+    })
+  }
+  return hunks
+}
+
+/**
+ * Convert unified diff hunks to search/replace pairs: context and removed
+ * lines form the search text, context and added lines the replacement.
+ * Hunks with only added lines are placed by their header's line number.
+ */
+function parseUnifiedDiff(content: string): CodeHunk[] {
+  const diffs = Array.from(content.matchAll(DIFF_FENCE_REGEX)).map(match => match[1])
+  const hunks: CodeHunk[] = []
+
+  for (const diff of diffs) {
+    let search: string[] | null = null
+    let replace: string[] = []
+    let insertAfter: number | null = null
+
+    const flush = () => {
+      if (!search || (search.length === 0 && replace.length === 0)) return
+      const hunk: CodeHunk = { id: `hunk-${hunks.length}`, search: search.join('\n'), replace: replace.join('\n') }
+      if (search.length === 0) hunk.insertAfter = insertAfter
+      hunks.push(hunk)
+    }
+
+    for (const line of diff.replace(/\n$/, '').split('\n')) {
+      if (line.startsWith('@@')) {
+        flush()
+        search = []
+        replace = []
+        // `-12,0` adds after line 12; any other range starts at its first line
+        const header = DIFF_HUNK_HEADER_REGEX.exec(line)
+        insertAfter = header ? Number(header[1]) - (header[2] === '0' ? 0 : 1) : null
+      } else if (search === null || line.startsWith('---') || line.startsWith('+++') || line.startsWith('\\')) {
+        continue
+      } else if (line.startsWith('-')) {
+        search.push(line.slice(1))
+      } else if (line.startsWith('+')) {
+        replace.push(line.slice(1))
+      } else {
+        // Context line; models often drop the leading space on blank lines
+        const text = line.startsWith(' ') ? line.slice(1) : line
+        search.push(text)
+        replace.push(text)
+      }
+    }
+    flush()
+  }
+
+  return hunks
+}
+
+/**
+ * Apply hunks in order. A hunk that doesn't match exactly is retried
+ * ignoring indentation and trailing whitespace; if it still doesn't
+ * match it is skipped and reported as failed. Insertions by line number
+ * are shifted by the lines the hunks before them added or removed.
+ */
+export function applyCodePatch(code: string, hunks: CodeHunk[]): PatchResult {
+  const failed: CodeHunk[] = []
+  let result = code
+  let lineOffset = 0
+
+  for (const hunk of hunks) {
+    const applied = applyHunk(result, hunk, lineOffset)
+    if (applied === null) {
+      failed.push(hunk)
+    } else {
+      result = applied
+      lineOffset += countLines(hunk.replace) - countLines(hunk.search)
+    }
+  }
+
+  return { code: result, failed }
+}
+
+function applyHunk(code: string, hunk: CodeHunk, lineOffset: number): string | null {
+  if (hunk.insertAfter !== undefined) {
+    if (hunk.insertAfter === null) return null
+
+    const lines = code.split('\n')
+    const at = hunk.insertAfter + lineOffset
+    if (at < 0 || at > lines.length) return null
+    lines.splice(at, 0, ...hunk.replace.split('\n'))
+    return lines.join('\n')
+  }
+
+  if (hunk.search.trim() === '') {
+    return code.trim() === '' ? hunk.replace : `${code.replace(/\n*$/, '')}\n\n${hunk.replace}\n`
+  }
+
+  // Exact match of whole lines, so `f()` can't match inside `function f() {`
+  for (let index = code.indexOf(hunk.search); index !== -1; index = code.indexOf(hunk.search, index + 1)) {
+    const end = index + hunk.search.length
+    const startsLine = index === 0 || code[index - 1] === '\n'
+    const endsLine = end === code.length || code[end] === '\n' || code[end] === '\r'
+    if (startsLine && endsLine) {
+      return code.slice(0, index) + hunk.replace + code.slice(end)
+    }
+  }
+
+  // Whitespace-tolerant match, line by line
+  const lines = code.split('\n')
+  const searchLines = hunk.search.split('\n').map(line => line.trim())
+  for (let start = 0; start + searchLines.length <= lines.length; start++) {
+    const matches = searchLines.every((line, i) => lines[start + i].trim() === line)
+    if (matches) {
+      lines.splice(start, searchLines.length, ...hunk.replace.split('\n'))
+      return lines.join('\n')
+    }
+  }
+
+  return null
+}
+
+/**
+ * Number of removed and added lines in a hunk, for display
+ */
+export function getHunkStats(hunk: CodeHunk): { removed: number; added: number } {
+  const searchLines = hunk.search ? hunk.search.split('\n') : []
+  const replaceLines = hunk.replace ? hunk.replace.split('\n') : []
+  const shared = new Set(searchLines.filter(line => replaceLines.includes(line)))
+  return {
+    removed: searchLines.filter(line => !shared.has(line)).length,
+    added: replaceLines.filter(line => !shared.has(line)).length
+  }
+}
+
+function countLines(text: string): number {
+  return text ? text.split('\n').length : 0
+}
+
+function stripTrailingNewline(text: string): string {
+  return text.replace(/\r?\n$/, '')
+}
@@ -1,3 +1,8 @@
+import type { SceneXRSettings } from './scene-xr'
+
+// @react-three/xr release used for XR scenes; v6 works with R3F 8
+const XR_PACKAGE_VERSION = '^6.2.3'
+
 interface DefineAPIOptions {
   files: Record<string, { code: string }>
   template: string
@@ -78,6 +83,13 @@ export class CodeSandboxService {
       files['src/components/UI.js'] = { code: this.getR3FUI() }
     } else if (templateType === 'vr') {
       files['src/utils/xr-helpers.js'] = { code: this.getXRHelpers() }
+      const packageJson = this.getR3FDependencies()
+      files['package.json'] = {
+        code: JSON.stringify({
+          ...packageJson,
+          dependencies: { ...packageJson.dependencies, '@react-three/xr': XR_PACKAGE_VERSION }
+        }, null, 2)
+      }
     }
 
     return {
@@ -86,6 +98,49 @@ export class CodeSandboxService {
     }
   }
 
+  /**
+   * Put a React Three Fiber scene's Canvas inside an XR store with an
+   * Enter VR/AR button. App's Canvas import is swapped for XRCanvas, which
+   * takes the same props; scenes already using @react-three/xr are left alone.
+   * The XR input helpers are added under src/utils for scenes to import.
+   */
+  addR3FXRSupport(options: DefineAPIOptions, settings: SceneXRSettings): DefineAPIOptions {
+    const app = options.files['src/App.js']?.code
+    if (settings.mode === 'off' || !app || app.includes('@react-three/xr')) return options
+
+    // An App edited in the preview may already use XRCanvas
+    let replaced = app.includes(`from './XRCanvas'`)
+    const code = replaced ? app : app.replace(
+      /import\s*\{([^}]*)\}\s*from\s*['"]@react-three\/fiber['"];?/,
+      (statement, names: string) => {
+        const imported = names.split(',').map(name => name.trim()).filter(Boolean)
+        if (!imported.includes('Canvas')) return statement
+
+        replaced = true
+        const rest = imported.filter(name => name !== 'Canvas')
+        const canvasImport = `import { XRCanvas as Canvas } from './XRCanvas'`
+        return rest.length > 0
+          ? `import { ${rest.join(', ')} } from '@react-three/fiber'\n${canvasImport}`
+          : canvasImport
+      }
+    )
+    if (!replaced) return options
+
+    const packageJson = JSON.parse(options.files['package.json'].code)
+    packageJson.dependencies['@react-three/xr'] = XR_PACKAGE_VERSION
+
+    return {
+      ...options,
+      files: {
+        ...options.files,
+        'src/App.js': { code },
+        'src/XRCanvas.js': { code: this.getXRCanvas(settings) },
+        'src/utils/xr-helpers.js': { code: this.getXRHelpers() },
+        'package.json': { code: JSON.stringify(packageJson, null, 2) }
+      }
+    }
+  }
+
   generateReactFiles(userCode: string): DefineAPIOptions {
     return {
       files: {
@@ -128,7 +183,7 @@ export class CodeSandboxService {
     }
   }
   
-  private wrapReactylonComponent(userCode: string): string {
+  wrapReactylonComponent(userCode: string): string {
     // Check if userCode already has a complete App component with Engine
     if (userCode.includes('export default') && userCode.includes('Engine')) {
       return userCode
@@ -206,7 +261,7 @@ export default function App() {
     }
   }
 
-  private wrapR3FComponent(userCode: string): string {
+  wrapR3FComponent(userCode: string): string {
     // Check if userCode already has a complete App component
     if (userCode.includes('export default') && userCode.includes('Canvas')) {
       return userCode
@@ -593,25 +648,81 @@ export function Instructions({ children }) {
 }`
   }
 
+  private getXRCanvas(settings: SceneXRSettings): string {
+    const isAR = settings.mode === 'ar'
+    return `import React, { useEffect } from 'react'
+import { Canvas, useThree } from '@react-three/fiber'
+import { XR, createXRStore } from '@react-three/xr'
+
+// The emulator (a simulated Meta Quest 3 with an on-screen control panel)
+// stands in for a headset when enabled
+const store = createXRStore({
+  emulate: ${settings.emulator ? "{ type: 'metaQuest3', inject: true }" : 'false'}
+})
+
+// Reference space for the session, set before one starts
+function ReferenceSpace() {
+  const gl = useThree((state) => state.gl)
+  useEffect(() => {
+    gl.xr.setReferenceSpaceType('${settings.referenceSpace}')
+  }, [gl])
+  return null
+}
+
+export function XRCanvas({ children, ...props }) {
+  return (
+    <>
+      <button
+        onClick={() => store.${isAR ? 'enterAR' : 'enterVR'}()}
+        style={{
+          position: 'fixed',
+          bottom: '20px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          zIndex: 10,
+          padding: '12px 24px',
+          border: '1px solid #fff',
+          borderRadius: '4px',
+          background: 'rgba(0, 0, 0, 0.6)',
+          color: '#fff',
+          font: 'normal 13px sans-serif',
+          cursor: 'pointer'
+        }}
+      >
+        ${isAR ? 'Enter AR' : 'Enter VR'}
+      </button>
+      <Canvas {...props}>
+        <XR store={store}>
+          <ReferenceSpace />
+          {children}
+        </XR>
+      </Canvas>
+    </>
+  )
+}`
+  }
+
   private getXRHelpers(): string {
-    return `import { useXR } from '@react-three/xr'
+    return `import { useXRInputSourceState } from '@react-three/xr'
 import { useFrame } from '@react-three/fiber'
 import { useRef } from 'react'
 
 // XR-specific hooks and utilities
 export function useXRControllers() {
-  const { controllers } = useXR()
-  return controllers
+  const left = useXRInputSourceState('controller', 'left')
+  const right = useXRInputSourceState('controller', 'right')
+  return [left, right].filter(Boolean)
 }
 
 export function useXRHands() {
-  const { hands } = useXR()
-  return hands
+  const left = useXRInputSourceState('hand', 'left')
+  const right = useXRInputSourceState('hand', 'right')
+  return [left, right].filter(Boolean)
 }
 
 export function useXRRaycast() {
   const ref = useRef()
-  const { controllers } = useXR()
+  const controllers = useXRControllers()
   
   useFrame(() => {
     if (controllers.length > 0 && ref.current) {
@@ -0,0 +1,249 @@
+/**
+ * Context Window Manager
+ *
+ * Fits a conversation history into the selected model's context window before
+ * it is sent to AIService. Older turns are compacted (code blocks elided), then
+ * dropped and replaced by a short summary. The latest user turn — which carries
+ * the library system prompt — and the latest code the user is iterating on are
+ * always kept. The report includes the output allowance the budget reserved,
+ * which the request passes as its maxTokens.
+ */
+
+import type { AIMessage } from './ai-service'
+import { getMaxTokensForProvider } from './ai-service'
+
+// Used when a model doesn't declare its context length
+export const DEFAULT_CONTEXT_LENGTH = 32768
+
+// Rough chars-per-token ratio for English prose and JavaScript
+const CHARS_PER_TOKEN = 4
+
+// Per-message overhead for role markers and separators
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+// Headroom for estimation error
+const SAFETY_MARGIN = 0.1
+
+// Maximum share of the budget the summary of dropped turns may take
+const MAX_SUMMARY_SHARE = 0.1
+
+// Characters of each dropped user request quoted in the summary
+const SUMMARY_SNIPPET_CHARS = 120
+
+const CODE_BLOCK_REGEX = /```[^\n]*\n[\s\S]*?```/g
+
+export interface ContextWindowOptions {
+  messages: AIMessage[]
+  systemPrompt?: string
+  provider: string
+  contextLength?: number
+}
+
+export interface ContextWindowReport {
+  messages: AIMessage[]
+  estimatedTokens: number
+  budgetTokens: number
+  maxOutputTokens: number // Output the budget leaves room for; request no more than this
+  droppedCount: number
+  truncatedCount: number
+  summarized: boolean
+}
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+function messageTokens(message: AIMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS
+}
+
+function totalTokens(messages: AIMessage[]): number {
+  return messages.reduce((sum, message) => sum + messageTokens(message), 0)
+}
+
+/**
+ * Replace fenced code blocks with a one-line placeholder
+ */
+function elideCodeBlocks(content: string): string {
+  return content.replace(CODE_BLOCK_REGEX, (block) => {
+    const lineCount = block.split('\n').length - 2
+    return `\`\`\`\n// [${lineCount} lines of earlier code omitted]\n\`\`\``
+  })
+}
+
+/**
+ * Keep only the last code block of a message, which is the one the user ran
+ */
+function keepLastCodeBlock(content: string): string {
+  const blocks = content.match(CODE_BLOCK_REGEX)
+  return blocks ? blocks[blocks.length - 1] : content
+}
+
+function truncateToTokens(content: string, tokens: number): string {
+  const maxChars = Math.max(0, tokens * CHARS_PER_TOKEN)
+  if (content.length <= maxChars) return content
+  // Keep the tail: the end of a prompt is where the actual request is
+  return '[…truncated]\n' + content.slice(content.length - maxChars)
+}
+
+/**
+ * Cut the middle out of a message: its head holds the instructions and
+ * the request, its tail the latest details
+ */
+function truncateMiddle(content: string, tokens: number): string {
+  const maxChars = Math.max(0, tokens * CHARS_PER_TOKEN)
+  if (content.length <= maxChars) return content
+  const headChars = Math.ceil(maxChars / 2)
+  return content.slice(0, headChars) + '\n[…truncated]\n' + content.slice(content.length - (maxChars - headChars))
+}
+
+function summarizeDropped(dropped: AIMessage[], maxTokens: number): AIMessage | null {
+  const requests = dropped
+    .filter(message => message.role === 'user')
+    .map(message => {
+      const text = message.content.replace(/\s+/g, ' ').trim()
+      return text.length > SUMMARY_SNIPPET_CHARS
+        ? `- ${text.substring(0, SUMMARY_SNIPPET_CHARS)}...`
+        : `- ${text}`
+    })
+
+  let content = `[Earlier conversation summary: ${dropped.length} older messages were omitted to fit the context window.`
+  content += requests.length > 0
+    ? ` Earlier user requests, oldest first:\n${requests.join('\n')}]`
+    : ']'
+
+  if (maxTokens <= MESSAGE_OVERHEAD_TOKENS) return null
+
+  if (messageTokens({ role: 'user', content }) > maxTokens) {
+    content = truncateToTokens(content, maxTokens - MESSAGE_OVERHEAD_TOKENS)
+  }
+
+  return { role: 'user', content }
+}
+
+/**
+ * Tokens available for the history once the system prompt and the output
+ * allowance are reserved, along with that allowance
+ */
+export function getHistoryBudget(
+  provider: string,
+  contextLength: number,
+  systemPrompt = ''
+): { historyTokens: number; outputTokens: number } {
+  const outputTokens = Math.min(getMaxTokensForProvider(provider), Math.floor(contextLength / 4))
+  const available = contextLength - outputTokens - estimateTokens(systemPrompt)
+  return {
+    historyTokens: Math.max(0, Math.floor(available * (1 - SAFETY_MARGIN))),
+    outputTokens
+  }
+}
+
+/**
+ * Fit a conversation into the model's context window
+ */
+export function fitToContextWindow(options: ContextWindowOptions): ContextWindowReport {
+  const { messages, systemPrompt = '', provider } = options
+  const contextLength = options.contextLength || DEFAULT_CONTEXT_LENGTH
+  const { historyTokens: budgetTokens, outputTokens } = getHistoryBudget(provider, contextLength, systemPrompt)
+
+  const report = (result: AIMessage[], droppedCount: number, truncatedCount: number, summarized: boolean): ContextWindowReport => ({
+    messages: result,
+    estimatedTokens: totalTokens(result),
+    budgetTokens,
+    maxOutputTokens: outputTokens,
+    droppedCount,
+    truncatedCount,
+    summarized
+  })
+
+  if (messages.length === 0 || totalTokens(messages) <= budgetTokens) {
+    return report(messages, 0, 0, false)
+  }
+
+  // Pinned: the latest user turn and the latest message with code before it
+  const lastIndex = messages.length - 1
+  let codeIndex = -1
+  for (let i = lastIndex - 1; i >= 0; i--) {
+    if (messages[i].content.includes('```')) {
+      codeIndex = i
+      break
+    }
+  }
+  const isPinned = (index: number) => index === lastIndex || index === codeIndex
+
+  // Step 1: elide code from older, unpinned messages
+  let truncatedCount = 0
+  const working = messages.map((message, index) => {
+    if (isPinned(index)) return { ...message }
+    const elided = elideCodeBlocks(message.content)
+    if (elided !== message.content) truncatedCount++
+    return { role: message.role, content: elided }
+  })
+
+  if (totalTokens(working) <= budgetTokens) {
+    return report(working, 0, truncatedCount, false)
+  }
+
+  // Step 2: drop the oldest unpinned messages until the rest fits,
+  // leaving room for a summary of what was dropped
+  const summaryBudget = Math.floor(budgetTokens * MAX_SUMMARY_SHARE)
+  const kept = working.map((message, index) => ({ message, index }))
+  const dropped: AIMessage[] = []
+
+  while (totalTokens(kept.map(k => k.message)) > budgetTokens - summaryBudget) {
+    const dropAt = kept.findIndex(k => !isPinned(k.index))
+    if (dropAt === -1) break
+    dropped.push(messages[kept[dropAt].index])
+    kept.splice(dropAt, 1)
+  }
+
+  let result = kept.map(k => k.message)
+
+  // Step 3: pinned messages alone still don't fit — shrink them, code first
+  if (totalTokens(result) > budgetTokens - summaryBudget) {
+    result = result.map((message, i) => {
+      if (kept[i].index !== codeIndex) return message
+      const content = keepLastCodeBlock(message.content)
+      if (content !== message.content) truncatedCount++
+      return { ...message, content }
+    })
+
+    // Then cut older history before the latest turn, and that one from
+    // the middle so its leading instructions stay
+    for (let i = 0; i < result.length; i++) {
+      const overflow = totalTokens(result) - (budgetTokens - summaryBudget)
+      if (overflow <= 0) break
+      const target = messageTokens(result[i]) - overflow - MESSAGE_OVERHEAD_TOKENS
+      result[i] = { ...result[i], content: truncateMiddle(result[i].content, target) }
+      truncatedCount++
+    }
+  }
+
+  let summarized = false
+  if (dropped.length > 0) {
+    const summary = summarizeDropped(dropped, Math.min(summaryBudget, budgetTokens - totalTokens(result)))
+    if (summary) {
+      result = [summary, ...result]
+      summarized = true
+    }
+  }
+
+  return report(result, dropped.length, truncatedCount, summarized)
+}
+
+/**
+ * Human-readable description of what was trimmed, or null if nothing was
+ */
+export function describeContextReport(report: ContextWindowReport): string | null {
+  const parts: string[] = []
+  if (report.droppedCount > 0) {
+    parts.push(`${report.droppedCount} earlier message${report.droppedCount === 1 ? '' : 's'} ${report.summarized ? 'summarized' : 'dropped'}`)
+  }
+  if (report.truncatedCount > 0) {
+    parts.push(`${report.truncatedCount} message${report.truncatedCount === 1 ? '' : 's'} truncated`)
+  }
+  return parts.length > 0 ? parts.join(', ') : null
+}
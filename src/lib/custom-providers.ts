@@ -0,0 +1,107 @@
+/**
+ * Custom AI Providers
+ *
+ * User-configured OpenAI-compatible chat endpoints: Ollama, LM Studio,
+ * llama.cpp server, vLLM or any other server that implements
+ * /v1/chat/completions and /v1/models. They are saved in the app settings
+ * and listed next to the built-in providers. The API key is optional and
+ * kept in settings.apiKeys under the provider's id, like the others.
+ */
+
+import type { AIProvider } from '@/store/app-store'
+import { generateId } from './utils'
+
+export interface CustomProvider {
+  id: string // Always starts with CUSTOM_PROVIDER_PREFIX
+  name: string
+  baseUrl: string // Including the API version, e.g. http://localhost:11434/v1
+  models: string[] // Discovered from {baseUrl}/models
+}
+
+export const CUSTOM_PROVIDER_PREFIX = 'custom-'
+
+// Ollama's OpenAI-compatible endpoint
+export const DEFAULT_CUSTOM_PROVIDER_URL = 'http://localhost:11434/v1'
+
+// Output tokens requested from self-hosted models, whose context windows
+// are often small; servers reject requests that can't fit
+export const CUSTOM_PROVIDER_MAX_TOKENS = 4096
+
+export function createCustomProviderId(): string {
+  return `${CUSTOM_PROVIDER_PREFIX}${generateId()}`
+}
+
+export function isCustomProvider(providerId: string): boolean {
+  return providerId.startsWith(CUSTOM_PROVIDER_PREFIX)
+}
+
+/**
+ * True if requests to the provider can be made with the keys entered;
+ * custom endpoints usually need none
+ */
+export function hasProviderCredentials(providerId: string, apiKeys: Record<string, string>): boolean {
+  return isCustomProvider(providerId) || !!apiKeys[providerId]?.trim()
+}
+
+export function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '')
+}
+
+/**
+ * List the models an OpenAI-compatible server offers
+ */
+export async function fetchCustomProviderModels(baseUrl: string, apiKey?: string, signal?: AbortSignal): Promise<string[]> {
+  const url = `${normalizeBaseUrl(baseUrl)}/models`
+  const headers: Record<string, string> = { 'Accept': 'application/json' }
+  if (apiKey?.trim()) {
+    headers['Authorization'] = `Bearer ${apiKey.trim()}`
+  }
+
+  let response: Response
+  try {
+    response = await fetch(url, { headers, signal })
+  } catch (error) {
+    throw new Error(`Could not reach ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status} ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  if (!Array.isArray(data?.data)) {
+    throw new Error(`${url} did not return an OpenAI-style model list`)
+  }
+
+  const models: string[] = data.data
+    .map((model: { id?: unknown }) => model.id)
+    .filter((id: unknown): id is string => typeof id === 'string' && id.length > 0)
+  return models.sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * The provider as it appears in model pickers
+ */
+export function toAIProvider(provider: CustomProvider): AIProvider {
+  return {
+    id: provider.id,
+    name: provider.name,
+    baseUrl: provider.baseUrl,
+    models: provider.models.map(model => ({
+      id: model,
+      name: model,
+      description: `Served by ${provider.name}`,
+      pricing: 'Self-hosted'
+    }))
+  }
+}
+
+/**
+ * Built-in providers followed by the custom ones
+ */
+export function withCustomProviders(providers: AIProvider[], customProviders: CustomProvider[]): AIProvider[] {
+  return [
+    ...providers.filter(provider => !isCustomProvider(provider.id)),
+    ...customProviders.map(toAIProvider)
+  ]
+}
@@ -2,12 +2,22 @@
  * SQLite Database Service for WebMaigeXR
  *
  * Uses sql.js (SQLite compiled to WebAssembly) for browser-based SQL storage.
- * Replaces localStorage for better performance and relational data support.
+ * Replaces localStorage for better performance and relational data support;
+ * the database file itself is kept in IndexedDB (see db-storage).
  *
  * IMPORTANT: This module is client-only and should not be imported on the server.
  */
 
 import type { Database, SqlJsStatic } from 'sql.js'
+import type { RAGDocument, RAGSource } from './rag-service'
+import { getEmbeddingModelKey, TOGETHER_EMBEDDING_MODEL, type EmbeddingProviderId } from './embedding-service'
+import { DEFAULT_XR_SETTINGS, type SceneXRSettings } from './scene-xr'
+import type { CustomProvider } from './custom-providers'
+import type { ModelCatalogEntry } from './model-catalog'
+import { loadDatabaseFile, saveDatabaseFile } from './db-storage'
+
+// Key the database was kept under before it moved to IndexedDB
+const LEGACY_STORAGE_KEY = 'xrai-sqlite-db'
 
 export interface Conversation {
   id: string
@@ -17,6 +27,7 @@ export interface Conversation {
   updatedAt: number
   messageCount: number
   preview?: string
+  screenshotBase64?: string // Thumbnail of the conversation's scene
 }
 
 export interface Message {
@@ -27,6 +38,12 @@ export interface Message {
   timestamp: number
   hasCode: boolean
   library?: string
+  interrupted?: boolean
+  isError?: boolean // The app's notice that a request failed, not a model reply
+  parentId?: string // Message this one follows; messages sharing a parent are variants
+  model?: string
+  siblingIds?: string[] // All variants at this position, oldest first (read-only)
+  sources?: RAGSource[] // Past conversations and snippets retrieved as context
 }
 
 export interface AppSettings {
@@ -38,6 +55,12 @@ export interface AppSettings {
   topP: number
   systemPrompt: string
   theme: 'light' | 'dark' | 'system'
+  embeddingProvider?: EmbeddingProviderId
+  embeddingBaseUrl?: string
+  embeddingModel?: string
+  codeEditMode?: 'full' | 'patch'
+  autoFixAttempts?: number
+  customProviders?: CustomProvider[]
 }
 
 export interface CodeSnippet {
@@ -50,6 +73,7 @@ export interface CodeSnippet {
   category?: string
   createdAt: number
   updatedAt: number
+  screenshotBase64?: string // Thumbnail of the scene the snippet was saved from
 }
 
 class DatabaseService {
@@ -58,6 +82,9 @@ class DatabaseService {
   private db: Database | null = null
   private isInitialized = false
   private initPromise: Promise<void> | null = null
+  private persistWrite: Promise<void> | null = null
+  private persistQueued = false
+  private persistErrorListeners = new Set<(error: unknown) => void>()
 
   private constructor() {}
 
@@ -98,13 +125,16 @@ class DatabaseService {
         locateFile: (file: string) => `/sql-wasm/${file}`
       })
 
-      // Try to load existing database from localStorage
-      const savedDb = localStorage.getItem('xrai-sqlite-db')
+      // Try to load existing database from IndexedDB, then from where
+      // older versions kept it
+      const savedDb = await loadDatabaseFile()
+      const legacyDb = savedDb ? null : localStorage.getItem(LEGACY_STORAGE_KEY)
 
       if (savedDb) {
-        // Load existing database
-        const buffer = this.base64ToBuffer(savedDb)
-        this.db = new this.SQL.Database(buffer)
+        this.db = new this.SQL.Database(savedDb)
+        console.log('📦 Loaded existing SQLite database from IndexedDB')
+      } else if (legacyDb) {
+        this.db = new this.SQL.Database(this.base64ToBuffer(legacyDb))
         console.log('📦 Loaded existing SQLite database from localStorage')
       } else {
         // Create new database
@@ -114,10 +144,21 @@ class DatabaseService {
 
       // Create tables
       this.createTables()
+      this.migrateSchema()
 
       // Migrate data from old localStorage if exists
       await this.migrateFromLocalStorage()
 
+      if (legacyDb) {
+        // Only drop the old copy once the database is safely in IndexedDB
+        try {
+          await saveDatabaseFile(this.db.export())
+          localStorage.removeItem(LEGACY_STORAGE_KEY)
+        } catch (error) {
+          console.error('Failed to move database to IndexedDB:', error)
+        }
+      }
+
       this.isInitialized = true
     } catch (error) {
       console.error('Failed to initialize database:', error)
@@ -140,7 +181,9 @@ class DatabaseService {
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL,
         message_count INTEGER DEFAULT 0,
-        preview TEXT
+        preview TEXT,
+        screenshot_base64 TEXT,
+        xr_settings TEXT
       )
     `)
 
@@ -154,6 +197,12 @@ class DatabaseService {
         timestamp INTEGER NOT NULL,
         has_code INTEGER DEFAULT 0,
         library TEXT,
+        interrupted INTEGER DEFAULT 0,
+        is_error INTEGER DEFAULT 0,
+        parent_id TEXT,
+        is_active INTEGER DEFAULT 1,
+        model TEXT,
+        sources TEXT,
         FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
       )
     `)
@@ -177,7 +226,8 @@ class DatabaseService {
         tags TEXT,
         category TEXT,
         created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
+        updated_at INTEGER NOT NULL,
+        screenshot_base64 TEXT
       )
     `)
 
@@ -198,6 +248,27 @@ class DatabaseService {
       )
     `)
 
+    // Project files table (the playground's file tree per conversation)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS project_files (
+        conversation_id TEXT NOT NULL,
+        path TEXT NOT NULL,
+        content TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (conversation_id, path),
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+      )
+    `)
+
+    // Model lists fetched from the providers' APIs
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS model_catalog (
+        provider_id TEXT PRIMARY KEY,
+        models TEXT NOT NULL,
+        fetched_at INTEGER NOT NULL
+      )
+    `)
+
     // RAG documents table
     this.db.run(`
       CREATE TABLE IF NOT EXISTS rag_documents (
@@ -210,6 +281,18 @@ class DatabaseService {
       )
     `)
 
+    // RAG embeddings table (Float32 vectors stored as BLOBs)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS rag_embeddings (
+        id TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        model TEXT,
+        dimension INTEGER,
+        FOREIGN KEY (document_id) REFERENCES rag_documents(id) ON DELETE CASCADE
+      )
+    `)
+
     // Create indexes for better performance
     this.db.run(`
       CREATE INDEX IF NOT EXISTS idx_messages_conversation
@@ -236,9 +319,91 @@ class DatabaseService {
       ON rag_documents(source_type, source_id)
     `)
 
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_rag_embeddings_document
+      ON rag_embeddings(document_id)
+    `)
+
     console.log('✅ Database tables created successfully')
   }
 
+  /**
+   * Add columns introduced after the initial schema to existing databases
+   */
+  private migrateSchema(): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.ensureColumn('messages', 'interrupted', 'INTEGER DEFAULT 0')
+    if (this.ensureColumn('messages', 'is_error', 'INTEGER DEFAULT 0')) {
+      // Error notices saved before the flag existed
+      this.db.run(`UPDATE messages SET is_error = 1 WHERE role = 'assistant' AND content LIKE 'Sorry, I encountered an error:%'`)
+    }
+    this.ensureColumn('messages', 'is_active', 'INTEGER DEFAULT 1')
+    this.ensureColumn('messages', 'model', 'TEXT')
+    this.ensureColumn('messages', 'sources', 'TEXT')
+    if (this.ensureColumn('messages', 'parent_id', 'TEXT')) {
+      this.backfillMessageParents()
+    }
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_messages_parent
+      ON messages(conversation_id, parent_id)
+    `)
+
+    this.ensureColumn('conversations', 'screenshot_base64', 'TEXT')
+    this.ensureColumn('conversations', 'xr_settings', 'TEXT')
+    this.ensureColumn('code_snippets', 'screenshot_base64', 'TEXT')
+
+    this.ensureColumn('rag_embeddings', 'dimension', 'INTEGER')
+    if (this.ensureColumn('rag_embeddings', 'model', 'TEXT')) {
+      // Vectors stored before the model was recorded all came from Together
+      this.db.run(`
+        UPDATE rag_embeddings
+        SET model = ?, dimension = length(embedding) / 4
+      `, [getEmbeddingModelKey({ id: 'together', model: TOGETHER_EMBEDDING_MODEL })])
+    }
+  }
+
+  /**
+   * Add a column if it is missing. Returns true if the column was added.
+   */
+  private ensureColumn(table: string, column: string, definition: string): boolean {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const results = this.db.exec(`PRAGMA table_info(${table})`)
+    const columns = results.length > 0 ? results[0].values.map((row: any) => row[1] as string) : []
+
+    if (columns.includes(column)) return false
+
+    this.db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+    return true
+  }
+
+  /**
+   * Chain pre-existing messages in timestamp order so linear conversations
+   * become a single path in the message tree
+   */
+  private backfillMessageParents(): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const results = this.db.exec(`
+      SELECT id, conversation_id
+      FROM messages
+      ORDER BY conversation_id, timestamp ASC, rowid ASC
+    `)
+    if (results.length === 0) return
+
+    let previous: { id: string; conversationId: string } | null = null
+    for (const row of results[0].values) {
+      const id = row[0] as string
+      const conversationId = row[1] as string
+      if (previous && previous.conversationId === conversationId) {
+        this.db.run('UPDATE messages SET parent_id = ? WHERE id = ?', [previous.id, id])
+      }
+      previous = { id, conversationId }
+    }
+  }
+
   /**
    * Migrate data from old localStorage-based Zustand store
    */
@@ -279,19 +444,23 @@ class DatabaseService {
         ])
 
         // Migrate messages
+        let parentId: string | null = null
         for (const msg of state.messages) {
+          const messageId = msg.id || this.generateId()
           this.db!.run(`
-            INSERT INTO messages (id, conversation_id, role, content, timestamp, has_code, library)
-            VALUES (?, ?, ?, ?, ?, ?, ?)
+            INSERT INTO messages (id, conversation_id, role, content, timestamp, has_code, library, parent_id)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
           `, [
-            msg.id || this.generateId(),
+            messageId,
             conversationId,
             msg.role,
             msg.content,
             msg.timestamp || Date.now(),
             msg.hasCode ? 1 : 0,
-            msg.library || state.settings?.selectedLibrary
+            msg.library || state.settings?.selectedLibrary,
+            parentId
           ])
+          parentId = messageId
         }
 
         console.log(`✅ Migrated ${state.messages.length} messages to conversation: ${conversationId}`)
@@ -311,17 +480,42 @@ class DatabaseService {
   }
 
   /**
-   * Persist database to localStorage
+   * Persist database to IndexedDB. Writes run one at a time; changes made
+   * while one is running are saved by a single write after it.
    */
   public persist(): void {
     if (!this.db) return
 
+    if (this.persistWrite) {
+      this.persistQueued = true
+      return
+    }
+
+    this.persistWrite = this.writeDatabase(this.db.export()).finally(() => {
+      this.persistWrite = null
+      if (this.persistQueued) {
+        this.persistQueued = false
+        this.persist()
+      }
+    })
+  }
+
+  private async writeDatabase(data: Uint8Array): Promise<void> {
     try {
-      const data = this.db.export()
-      const base64 = this.bufferToBase64(data)
-      localStorage.setItem('xrai-sqlite-db', base64)
+      await saveDatabaseFile(data)
     } catch (error) {
       console.error('Failed to persist database:', error)
+      this.persistErrorListeners.forEach(listener => listener(error))
+    }
+  }
+
+  /**
+   * Be told when changes could not be saved; returns an unsubscribe function
+   */
+  public onPersistError(listener: (error: unknown) => void): () => void {
+    this.persistErrorListeners.add(listener)
+    return () => {
+      this.persistErrorListeners.delete(listener)
     }
   }
 
@@ -330,7 +524,9 @@ class DatabaseService {
    */
   public close(): void {
     if (this.db) {
-      this.persist()
+      // A queued write would find the database closed, so save it now
+      this.persistQueued = false
+      void this.writeDatabase(this.db.export())
       this.db.close()
       this.db = null
       this.isInitialized = false
@@ -370,7 +566,7 @@ class DatabaseService {
     if (!this.db) throw new Error('Database not initialized')
 
     const results = this.db.exec(`
-      SELECT id, title, library, created_at, updated_at, message_count, preview
+      SELECT id, title, library, created_at, updated_at, message_count, preview, screenshot_base64
       FROM conversations
       ORDER BY updated_at DESC
     `)
@@ -384,7 +580,8 @@ class DatabaseService {
       createdAt: row[3] as number,
       updatedAt: row[4] as number,
       messageCount: row[5] as number,
-      preview: row[6] as string | undefined
+      preview: row[6] as string | undefined,
+      screenshotBase64: (row[7] as string | null) || undefined
     }))
   }
 
@@ -392,7 +589,7 @@ class DatabaseService {
     if (!this.db) throw new Error('Database not initialized')
 
     const results = this.db.exec(`
-      SELECT id, title, library, created_at, updated_at, message_count, preview
+      SELECT id, title, library, created_at, updated_at, message_count, preview, screenshot_base64
       FROM conversations
       WHERE id = ?
     `, [id])
@@ -407,7 +604,8 @@ class DatabaseService {
       createdAt: row[3] as number,
       updatedAt: row[4] as number,
       messageCount: row[5] as number,
-      preview: row[6] as string | undefined
+      preview: row[6] as string | undefined,
+      screenshotBase64: (row[7] as string | null) || undefined
     }
   }
 
@@ -444,11 +642,53 @@ class DatabaseService {
     this.persist()
   }
 
+  /**
+   * Store a conversation's preview image without bumping its updated_at,
+   * so re-running a scene doesn't reorder the history
+   */
+  public setConversationScreenshot(id: string, screenshotBase64: string | null): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.run('UPDATE conversations SET screenshot_base64 = ? WHERE id = ?', [screenshotBase64, id])
+    this.persist()
+  }
+
+  /**
+   * The WebXR mode and reference space chosen for a conversation's scene
+   */
+  public getConversationXRSettings(id: string): SceneXRSettings | null {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const results = this.db.exec('SELECT xr_settings FROM conversations WHERE id = ?', [id])
+    const value = results.length > 0 ? results[0].values[0]?.[0] as string | null : null
+    if (!value) return null
+
+    try {
+      return { ...DEFAULT_XR_SETTINGS, ...JSON.parse(value) }
+    } catch {
+      return null
+    }
+  }
+
+  public setConversationXRSettings(id: string, settings: SceneXRSettings): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.run('UPDATE conversations SET xr_settings = ? WHERE id = ?', [JSON.stringify(settings), id])
+    this.persist()
+  }
+
   public deleteConversation(id: string): void {
     if (!this.db) throw new Error('Database not initialized')
 
+    // Drop the retrieval index for its messages
+    this.deleteRAGDocumentsWhere(
+      `source_type = 'message' AND source_id IN (SELECT id FROM messages WHERE conversation_id = ?)`,
+      [id]
+    )
+
     // Delete messages first (CASCADE should handle this, but explicit is safer)
     this.db.run('DELETE FROM messages WHERE conversation_id = ?', [id])
+    this.db.run('DELETE FROM project_files WHERE conversation_id = ?', [id])
     this.db.run('DELETE FROM conversations WHERE id = ?', [id])
 
     this.persist()
@@ -459,7 +699,7 @@ class DatabaseService {
 
     const searchTerm = `%${query.toLowerCase()}%`
     const results = this.db.exec(`
-      SELECT id, title, library, created_at, updated_at, message_count, preview
+      SELECT id, title, library, created_at, updated_at, message_count, preview, screenshot_base64
       FROM conversations
       WHERE LOWER(title) LIKE ? OR LOWER(preview) LIKE ?
       ORDER BY updated_at DESC
@@ -474,20 +714,22 @@ class DatabaseService {
       createdAt: row[3] as number,
       updatedAt: row[4] as number,
       messageCount: row[5] as number,
-      preview: row[6] as string | undefined
+      preview: row[6] as string | undefined,
+      screenshotBase64: (row[7] as string | null) || undefined
     }))
   }
 
   // ==================== Message Methods ====================
 
-  public addMessage(message: Omit<Message, 'id'>): string {
+  public addMessage(message: Omit<Message, 'id' | 'siblingIds'>): string {
     if (!this.db) throw new Error('Database not initialized')
 
     const id = this.generateId()
+    const parentId = message.parentId || null
 
     this.db.run(`
-      INSERT INTO messages (id, conversation_id, role, content, timestamp, has_code, library)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO messages (id, conversation_id, role, content, timestamp, has_code, library, parent_id, is_active, model, sources, is_error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?)
     `, [
       id,
       message.conversationId,
@@ -495,9 +737,20 @@ class DatabaseService {
       message.content,
       message.timestamp,
       message.hasCode ? 1 : 0,
-      message.library || null
+      message.library || null,
+      parentId,
+      message.model || null,
+      message.sources && message.sources.length > 0 ? JSON.stringify(message.sources) : null,
+      message.isError ? 1 : 0
     ])
 
+    // The new message becomes the active variant at its position
+    this.db.run(`
+      UPDATE messages
+      SET is_active = 0
+      WHERE conversation_id = ? AND parent_id IS ? AND id != ?
+    `, [message.conversationId, parentId, id])
+
     // Update conversation message count and updated_at
     this.db.run(`
       UPDATE conversations
@@ -511,40 +764,130 @@ class DatabaseService {
     return id
   }
 
+  /**
+   * Get the active path through the conversation's message tree
+   */
   public getMessages(conversationId: string): Message[] {
     if (!this.db) throw new Error('Database not initialized')
 
     const results = this.db.exec(`
-      SELECT id, conversation_id, role, content, timestamp, has_code, library
+      SELECT id, conversation_id, role, content, timestamp, has_code, library, interrupted, parent_id, is_active, model, sources, is_error
       FROM messages
       WHERE conversation_id = ?
-      ORDER BY timestamp ASC
+      ORDER BY timestamp ASC, rowid ASC
     `, [conversationId])
 
     if (results.length === 0) return []
 
-    return results[0].values.map((row: any) => ({
-      id: row[0] as string,
-      conversationId: row[1] as string,
-      role: row[2] as 'user' | 'assistant',
-      content: row[3] as string,
-      timestamp: row[4] as number,
-      hasCode: row[5] === 1,
-      library: row[6] as string | undefined
-    }))
+    const activeIds = new Set<string>()
+    const messages: Message[] = results[0].values.map((row: any) => {
+      if (row[9] === 1) activeIds.add(row[0] as string)
+      return {
+        id: row[0] as string,
+        conversationId: row[1] as string,
+        role: row[2] as 'user' | 'assistant',
+        content: row[3] as string,
+        timestamp: row[4] as number,
+        hasCode: row[5] === 1,
+        library: row[6] as string | undefined,
+        interrupted: row[7] === 1,
+        isError: row[12] === 1,
+        parentId: (row[8] as string | null) || undefined,
+        model: (row[10] as string | null) || undefined,
+        sources: row[11] ? JSON.parse(row[11] as string) : undefined
+      }
+    })
+
+    return this.resolveActivePath(messages, activeIds)
+  }
+
+  /**
+   * Walk the message tree from the root, following the active child at each level
+   */
+  private resolveActivePath(messages: Message[], activeIds: Set<string>): Message[] {
+    const children = new Map<string, Message[]>()
+    for (const message of messages) {
+      const key = message.parentId || ''
+      const group = children.get(key) || []
+      group.push(message)
+      children.set(key, group)
+    }
+
+    const path: Message[] = []
+    const visited = new Set<string>()
+    let siblings = children.get('')
+
+    while (siblings && siblings.length > 0) {
+      const candidates: Message[] = siblings
+      const active = candidates.filter(m => activeIds.has(m.id)).pop() || candidates[candidates.length - 1]
+      if (visited.has(active.id)) break
+      visited.add(active.id)
+
+      path.push({ ...active, siblingIds: candidates.map(m => m.id) })
+      siblings = children.get(active.id)
+    }
+
+    return path
+  }
+
+  /**
+   * Make a message the active variant among its siblings
+   */
+  public selectMessage(id: string): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const results = this.db.exec('SELECT conversation_id, parent_id FROM messages WHERE id = ?', [id])
+    if (results.length === 0 || results[0].values.length === 0) return
+
+    const [conversationId, parentId] = results[0].values[0]
+
+    this.db.run(`
+      UPDATE messages
+      SET is_active = CASE WHEN id = ? THEN 1 ELSE 0 END
+      WHERE conversation_id = ? AND parent_id IS ?
+    `, [id, conversationId, parentId])
+
+    this.persist()
   }
 
   public deleteMessage(id: string): void {
     if (!this.db) throw new Error('Database not initialized')
 
-    // Get conversation_id before deleting
-    const results = this.db.exec('SELECT conversation_id FROM messages WHERE id = ?', [id])
+    // Get conversation_id and tree position before deleting
+    const results = this.db.exec('SELECT conversation_id, parent_id, is_active FROM messages WHERE id = ?', [id])
 
     if (results.length > 0 && results[0].values.length > 0) {
-      const conversationId = results[0].values[0][0] as string
+      const [conversationId, parentId, isActive] = results[0].values[0]
 
-      // Delete message
+      // Delete message and its retrieval index
       this.db.run('DELETE FROM messages WHERE id = ?', [id])
+      this.deleteRAGDocumentsWhere(`source_type = 'message' AND source_id = ?`, [id])
+
+      // Re-attach its replies to its parent so the rest of the path survives.
+      // Replies of an inactive variant stay hidden.
+      this.db.run(`
+        UPDATE messages
+        SET parent_id = ?, is_active = CASE WHEN ? = 1 THEN is_active ELSE 0 END
+        WHERE parent_id = ?
+      `, [parentId, isActive, id])
+
+      // If the deleted message was active and nothing took its place, fall back to the newest sibling
+      if (isActive === 1) {
+        this.db.run(`
+          UPDATE messages
+          SET is_active = 1
+          WHERE id = (
+            SELECT id FROM messages
+            WHERE conversation_id = ? AND parent_id IS ?
+            ORDER BY timestamp DESC, rowid DESC
+            LIMIT 1
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM messages
+            WHERE conversation_id = ? AND parent_id IS ? AND is_active = 1
+          )
+        `, [conversationId, parentId, conversationId, parentId])
+      }
 
       // Update conversation message count
       this.db.run(`
@@ -558,14 +901,32 @@ class DatabaseService {
     }
   }
 
-  public updateMessage(id: string, content: string): void {
+  public updateMessage(id: string, content: string, updates: { hasCode?: boolean; interrupted?: boolean; isError?: boolean } = {}): void {
     if (!this.db) throw new Error('Database not initialized')
 
+    const setClauses: string[] = ['content = ?']
+    const values: any[] = [content]
+
+    if (updates.hasCode !== undefined) {
+      setClauses.push('has_code = ?')
+      values.push(updates.hasCode ? 1 : 0)
+    }
+    if (updates.interrupted !== undefined) {
+      setClauses.push('interrupted = ?')
+      values.push(updates.interrupted ? 1 : 0)
+    }
+    if (updates.isError !== undefined) {
+      setClauses.push('is_error = ?')
+      values.push(updates.isError ? 1 : 0)
+    }
+
+    values.push(id)
+
     this.db.run(`
       UPDATE messages
-      SET content = ?
+      SET ${setClauses.join(', ')}
       WHERE id = ?
-    `, [content, id])
+    `, values)
 
     this.persist()
   }
@@ -638,8 +999,8 @@ class DatabaseService {
     const now = Date.now()
 
     this.db.run(`
-      INSERT INTO code_snippets (id, title, description, code, library, tags, category, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO code_snippets (id, title, description, code, library, tags, category, created_at, updated_at, screenshot_base64)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       id,
       snippet.title,
@@ -649,7 +1010,8 @@ class DatabaseService {
       snippet.tags || '',
       snippet.category || null,
       now,
-      now
+      now,
+      snippet.screenshotBase64 || null
     ])
 
     this.persist()
@@ -678,7 +1040,8 @@ class DatabaseService {
       tags: row[5] as string,
       category: row[6] as string | undefined,
       createdAt: row[7] as number,
-      updatedAt: row[8] as number
+      updatedAt: row[8] as number,
+      screenshotBase64: (row[9] as string | null) || undefined
     }))
   }
 
@@ -705,7 +1068,8 @@ class DatabaseService {
       tags: row[5] as string,
       category: row[6] as string | undefined,
       createdAt: row[7] as number,
-      updatedAt: row[8] as number
+      updatedAt: row[8] as number,
+      screenshotBase64: (row[9] as string | null) || undefined
     }))
   }
 
@@ -713,22 +1077,300 @@ class DatabaseService {
     if (!this.db) throw new Error('Database not initialized')
 
     this.db.run('DELETE FROM code_snippets WHERE id = ?', [id])
+    this.deleteRAGDocumentsWhere(`source_type = 'snippet' AND source_id = ?`, [id])
     this.persist()
   }
 
-  // ==================== Utility Methods ====================
+  // ==================== Project Files Methods ====================
 
-  private generateId(): string {
-    return Math.random().toString(36).substring(2, 11) + Date.now().toString(36)
+  /**
+   * Get the playground files saved for a conversation, keyed by path
+   */
+  public getProjectFiles(conversationId: string): Record<string, string> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const results = this.db.exec(`
+      SELECT path, content FROM project_files
+      WHERE conversation_id = ?
+      ORDER BY path
+    `, [conversationId])
+
+    const files: Record<string, string> = {}
+    if (results.length === 0) return files
+
+    for (const row of results[0].values) {
+      files[row[0] as string] = row[1] as string
+    }
+    return files
+  }
+
+  /**
+   * Replace the playground files saved for a conversation
+   */
+  public saveProjectFiles(conversationId: string, files: Record<string, string>): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const now = Date.now()
+    this.db.run('DELETE FROM project_files WHERE conversation_id = ?', [conversationId])
+    for (const [path, content] of Object.entries(files)) {
+      this.db.run(`
+        INSERT INTO project_files (conversation_id, path, content, updated_at)
+        VALUES (?, ?, ?, ?)
+      `, [conversationId, path, content, now])
+    }
+
+    this.persist()
+  }
+
+  // ==================== Model Catalog Methods ====================
+
+  public getModelCatalog(): ModelCatalogEntry[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const results = this.db.exec('SELECT provider_id, models, fetched_at FROM model_catalog')
+    if (results.length === 0) return []
+
+    const entries: ModelCatalogEntry[] = []
+    for (const row of results[0].values) {
+      try {
+        entries.push({
+          providerId: row[0] as string,
+          models: JSON.parse(row[1] as string),
+          fetchedAt: row[2] as number
+        })
+      } catch {
+        // A corrupt list is fetched again on the next refresh
+      }
+    }
+    return entries
+  }
+
+  public saveModelCatalog(entry: ModelCatalogEntry): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.run(`
+      INSERT OR REPLACE INTO model_catalog (provider_id, models, fetched_at)
+      VALUES (?, ?, ?)
+    `, [entry.providerId, JSON.stringify(entry.models), entry.fetchedAt])
+
+    this.persist()
+  }
+
+  // ==================== RAG Methods ====================
+
+  /**
+   * Store documents with their embeddings, replacing any earlier documents
+   * for the same sources. `model` is the embedding model key.
+   */
+  public saveRAGDocuments(entries: Array<{ document: RAGDocument; embedding: number[] }>, model: string): void {
+    if (!this.db) throw new Error('Database not initialized')
+    if (entries.length === 0) return
+
+    const replaced = new Set<string>()
+    for (const { document, embedding } of entries) {
+      const sourceKey = `${document.sourceType}:${document.sourceId}`
+      if (!replaced.has(sourceKey)) {
+        this.deleteRAGDocumentsWhere('source_type = ? AND source_id = ?', [document.sourceType, document.sourceId])
+        replaced.add(sourceKey)
+      }
+
+      this.db.run(`
+        INSERT INTO rag_documents (id, source_type, source_id, chunk_text, chunk_index, metadata)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [
+        document.id,
+        document.sourceType,
+        document.sourceId,
+        document.chunkText,
+        document.chunkIndex,
+        document.metadata ? JSON.stringify(document.metadata) : null
+      ])
+
+      this.db.run(`
+        INSERT INTO rag_embeddings (id, document_id, embedding, model, dimension)
+        VALUES (?, ?, ?, ?, ?)
+      `, [this.generateId(), document.id, new Uint8Array(new Float32Array(embedding).buffer), model, embedding.length])
+    }
+
+    this.persist()
+  }
+
+  /**
+   * Get indexed documents with their embeddings from the given model
+   */
+  public getRAGDocuments(model: string): Array<{ document: RAGDocument; embedding: number[] }> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const results = this.db.exec(`
+      SELECT d.id, d.source_type, d.source_id, d.chunk_text, d.chunk_index, d.metadata, e.embedding
+      FROM rag_documents d
+      JOIN rag_embeddings e ON e.document_id = d.id
+      WHERE e.model = ?
+    `, [model])
+
+    if (results.length === 0) return []
+
+    return results[0].values.map((row: any) => {
+      const blob = row[6] as Uint8Array
+      const vector = new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength))
+
+      return {
+        document: {
+          id: row[0] as string,
+          sourceType: row[1] as RAGDocument['sourceType'],
+          sourceId: row[2] as string,
+          chunkText: row[3] as string,
+          chunkIndex: row[4] as number,
+          metadata: row[5] ? JSON.parse(row[5] as string) : undefined
+        },
+        embedding: Array.from(vector)
+      }
+    })
+  }
+
+  /**
+   * Messages long enough to be worth indexing that have no embedding from
+   * the given model yet — never indexed, or indexed by another model.
+   * Pass the last message of the previous page as `after` to get the next
+   * one; messages that yield no chunks are never indexed and would
+   * otherwise come back on every page.
+   */
+  public getUnindexedMessages(
+    model: string,
+    minLength: number,
+    limit: number,
+    after?: { timestamp: number; id: string }
+  ): Message[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const page = after ? 'AND (m.timestamp < ? OR (m.timestamp = ? AND m.id < ?))' : ''
+    const pageParams = after ? [after.timestamp, after.timestamp, after.id] : []
+
+    // Documents without chunk offsets predate chunking and are re-split
+    const results = this.db.exec(`
+      SELECT m.id, m.conversation_id, m.role, m.content, m.timestamp, m.library
+      FROM messages m
+      WHERE length(m.content) >= ? AND m.is_error = 0
+        AND NOT EXISTS (
+          SELECT 1 FROM rag_documents d
+          JOIN rag_embeddings e ON e.document_id = d.id
+          WHERE d.source_type = 'message' AND d.source_id = m.id AND e.model = ?
+            AND json_extract(d.metadata, '$.chunkEnd') IS NOT NULL
+        )
+        ${page}
+      ORDER BY m.timestamp DESC, m.id DESC
+      LIMIT ?
+    `, [minLength, model, ...pageParams, limit])
+
+    if (results.length === 0) return []
+
+    return results[0].values.map((row: any) => ({
+      id: row[0] as string,
+      conversationId: row[1] as string,
+      role: row[2] as 'user' | 'assistant',
+      content: row[3] as string,
+      timestamp: row[4] as number,
+      hasCode: (row[3] as string).includes('```'),
+      library: row[5] as string | undefined
+    }))
+  }
+
+  /**
+   * Snippets that have no embedding from the given model yet, paged like
+   * getUnindexedMessages
+   */
+  public getUnindexedSnippets(
+    model: string,
+    limit: number,
+    after?: { updatedAt: number; id: string }
+  ): CodeSnippet[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const page = after ? 'AND (s.updated_at < ? OR (s.updated_at = ? AND s.id < ?))' : ''
+    const pageParams = after ? [after.updatedAt, after.updatedAt, after.id] : []
+
+    const results = this.db.exec(`
+      SELECT s.id, s.title, s.description, s.code, s.library, s.tags, s.category, s.created_at, s.updated_at
+      FROM code_snippets s
+      WHERE NOT EXISTS (
+        SELECT 1 FROM rag_documents d
+        JOIN rag_embeddings e ON e.document_id = d.id
+        WHERE d.source_type = 'snippet' AND d.source_id = s.id AND e.model = ?
+          AND json_extract(d.metadata, '$.chunkEnd') IS NOT NULL
+      )
+      ${page}
+      ORDER BY s.updated_at DESC, s.id DESC
+      LIMIT ?
+    `, [model, ...pageParams, limit])
+
+    if (results.length === 0) return []
+
+    return results[0].values.map((row: any) => ({
+      id: row[0] as string,
+      title: row[1] as string,
+      description: row[2] as string,
+      code: row[3] as string,
+      library: row[4] as string,
+      tags: row[5] as string,
+      category: row[6] as string | undefined,
+      createdAt: row[7] as number,
+      updatedAt: row[8] as number
+    }))
+  }
+
+  public deleteRAGDocuments(sourceType: RAGDocument['sourceType'], sourceId: string): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.deleteRAGDocumentsWhere('source_type = ? AND source_id = ?', [sourceType, sourceId])
+    this.persist()
   }
 
-  private bufferToBase64(buffer: Uint8Array): string {
-    let binary = ''
-    const bytes = new Uint8Array(buffer)
-    for (let i = 0; i < bytes.byteLength; i++) {
-      binary += String.fromCharCode(bytes[i])
+  public clearRAGIndex(): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.run('DELETE FROM rag_embeddings')
+    this.db.run('DELETE FROM rag_documents')
+    this.persist()
+  }
+
+  public getRAGStats(): { documentCount: number; embeddingCount: number; models: Array<{ model: string; dimension: number; count: number }> } {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const documents = this.db.exec('SELECT COUNT(*) FROM rag_documents')
+    const embeddings = this.db.exec('SELECT COUNT(*) FROM rag_embeddings')
+    const models = this.db.exec(`
+      SELECT model, dimension, COUNT(*)
+      FROM rag_embeddings
+      GROUP BY model, dimension
+    `)
+
+    return {
+      documentCount: documents.length > 0 ? documents[0].values[0][0] as number : 0,
+      embeddingCount: embeddings.length > 0 ? embeddings[0].values[0][0] as number : 0,
+      models: models.length > 0
+        ? models[0].values.map((row: any) => ({ model: row[0] as string, dimension: row[1] as number, count: row[2] as number }))
+        : []
     }
-    return btoa(binary)
+  }
+
+  /**
+   * Delete matching documents and their embeddings. sql.js runs without
+   * foreign key enforcement, so embeddings are removed explicitly.
+   */
+  private deleteRAGDocumentsWhere(condition: string, params: any[]): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.run(`
+      DELETE FROM rag_embeddings
+      WHERE document_id IN (SELECT id FROM rag_documents WHERE ${condition})
+    `, params)
+    this.db.run(`DELETE FROM rag_documents WHERE ${condition}`, params)
+  }
+
+  // ==================== Utility Methods ====================
+
+  private generateId(): string {
+    return Math.random().toString(36).substring(2, 11) + Date.now().toString(36)
   }
 
   private base64ToBuffer(base64: string): Uint8Array {
@@ -766,6 +1408,8 @@ class DatabaseService {
 
     const buffer = await file.arrayBuffer()
     this.db = new this.SQL.Database(new Uint8Array(buffer))
+    this.createTables()
+    this.migrateSchema()
     this.persist()
   }
 }
@@ -0,0 +1,62 @@
+/**
+ * Database File Storage
+ *
+ * Keeps the exported sql.js database in IndexedDB. localStorage only holds
+ * strings, so the file had to be base64-encoded and was capped at ~5 MB,
+ * which embedding vectors fill quickly; IndexedDB stores the bytes as-is
+ * within the origin's much larger quota.
+ *
+ * IMPORTANT: This module is client-only and should not be imported on the server.
+ */
+
+const DB_NAME = 'xrai-storage'
+const STORE_NAME = 'files'
+const DATABASE_KEY = 'sqlite-db'
+
+let connection: Promise<IDBDatabase> | null = null
+
+function openStorage(): Promise<IDBDatabase> {
+  if (!connection) {
+    connection = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch(error => {
+      // Let the next call try again
+      connection = null
+      throw error
+    })
+  }
+  return connection
+}
+
+/**
+ * The saved database file, or null if none was saved yet
+ */
+export async function loadDatabaseFile(): Promise<Uint8Array | null> {
+  const db = await openStorage()
+
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(DATABASE_KEY)
+    request.onsuccess = () => resolve(request.result ? new Uint8Array(request.result) : null)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Replace the saved database file; resolves once the write is committed
+ */
+export async function saveDatabaseFile(data: Uint8Array): Promise<void> {
+  const db = await openStorage()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    transaction.objectStore(STORE_NAME).put(data, DATABASE_KEY)
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
@@ -1,19 +1,63 @@
 /**
  * Embedding Service for RAG System
  *
- * Generates vector embeddings using Together AI's embedding API.
+ * Generates vector embeddings through pluggable providers: Together AI,
+ * OpenAI, Google, any OpenAI-compatible local endpoint (Ollama, LM Studio),
+ * and an offline hashed-term provider that needs no key or network.
  * Used for semantic search in the RAG (Retrieval-Augmented Generation) system.
  */
 
 // Together AI embedding endpoint
 const TOGETHER_AI_EMBEDDING_URL = 'https://api.together.xyz/v1/embeddings'
 
-// Embedding model - serverless, 768-dim, 512 token context
-const EMBEDDING_MODEL = 'BAAI/bge-base-en-v1.5'
+// Together embedding model - serverless, 768-dim, 512 token context
+export const TOGETHER_EMBEDDING_MODEL = 'BAAI/bge-base-en-v1.5'
 
-// Embedding dimension for this model
+// Embedding dimension for the Together model
 export const EMBEDDING_DIMENSION = 768
 
+// OpenAI embedding endpoint and model - 1536-dim, 8191 token context
+const OPENAI_EMBEDDING_URL = 'https://api.openai.com/v1/embeddings'
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small'
+
+// Google embedding model - 768-dim, 2048 token context
+const GOOGLE_EMBEDDING_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models'
+const GOOGLE_EMBEDDING_MODEL = 'text-embedding-004'
+
+// Default model for OpenAI-compatible local servers (Ollama's name)
+export const DEFAULT_LOCAL_EMBEDDING_MODEL = 'nomic-embed-text'
+
+// Offline hashed-term vectors
+const HASHED_EMBEDDING_MODEL = 'hashed-terms-v1'
+const HASHED_EMBEDDING_DIMENSION = 512
+
+// Words too common to say anything about a text
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'you', 'are', 'was', 'but', 'not', 'can',
+  'have', 'has', 'will', 'from', 'into', 'what', 'when', 'how', 'use', 'using', 'make',
+  'let', 'const', 'var', 'new', 'return', 'function', 'import', 'export', 'default', 'is',
+  'it', 'to', 'of', 'in', 'on', 'an', 'be', 'as', 'at', 'by', 'or', 'if', 'me', 'my', 'do'
+])
+
+export type EmbeddingProviderId = 'together' | 'openai' | 'google' | 'local' | 'offline'
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId
+  model: string
+  // Characters embedded per text; longer texts are truncated
+  maxChars: number
+  // Similarity below which results are not considered related
+  minSimilarity: number
+  embed(texts: string[]): Promise<number[][]>
+}
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderId
+  apiKey?: string
+  baseUrl?: string
+  model?: string
+}
+
 export interface EmbeddingResult {
   embedding: number[]
   tokens: number
@@ -25,117 +69,276 @@ export interface BatchEmbeddingResult {
 }
 
 /**
- * Generate an embedding vector for a single text
+ * Identifies the model a stored vector came from. Vectors with different
+ * keys live in different spaces and can't be compared.
  */
-export async function generateEmbedding(
-  text: string,
-  apiKey: string
-): Promise<EmbeddingResult> {
-  if (!apiKey || apiKey.trim() === '') {
-    throw new Error('Together AI API key required for embeddings')
+export function getEmbeddingModelKey(provider: Pick<EmbeddingProvider, 'id' | 'model'>): string {
+  return `${provider.id}:${provider.model}`
+}
+
+/**
+ * Providers speaking the OpenAI /embeddings format
+ */
+class OpenAIStyleEmbeddingProvider implements EmbeddingProvider {
+  minSimilarity = 0.3
+
+  constructor(
+    public id: EmbeddingProviderId,
+    public model: string,
+    public maxChars: number,
+    private url: string,
+    private apiKey: string | undefined,
+    private batchSize: number,
+    private label: string
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const result = await this.embedWithUsage(texts)
+    return result.embeddings
   }
 
-  // Truncate text to fit within 512 token limit (~2000 chars for BAAI/bge-base-en-v1.5)
-  const truncatedText = text.length > 2000 ? text.substring(0, 2000) : text
+  async embedWithUsage(texts: string[]): Promise<BatchEmbeddingResult> {
+    const allEmbeddings: number[][] = []
+    let totalTokens = 0
 
-  const response = await fetch(TOGETHER_AI_EMBEDDING_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: EMBEDDING_MODEL,
-      input: truncatedText
-    })
-  })
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize).map(text => text.substring(0, this.maxChars))
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      if (this.apiKey) {
+        headers['Authorization'] = `Bearer ${this.apiKey}`
+      }
+
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          input: batch
+        })
+      })
+
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(`${this.label} embedding error: ${response.status} - ${error}`)
+      }
+
+      const data = await response.json()
+
+      if (!data.data || data.data.length !== batch.length) {
+        throw new Error(`${this.label} returned ${data.data?.length ?? 0} embeddings for ${batch.length} texts`)
+      }
+
+      // Sort by index to maintain order
+      const sortedData = data.data.sort((a: any, b: any) => a.index - b.index)
+      for (const item of sortedData) {
+        allEmbeddings.push(item.embedding)
+      }
 
-  if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`Together AI embedding error: ${response.status} - ${error}`)
+      totalTokens += data.usage?.total_tokens || 0
+
+      // Rate limiting - wait between batches
+      if (i + this.batchSize < texts.length) {
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+    }
+
+    return { embeddings: allEmbeddings, totalTokens }
   }
+}
 
-  const data = await response.json()
+export class TogetherEmbeddingProvider extends OpenAIStyleEmbeddingProvider {
+  constructor(apiKey: string) {
+    // ~2000 chars fits the 512 token limit; batches of 8 avoid rate limits
+    super('together', TOGETHER_EMBEDDING_MODEL, 2000, TOGETHER_AI_EMBEDDING_URL, apiKey, 8, 'Together AI')
+  }
+}
 
-  if (!data.data || data.data.length === 0) {
-    throw new Error('No embedding returned from API')
+export class OpenAIEmbeddingProvider extends OpenAIStyleEmbeddingProvider {
+  constructor(apiKey: string) {
+    super('openai', OPENAI_EMBEDDING_MODEL, 8000, OPENAI_EMBEDDING_URL, apiKey, 64, 'OpenAI')
   }
+}
 
-  return {
-    embedding: data.data[0].embedding,
-    tokens: data.usage?.total_tokens || 0
+export class OpenAICompatibleEmbeddingProvider extends OpenAIStyleEmbeddingProvider {
+  constructor(baseUrl: string, model: string, apiKey?: string) {
+    super('local', model, 2000, `${baseUrl.replace(/\/+$/, '')}/embeddings`, apiKey, 16, 'Local endpoint')
+  }
+}
+
+export class GoogleEmbeddingProvider implements EmbeddingProvider {
+  id: EmbeddingProviderId = 'google'
+  model = GOOGLE_EMBEDDING_MODEL
+  maxChars = 8000
+  minSimilarity = 0.3
+
+  constructor(private apiKey: string) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const BATCH_SIZE = 100
+    const allEmbeddings: number[][] = []
+
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const batch = texts.slice(i, i + BATCH_SIZE)
+
+      const response = await fetch(
+        `${GOOGLE_EMBEDDING_BASE_URL}/${this.model}:batchEmbedContents?key=${this.apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            requests: batch.map(text => ({
+              model: `models/${this.model}`,
+              content: { parts: [{ text: text.substring(0, this.maxChars) }] }
+            }))
+          })
+        }
+      )
+
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(`Google embedding error: ${response.status} - ${error}`)
+      }
+
+      const data = await response.json()
+
+      if (!data.embeddings || data.embeddings.length !== batch.length) {
+        throw new Error(`Google returned ${data.embeddings?.length ?? 0} embeddings for ${batch.length} texts`)
+      }
+
+      for (const item of data.embeddings) {
+        allEmbeddings.push(item.values)
+      }
+    }
+
+    return allEmbeddings
   }
 }
 
 /**
- * Generate embeddings for multiple texts in a single batch
+ * Offline provider: hashes words and word pairs into a fixed-size vector
+ * with log-scaled term frequencies. Far weaker than a neural model, but
+ * texts sharing vocabulary ("rotating cube", "babylon camera") still match.
  */
-export async function generateBatchEmbeddings(
-  texts: string[],
-  apiKey: string
-): Promise<BatchEmbeddingResult> {
-  if (!apiKey || apiKey.trim() === '') {
-    throw new Error('Together AI API key required for embeddings')
+export class HashedEmbeddingProvider implements EmbeddingProvider {
+  id: EmbeddingProviderId = 'offline'
+  model = HASHED_EMBEDDING_MODEL
+  maxChars = 20000
+  // Hashed vectors of related texts score lower than neural embeddings
+  minSimilarity = 0.15
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text.substring(0, this.maxChars)))
   }
 
-  if (texts.length === 0) {
-    return { embeddings: [], totalTokens: 0 }
-  }
+  private embedText(text: string): number[] {
+    const tokens = tokenize(text)
+    const counts = new Map<string, number>()
 
-  // Truncate texts to fit within 512 token limit (~2000 chars for BAAI/bge-base-en-v1.5)
-  const truncatedTexts = texts.map(text =>
-    text.length > 2000 ? text.substring(0, 2000) : text
-  )
-
-  // Process in batches of 8 to avoid rate limits
-  const BATCH_SIZE = 8
-  const allEmbeddings: number[][] = []
-  let totalTokens = 0
-
-  for (let i = 0; i < truncatedTexts.length; i += BATCH_SIZE) {
-    const batch = truncatedTexts.slice(i, i + BATCH_SIZE)
-
-    const response = await fetch(TOGETHER_AI_EMBEDDING_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: EMBEDDING_MODEL,
-        input: batch
-      })
+    tokens.forEach((token, i) => {
+      counts.set(token, (counts.get(token) || 0) + 1)
+      if (i + 1 < tokens.length) {
+        const pair = `${token} ${tokens[i + 1]}`
+        counts.set(pair, (counts.get(pair) || 0) + 0.5)
+      }
     })
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Together AI embedding error: ${response.status} - ${error}`)
+    const vector = new Array<number>(HASHED_EMBEDDING_DIMENSION).fill(0)
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature)
+      // The top bit picks the sign so collisions tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1
+      vector[hash % HASHED_EMBEDDING_DIMENSION] += sign * (1 + Math.log(1 + count))
     }
 
-    const data = await response.json()
+    return normalizeEmbedding(vector)
+  }
+}
 
-    if (data.data) {
-      // Sort by index to maintain order
-      const sortedData = data.data.sort((a: any, b: any) => a.index - b.index)
-      for (const item of sortedData) {
-        allEmbeddings.push(item.embedding)
+function tokenize(text: string): string[] {
+  return (text
+    // Split camelCase identifiers so "createScene" matches "scene"
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .match(/[a-z0-9]+/g) || [])
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Create the configured provider. Falls back to the offline provider when
+ * the configured one is missing its key or endpoint, so RAG always works.
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  const apiKey = config.apiKey?.trim()
+
+  switch (config.provider) {
+    case 'together':
+      if (apiKey) return new TogetherEmbeddingProvider(apiKey)
+      break
+    case 'openai':
+      if (apiKey) return new OpenAIEmbeddingProvider(apiKey)
+      break
+    case 'google':
+      if (apiKey) return new GoogleEmbeddingProvider(apiKey)
+      break
+    case 'local':
+      if (config.baseUrl?.trim()) {
+        return new OpenAICompatibleEmbeddingProvider(config.baseUrl.trim(), config.model?.trim() || DEFAULT_LOCAL_EMBEDDING_MODEL, apiKey)
       }
-    }
+      break
+    case 'offline':
+      break
+  }
 
-    totalTokens += data.usage?.total_tokens || 0
+  return new HashedEmbeddingProvider()
+}
 
-    // Rate limiting - wait between batches
-    if (i + BATCH_SIZE < truncatedTexts.length) {
-      await new Promise(resolve => setTimeout(resolve, 100))
-    }
+/**
+ * Generate a Together AI embedding vector for a single text
+ */
+export async function generateEmbedding(
+  text: string,
+  apiKey: string
+): Promise<EmbeddingResult> {
+  if (!apiKey || apiKey.trim() === '') {
+    throw new Error('Together AI API key required for embeddings')
   }
 
+  const result = await new TogetherEmbeddingProvider(apiKey).embedWithUsage([text])
+
   return {
-    embeddings: allEmbeddings,
-    totalTokens
+    embedding: result.embeddings[0],
+    tokens: result.totalTokens
   }
 }
 
+/**
+ * Generate Together AI embeddings for multiple texts in batches
+ */
+export async function generateBatchEmbeddings(
+  texts: string[],
+  apiKey: string
+): Promise<BatchEmbeddingResult> {
+  if (!apiKey || apiKey.trim() === '') {
+    throw new Error('Together AI API key required for embeddings')
+  }
+
+  if (texts.length === 0) {
+    return { embeddings: [], totalTokens: 0 }
+  }
+
+  return new TogetherEmbeddingProvider(apiKey).embedWithUsage(texts)
+}
+
 /**
  * Calculate cosine similarity between two embedding vectors
  */
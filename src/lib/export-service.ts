@@ -2,12 +2,29 @@
  * Scene Export Service
  *
  * Exports 3D scenes as standalone packages that can run independently.
- * Supports all 3D libraries: Babylon.js, Three.js, A-Frame, React Three Fiber.
+ * Supports all 3D libraries: Babylon.js, Three.js, A-Frame, React Three Fiber
+ * and Reactylon. React-based scenes export as Vite projects, and any scene can
+ * be exported as a Vite/npm project for production hand-off.
+ * Scenes that run straight in the browser can also be exported fully offline,
+ * with their library runtime and assets included (see offline-bundle.ts).
  */
 
 import { isElectron, getElectronAPI } from './platform'
+import { createOfflineBundle, inlineLocalScripts } from './offline-bundle'
+import { codeSandboxService } from './codesandbox-service'
+import { buildService } from './build-service'
 
-export type ExportFormat = 'zip' | 'html' | 'json'
+export type ExportFormat = 'zip' | 'html' | 'json' | 'project'
+
+// Build tooling for Vite project exports
+const VITE_VERSION = '^5.4.11'
+const VITE_REACT_PLUGIN_VERSION = '^4.3.4'
+
+// Libraries exportScene can package
+export const EXPORT_LIBRARIES = ['babylonjs', 'threejs', 'aframe', 'react-three-fiber', 'reactylon']
+
+// Libraries that can be exported fully offline; React projects are built with npm
+export const OFFLINE_EXPORT_LIBRARIES = ['babylonjs', 'threejs', 'aframe']
 
 export interface ExportOptions {
   format?: ExportFormat
@@ -15,6 +32,12 @@ export interface ExportOptions {
   minify?: boolean
   libraryId: string
   filename?: string
+  files?: Record<string, string> // Project files besides the scene, added as-is
+  offline?: boolean // Include the library runtime and assets so the scene needs no network
+  packages?: string[] // npm packages installed in the playground, added to project exports
+  includeGitignore?: boolean // Project exports only
+  onProgress?: (message: string) => void
+  signal?: AbortSignal
 }
 
 export interface ExportResult {
@@ -23,6 +46,7 @@ export interface ExportResult {
   path?: string
   error?: string
   data?: Uint8Array | string
+  warnings?: string[] // Parts of an offline export that still need the network
 }
 
 /**
@@ -32,48 +56,87 @@ export async function exportScene(
   code: string,
   options: ExportOptions
 ): Promise<ExportResult> {
-  const { libraryId, format = 'zip', includeReadme = true, filename } = options
+  const {
+    libraryId,
+    format = 'zip',
+    includeReadme = true,
+    includeGitignore = true,
+    filename,
+    files,
+    offline = false,
+    packages = [],
+    onProgress,
+    signal
+  } = options
 
   try {
     // Generate the appropriate template
     let exportData: { files: Record<string, string>; mainFile: string }
 
-    switch (libraryId) {
-      case 'babylonjs':
-        exportData = generateBabylonJSExport(code, includeReadme)
-        break
-      case 'threejs':
-        exportData = generateThreeJSExport(code, includeReadme)
-        break
-      case 'aframe':
-        exportData = generateAFrameExport(code, includeReadme)
-        break
-      case 'react-three-fiber':
-        exportData = generateR3FExport(code, includeReadme)
-        break
-      default:
-        return { success: false, error: `Unsupported library: ${libraryId}` }
+    if (format === 'project') {
+      if (offline) {
+        return { success: false, error: 'Projects install their dependencies with npm and cannot be exported offline' }
+      }
+      exportData = generateProjectExport(code, libraryId, { includeReadme, includeGitignore, packages })
+    } else {
+      switch (libraryId) {
+        case 'babylonjs':
+          exportData = generateBabylonJSExport(code, includeReadme)
+          break
+        case 'threejs':
+          exportData = generateThreeJSExport(code, includeReadme)
+          break
+        case 'aframe':
+          exportData = generateAFrameExport(code, includeReadme)
+          break
+        case 'react-three-fiber':
+          exportData = generateR3FExport(code, includeReadme)
+          break
+        case 'reactylon':
+          exportData = generateReactylonExport(code, includeReadme)
+          break
+        default:
+          return { success: false, error: `Unsupported library: ${libraryId}` }
+      }
+    }
+
+    // Project files win over generated ones with the same path
+    if (files) {
+      Object.assign(exportData.files, files)
+    }
+
+    let warnings: string[] | undefined
+    if (offline) {
+      if (!OFFLINE_EXPORT_LIBRARIES.includes(libraryId)) {
+        return { success: false, error: `Offline export is not available for ${libraryId}` }
+      }
+      const bundle = await createOfflineBundle(exportData.files, exportData.mainFile, { onProgress, signal })
+      exportData.files = bundle.files
+      warnings = bundle.warnings
     }
 
     // Determine export filename
     const exportFilename = filename || `maigeXR_${libraryId}_scene`
 
+    onProgress?.('Saving')
+    let result: ExportResult
     if (format === 'html') {
-      // Single HTML file export
-      const htmlContent = exportData.files[exportData.mainFile] || ''
-      return await saveFile(htmlContent, `${exportFilename}.html`, 'text/html')
+      // Single HTML file export, with local scripts inlined
+      const htmlContent = inlineLocalScripts(exportData.files[exportData.mainFile] || '', exportData.files)
+      result = await saveFile(htmlContent, `${exportFilename}.html`, 'text/html')
     } else if (format === 'json') {
       // JSON export (useful for debugging)
       const jsonContent = JSON.stringify(exportData.files, null, 2)
-      return await saveFile(jsonContent, `${exportFilename}.json`, 'application/json')
+      result = await saveFile(jsonContent, `${exportFilename}.json`, 'application/json')
     } else {
-      // ZIP export
-      return await createZipExport(exportData.files, `${exportFilename}.zip`)
+      // ZIP export, or a project's repo layout zipped
+      result = await createZipExport(exportData.files, `${exportFilename}.zip`)
     }
+    return warnings && warnings.length > 0 ? { ...result, warnings } : result
   } catch (error) {
     return {
       success: false,
-      error: String(error)
+      error: error instanceof Error ? error.message : String(error)
     }
   }
 }
@@ -286,41 +349,214 @@ Generated: ${new Date().toISOString()}
  * Generate React Three Fiber export files
  */
 function generateR3FExport(code: string, includeReadme: boolean): { files: Record<string, string>; mainFile: string } {
-  const packageJson = JSON.stringify({
+  return generateViteReactProject({
     name: 'maigexr-r3f-scene',
-    version: '1.0.0',
-    private: true,
+    title: 'React Three Fiber Scene - maigeXR',
+    framework: 'React Three Fiber',
+    app: codeSandboxService.wrapR3FComponent(code),
     dependencies: {
       'react': '^18.2.0',
       'react-dom': '^18.2.0',
-      '@react-three/fiber': '^8.15.0',
-      '@react-three/drei': '^9.107.0',
+      '@react-three/fiber': '^8.17.10',
+      '@react-three/drei': '^9.114.3',
       'three': '^0.171.0'
     },
-    scripts: {
-      'start': 'react-scripts start',
-      'build': 'react-scripts build'
+    includeReadme,
+    includeGitignore: true
+  })
+}
+
+/**
+ * Generate Reactylon export files
+ */
+function generateReactylonExport(code: string, includeReadme: boolean): { files: Record<string, string>; mainFile: string } {
+  return generateViteReactProject({
+    name: 'maigexr-reactylon-scene',
+    title: 'Reactylon Scene - maigeXR',
+    framework: 'Reactylon',
+    app: codeSandboxService.wrapReactylonComponent(code),
+    dependencies: {
+      'react': '^18.2.0',
+      'react-dom': '^18.2.0',
+      'react-reconciler': '^0.29.0',
+      'reactylon': '^3.2.1',
+      '@babylonjs/core': '^8.0.0',
+      '@babylonjs/loaders': '^8.0.0',
+      '@babylonjs/materials': '^8.0.0',
+      '@babylonjs/gui': '^8.0.0'
     },
-    browserslist: {
-      production: ['>0.2%', 'not dead', 'not op_mini all'],
-      development: ['last 1 chrome version', 'last 1 firefox version', 'last 1 safari version']
+    includeReadme,
+    includeGitignore: true
+  })
+}
+
+/**
+ * Generate a Vite/npm project for any library, with dependency versions from
+ * BuildService and the packages installed in the playground
+ */
+function generateProjectExport(
+  code: string,
+  libraryId: string,
+  options: { includeReadme: boolean; includeGitignore: boolean; packages: string[] }
+): { files: Record<string, string>; mainFile: string } {
+  const { includeReadme, includeGitignore, packages } = options
+
+  const pinned = (basePackages: string[]): Record<string, string> => {
+    const dependencies: Record<string, string> = {}
+    for (const pkg of [...basePackages, ...packages]) {
+      dependencies[pkg] = buildService.getPackageVersion(pkg)
     }
-  }, null, 2)
+    return dependencies
+  }
+
+  switch (libraryId) {
+    case 'babylonjs':
+      return generateViteProject({
+        name: 'maigexr-babylonjs-scene',
+        framework: 'Babylon.js',
+        dependencies: pinned(['@babylonjs/core', '@babylonjs/loaders']),
+        sources: {
+          'index.html': viteHtml('Babylon.js Scene - maigeXR', '<canvas id="renderCanvas"></canvas>', '#renderCanvas { width: 100%; height: 100%; display: block; touch-action: none; }'),
+          'index.js': buildService.convertBabylonJSToModules(code)
+        },
+        structure: ['index.js - Your Babylon.js scene (ES modules)', 'index.html - Page with the render canvas'],
+        includeReadme,
+        includeGitignore
+      })
+
+    case 'threejs':
+      return generateViteProject({
+        name: 'maigexr-threejs-scene',
+        framework: 'Three.js',
+        dependencies: pinned(['three']),
+        sources: {
+          'index.html': viteHtml('Three.js Scene - maigeXR', '', 'canvas { display: block; }'),
+          'index.js': buildService.convertThreeJSToModules(code)
+        },
+        structure: ['index.js - Your Three.js scene (ES modules)', 'index.html - Page the renderer attaches to'],
+        includeReadme,
+        includeGitignore
+      })
+
+    case 'aframe':
+      return generateViteProject({
+        name: 'maigexr-aframe-scene',
+        framework: 'A-Frame',
+        dependencies: pinned(['aframe']),
+        sources: {
+          'index.html': aframeViteHtml(code),
+          'index.js': `// A-Frame registers its elements when imported\nimport 'aframe';\n`
+        },
+        structure: ['index.html - Your A-Frame scene markup', 'index.js - Loads A-Frame from npm'],
+        includeReadme,
+        includeGitignore
+      })
+
+    case 'react-three-fiber':
+      return generateViteReactProject({
+        name: 'maigexr-r3f-scene',
+        title: 'React Three Fiber Scene - maigeXR',
+        framework: 'React Three Fiber',
+        app: codeSandboxService.wrapR3FComponent(code),
+        dependencies: pinned(['react', 'react-dom', '@react-three/fiber', '@react-three/drei', 'three']),
+        includeReadme,
+        includeGitignore
+      })
+
+    case 'reactylon':
+      return generateViteReactProject({
+        name: 'maigexr-reactylon-scene',
+        title: 'Reactylon Scene - maigeXR',
+        framework: 'Reactylon',
+        app: codeSandboxService.wrapReactylonComponent(code),
+        dependencies: pinned(['react', 'react-dom', 'react-reconciler', 'reactylon', '@babylonjs/core', '@babylonjs/loaders']),
+        includeReadme,
+        includeGitignore
+      })
+
+    default:
+      throw new Error(`Unsupported library: ${libraryId}`)
+  }
+}
+
+/**
+ * Page for a plain (non-React) Vite project; `index.js` is the entry module
+ */
+function viteHtml(title: string, body: string, style: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title}</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        html, body { width: 100%; height: 100%; overflow: hidden; }
+        ${style}
+    </style>
+</head>
+<body>
+    ${body}
+    <script type="module" src="/index.js"></script>
+</body>
+</html>`
+}
+
+/**
+ * A-Frame markup as a Vite page: the CDN build is replaced with the npm one
+ */
+function aframeViteHtml(code: string): string {
+  const entry = '<script type="module" src="/index.js"></script>'
+  const withoutCdn = code.replace(/\s*<script\b[^>]*\bsrc=["'][^"']*\/aframe(?:\.min)?\.js["'][^>]*><\/script>/gi, '')
+
+  if (!/<html[\s>]/i.test(withoutCdn)) {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>A-Frame Scene - maigeXR</title>
+    ${entry}
+</head>
+<body>
+    ${withoutCdn}
+</body>
+</html>`
+  }
+  return /<\/head>/i.test(withoutCdn)
+    ? withoutCdn.replace(/<\/head>/i, () => `  ${entry}\n  </head>`)
+    : withoutCdn.replace(/<html[^>]*>/i, tag => `${tag}\n<head>${entry}</head>`)
+}
+
+/**
+ * Vite project for a React-based scene: `npm install && npm run dev`
+ */
+function generateViteReactProject(options: {
+  name: string
+  title: string
+  framework: string
+  app: string
+  dependencies: Record<string, string>
+  includeReadme: boolean
+  includeGitignore: boolean
+}): { files: Record<string, string>; mainFile: string } {
+  const { name, title, framework, app, dependencies, includeReadme, includeGitignore } = options
 
   const indexHtml = `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="utf-8" />
     <meta name="viewport" content="width=device-width, initial-scale=1" />
-    <title>React Three Fiber Scene - maigeXR</title>
+    <title>${title}</title>
 </head>
 <body>
     <noscript>You need to enable JavaScript to run this app.</noscript>
     <div id="root"></div>
+    <script type="module" src="/src/main.jsx"></script>
 </body>
 </html>`
 
-  const indexJs = `import React from 'react';
+  const mainJsx = `import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import './index.css';
@@ -346,48 +582,112 @@ html, body, #root {
 }
 `
 
-  const appJs = `// React Three Fiber Scene - Generated by maigeXR
+  const appJsx = `// ${framework} Scene - Generated by maigeXR
 // https://maigexr.com
 
-import React, { useRef, useState, useEffect } from 'react';
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { OrbitControls, Environment, Html, Stats } from '@react-three/drei';
-import * as THREE from 'three';
+${app}
+`
 
-${code}
+  return generateViteProject({
+    name,
+    framework,
+    dependencies,
+    sources: {
+      'index.html': indexHtml,
+      'src/main.jsx': mainJsx,
+      'src/index.css': indexCss,
+      'src/App.jsx': appJsx
+    },
+    structure: [
+      `src/App.jsx - Your ${framework} scene component`,
+      'src/main.jsx - React entry point',
+      'index.html - HTML page Vite serves and builds'
+    ],
+    react: true,
+    includeReadme,
+    includeGitignore
+  })
+}
+
+/**
+ * Package, Vite config, README and .gitignore around a project's sources.
+ * `npm run build` writes the production site to dist/.
+ */
+function generateViteProject(options: {
+  name: string
+  framework: string
+  dependencies: Record<string, string>
+  sources: Record<string, string>
+  structure: string[] // README lines describing the sources
+  react?: boolean
+  includeReadme: boolean
+  includeGitignore: boolean
+}): { files: Record<string, string>; mainFile: string } {
+  const { name, framework, dependencies, sources, structure, react = false, includeReadme, includeGitignore } = options
+
+  const devDependencies: Record<string, string> = react
+    ? { '@vitejs/plugin-react': VITE_REACT_PLUGIN_VERSION, 'vite': VITE_VERSION }
+    : { 'vite': VITE_VERSION }
+
+  const packageJson = JSON.stringify({
+    name,
+    version: '1.0.0',
+    private: true,
+    type: 'module',
+    scripts: {
+      'dev': 'vite',
+      'build': 'vite build',
+      'preview': 'vite preview'
+    },
+    dependencies,
+    devDependencies
+  }, null, 2)
+
+  const viteConfig = react
+    ? `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+  build: { outDir: 'dist' },
+});
+`
+    : `import { defineConfig } from 'vite';
+
+export default defineConfig({
+  build: { outDir: 'dist' },
+});
 `
 
-  const gitignore = `# Dependencies
+  const files: Record<string, string> = {
+    'package.json': packageJson,
+    'vite.config.js': viteConfig,
+    ...sources
+  }
+
+  if (includeGitignore) {
+    files['.gitignore'] = `# Dependencies
 /node_modules
 
 # Production
-/build
+/dist
 
 # Environment
 .env
 .env.local
-.env.development.local
-.env.test.local
-.env.production.local
+.env.*.local
 
 # Logs
 npm-debug.log*
 yarn-debug.log*
 yarn-error.log*
 `
-
-  const files: Record<string, string> = {
-    'package.json': packageJson,
-    'public/index.html': indexHtml,
-    'src/index.js': indexJs,
-    'src/index.css': indexCss,
-    'src/App.js': appJs,
-    '.gitignore': gitignore
   }
 
   if (includeReadme) {
-    files['README.txt'] = `maigeXR - React Three Fiber Scene Export
-========================================
+    const heading = `maigeXR - ${framework} Scene Export`
+    files['README.txt'] = `${heading}
+${'='.repeat(heading.length)}
 
 This scene was created with maigeXR (https://maigexr.com)
 
@@ -395,30 +695,24 @@ SETUP:
 1. Install Node.js (https://nodejs.org)
 2. Open terminal in this directory
 3. Run: npm install
-4. Run: npm start
-5. Open http://localhost:3000 in browser
+4. Run: npm run dev
+5. Open the URL Vite prints (http://localhost:5173 by default)
 
 BUILDING FOR PRODUCTION:
 - Run: npm run build
-- Deploy the /build folder to any static host
+- Deploy the /dist folder to any static host
 
 PROJECT STRUCTURE:
-- src/App.js - Your R3F scene component
-- src/index.js - React entry point
-- public/index.html - HTML template
-- package.json - Dependencies
+${[...structure, 'vite.config.js - Vite configuration', 'package.json - Dependencies and scripts'].map(line => `- ${line}`).join('\n')}
 
 DEPENDENCIES:
-- React 18
-- React Three Fiber 8.x
-- React Three Drei 9.x
-- Three.js r171
+${Object.entries(dependencies).map(([pkg, version]) => `- ${pkg} ${version}`).join('\n')}
 
 Generated: ${new Date().toISOString()}
 `
   }
 
-  return { files, mainFile: 'public/index.html' }
+  return { files, mainFile: 'index.html' }
 }
 
 /**
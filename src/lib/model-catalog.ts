@@ -0,0 +1,116 @@
+/**
+ * Model Catalog
+ *
+ * Model lists fetched from the built-in providers' APIs, so new models show
+ * up and retired ones disappear without an app update. A fetched list is
+ * merged with the curated models in store-defaults, which keep their names,
+ * pricing and descriptions. Lists are cached in SQLite with the time they
+ * were fetched; a provider that was never fetched, or has no key, keeps the
+ * built-in list, and a failed refresh keeps whatever was shown before.
+ */
+
+import type { AIProvider } from '@/store/app-store'
+import { AIService, type ListedModel } from './ai-service'
+import { dbService } from './db-service'
+import { hasProviderCredentials, isCustomProvider } from './custom-providers'
+
+export interface ModelCatalogEntry {
+  providerId: string
+  models: ListedModel[]
+  fetchedAt: number
+}
+
+export interface ModelCatalogRefresh {
+  updated: string[] // Provider ids whose list was fetched and saved
+  failed: Array<{ providerId: string; error: string }>
+}
+
+// Cached lists older than this are fetched again when the app starts
+export const MODEL_CATALOG_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+/**
+ * The provider's models as currently listed: curated models the provider
+ * still lists, in their curated order, followed by the models it added
+ */
+export function mergeModelList(provider: AIProvider, listed: ListedModel[]): AIProvider['models'] {
+  const listedIds = new Set(listed.map(model => model.id))
+  const curatedIds = new Set(provider.models.map(model => model.id))
+
+  const kept = provider.models.filter(model => listedIds.has(model.id))
+  const added = listed
+    .filter(model => !curatedIds.has(model.id))
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(model => ({
+      id: model.id,
+      name: model.name || model.id,
+      description: model.description || `Listed by ${provider.name}`,
+      pricing: model.pricing || 'See provider pricing',
+      contextLength: model.contextLength
+    }))
+
+  return [...kept, ...added]
+}
+
+/**
+ * Built-in providers with their cached model lists applied
+ */
+export function applyModelCatalog(providers: AIProvider[], catalog: ModelCatalogEntry[]): AIProvider[] {
+  return providers.map(provider => {
+    const entry = catalog.find(e => e.providerId === provider.id)
+    // An empty list is more likely a bad response than a provider without models
+    if (!entry || entry.models.length === 0) return provider
+    return { ...provider, models: mergeModelList(provider, entry.models) }
+  })
+}
+
+/**
+ * True if a provider with a key has no cached list, or one older than
+ * MODEL_CATALOG_MAX_AGE_MS
+ */
+export function isModelCatalogStale(
+  providers: AIProvider[],
+  catalog: ModelCatalogEntry[],
+  apiKeys: Record<string, string>,
+  now = Date.now()
+): boolean {
+  return providers
+    .filter(provider => !isCustomProvider(provider.id) && hasProviderCredentials(provider.id, apiKeys))
+    .some(provider => {
+      const entry = catalog.find(e => e.providerId === provider.id)
+      return !entry || now - entry.fetchedAt > MODEL_CATALOG_MAX_AGE_MS
+    })
+}
+
+/**
+ * Fetch and cache the model lists of the built-in providers that have a
+ * key. Providers are fetched one by one; one that can't be reached is
+ * reported in `failed` and keeps its cached list.
+ */
+export async function refreshModelCatalog(
+  providers: AIProvider[],
+  apiKeys: Record<string, string>,
+  signal?: AbortSignal
+): Promise<ModelCatalogRefresh> {
+  const aiService = AIService.getInstance()
+  const result: ModelCatalogRefresh = { updated: [], failed: [] }
+
+  for (const provider of providers) {
+    if (isCustomProvider(provider.id) || !hasProviderCredentials(provider.id, apiKeys)) continue
+
+    try {
+      const models = await aiService.listModels(provider.id, apiKeys[provider.id], signal)
+      if (!models) continue
+
+      dbService.saveModelCatalog({ providerId: provider.id, models, fetchedAt: Date.now() })
+      result.updated.push(provider.id)
+    } catch (error) {
+      if (signal?.aborted) throw error
+      result.failed.push({
+        providerId: provider.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,335 @@
+/**
+ * Offline Bundles
+ *
+ * Rewrites an exported scene so it opens from file:// with no network.
+ * Browsers refuse module scripts and fetches from file:// pages, so:
+ * - classic library scripts are downloaded into vendor/ and loaded relatively
+ * - ES module graphs (Three.js) are downloaded, their imports resolved to
+ *   absolute URLs and mapped to data: URLs in the page's import map
+ * - module scene scripts are inlined into the page
+ * - textures, models and sounds the scene loads by URL are embedded as
+ *   data: URLs, which every loader can read without a server
+ */
+
+export interface OfflineBundleOptions {
+  onProgress?: (message: string) => void
+  signal?: AbortSignal
+}
+
+export interface OfflineBundleResult {
+  files: Record<string, string>
+  warnings: string[]
+}
+
+const VENDOR_DIR = 'vendor'
+
+// Base URL for project files imported by a module scene
+const PROJECT_BASE = 'http://project.local/'
+
+// Asset URLs in the scene that are embedded
+const ASSET_PATTERN = /https?:\/\/[^\s'"`()<>]+?\.(?:png|jpe?g|gif|webp|svg|ktx2?|basis|dds|env|hdr|exr|glb|gltf|obj|mtl|stl|ply|fbx|babylon|mp3|ogg|wav|m4a|mp4|webm|bin)(?:\?[^\s'"`()<>]*)?(?=[\s'"`()<>]|$)/gi
+
+// Static imports, re-exports, side-effect and dynamic imports
+const IMPORT_PATTERN = /(\bfrom\s*|\bimport\s*\(\s*|\bimport\s+)(['"])([^'"\s]+)\2/g
+
+const CLASSIC_SCRIPT_PATTERN = /<script\b([^>]*?)\ssrc=(["'])(https?:\/\/[^"']+)\2([^>]*)><\/script>/gi
+const MODULE_SCRIPT_PATTERN = /<script\b[^>]*\btype=(["'])module\1[^>]*\ssrc=(["'])([^"']+)\2[^>]*><\/script>/gi
+const IMPORT_MAP_PATTERN = /(<script\b[^>]*\btype=(["'])importmap\2[^>]*>)([\s\S]*?)(<\/script>)/i
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  ktx2: 'image/ktx2',
+  glb: 'model/gltf-binary',
+  gltf: 'model/gltf+json',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  webm: 'video/webm'
+}
+
+/**
+ * Make an exported scene self-contained. `mainFile` is the page that loads
+ * the scene; every other text file is scanned for assets.
+ */
+export async function createOfflineBundle(
+  files: Record<string, string>,
+  mainFile: string,
+  options: OfflineBundleOptions = {}
+): Promise<OfflineBundleResult> {
+  const result: Record<string, string> = { ...files }
+  const warnings: string[] = []
+
+  await embedAssets(result, warnings, options)
+
+  let html = result[mainFile]
+  if (html === undefined) {
+    throw new Error(`Export has no ${mainFile}`)
+  }
+
+  html = await vendorClassicScripts(html, result, options)
+  html = await inlineModuleScripts(html, result, warnings, options)
+  result[mainFile] = html
+
+  if (result['README.txt']) {
+    result['README.txt'] += `
+OFFLINE BUNDLE:
+- Library runtimes are included (vendor/ or the page's import map)
+- Textures, models and sounds loaded by URL are embedded in the code
+- Open ${mainFile} directly from disk; no network or server is needed
+- Files a library or model fetches on its own (decoders, environment maps,
+  glTF buffers) are not included
+`
+  }
+
+  return { files: result, warnings }
+}
+
+/**
+ * Inline local scripts into a page, for single-file exports
+ */
+export function inlineLocalScripts(html: string, files: Record<string, string>): string {
+  return html.replace(/<script\b([^>]*?)\ssrc=(["'])([^"']+)\2([^>]*)><\/script>/gi, (tag, before: string, _quote, src: string, after: string) => {
+    const content = files[src.replace(/^\.\//, '')]
+    if (content === undefined) return tag
+    return `<script${before}${after}>\n${escapeInlineScript(content)}\n</script>`
+  })
+}
+
+/**
+ * Download library scripts loaded from CDNs into vendor/
+ */
+async function vendorClassicScripts(html: string, files: Record<string, string>, options: OfflineBundleOptions): Promise<string> {
+  const scripts = Array.from(html.matchAll(CLASSIC_SCRIPT_PATTERN))
+    .filter(match => !/\btype=(["'])module\1/i.test(match[1] + match[4]))
+
+  const paths = new Map<string, string>()
+  for (const match of scripts) {
+    const url = match[3]
+    if (paths.has(url)) continue
+
+    options.onProgress?.(`Downloading ${fileName(url)}`)
+    const path = uniquePath(`${VENDOR_DIR}/${fileName(url)}`, files)
+    files[path] = await fetchText(url, options.signal)
+    paths.set(url, path)
+  }
+
+  return html.replace(CLASSIC_SCRIPT_PATTERN, (tag, before: string, quote: string, url: string, after: string) => {
+    const path = paths.get(url)
+    return path ? `<script${before} src=${quote}${path}${quote}${after}></script>` : tag
+  })
+}
+
+/**
+ * Inline module scripts and replace the import map with one that maps every
+ * module the scene imports, directly or not, to a data: URL
+ */
+async function inlineModuleScripts(
+  html: string,
+  files: Record<string, string>,
+  warnings: string[],
+  options: OfflineBundleOptions
+): Promise<string> {
+  const entries = Array.from(html.matchAll(MODULE_SCRIPT_PATTERN))
+    .map(match => match[3].replace(/^\.\//, ''))
+    .filter(src => files[src] !== undefined)
+  if (entries.length === 0) return html
+
+  const importMapMatch = IMPORT_MAP_PATTERN.exec(html)
+  let imports: Record<string, string> = {}
+  if (importMapMatch) {
+    try {
+      imports = JSON.parse(importMapMatch[3]).imports || {}
+    } catch {
+      warnings.push('The import map could not be read; module imports were left as-is')
+    }
+  }
+
+  const modules = new Map<string, string>()
+
+  const load = async (url: string): Promise<void> => {
+    if (modules.has(url)) return
+    modules.set(url, '')
+
+    let source: string
+    if (url.startsWith(PROJECT_BASE)) {
+      const path = url.slice(PROJECT_BASE.length)
+      if (files[path] === undefined) {
+        warnings.push(`Module not found in the project: ${path}`)
+        return
+      }
+      source = files[path]
+    } else {
+      options.onProgress?.(`Downloading ${fileName(url)}`)
+      source = await fetchText(url, options.signal)
+    }
+
+    const dependencies: string[] = []
+    modules.set(url, rewriteImports(source, url, imports, dependencies, warnings))
+    await Promise.all(dependencies.map(load))
+  }
+
+  // Scene sources are inlined; their own imports are resolved like any module's
+  const inlined = new Map<string, string>()
+  for (const entry of entries) {
+    const dependencies: string[] = []
+    inlined.set(entry, rewriteImports(files[entry], PROJECT_BASE + entry, imports, dependencies, warnings))
+    await Promise.all(dependencies.map(load))
+    delete files[entry]
+  }
+
+  const importMap = JSON.stringify({
+    imports: Object.fromEntries(
+      Array.from(modules.entries())
+        .filter(([, source]) => source)
+        .map(([url, source]) => [url, toDataUrl(new TextEncoder().encode(source), 'text/javascript')])
+    )
+  })
+
+  let result = html.replace(MODULE_SCRIPT_PATTERN, (tag, _q1, _q2, src: string) => {
+    const source = inlined.get(src.replace(/^\.\//, ''))
+    return source === undefined ? tag : `<script type="module">\n${escapeInlineScript(source)}\n</script>`
+  })
+
+  result = importMapMatch
+    ? result.replace(IMPORT_MAP_PATTERN, (_tag, open: string) => `${open}\n${importMap}\n</script>`)
+    : result.replace(/<\/head>/i, () => `<script type="importmap">\n${importMap}\n</script>\n</head>`)
+
+  return result
+}
+
+/**
+ * Point every import in a module at an absolute URL, collecting the URLs
+ */
+function rewriteImports(
+  source: string,
+  baseUrl: string,
+  imports: Record<string, string>,
+  dependencies: string[],
+  warnings: string[]
+): string {
+  return source.replace(IMPORT_PATTERN, (statement, keyword: string, quote: string, specifier: string) => {
+    const url = resolveSpecifier(specifier, baseUrl, imports)
+    if (!url) {
+      warnings.push(`Could not resolve import "${specifier}"`)
+      return statement
+    }
+    dependencies.push(url)
+    return `${keyword}${quote}${url}${quote}`
+  })
+}
+
+/**
+ * Resolve an import specifier the way the browser would with an import map
+ */
+function resolveSpecifier(specifier: string, baseUrl: string, imports: Record<string, string>): string | null {
+  if (/^(\.{0,2}\/)/.test(specifier)) {
+    return new URL(specifier, baseUrl).href
+  }
+  if (/^https?:\/\//.test(specifier)) {
+    return specifier
+  }
+  if (imports[specifier]) {
+    return imports[specifier]
+  }
+
+  const prefix = Object.keys(imports)
+    .filter(key => key.endsWith('/') && specifier.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]
+  return prefix ? imports[prefix] + specifier.slice(prefix.length) : null
+}
+
+/**
+ * Replace asset URLs in every text file with data: URLs. Assets that can't
+ * be downloaded keep their URL and are reported.
+ */
+async function embedAssets(files: Record<string, string>, warnings: string[], options: OfflineBundleOptions): Promise<void> {
+  const urls = new Set<string>()
+  for (const [path, content] of Object.entries(files)) {
+    if (path.endsWith('.txt') || path.endsWith('.md')) continue
+    for (const match of Array.from(content.matchAll(ASSET_PATTERN))) {
+      urls.add(match[0])
+    }
+  }
+
+  const dataUrls = new Map<string, string>()
+  for (const url of urls) {
+    options.onProgress?.(`Downloading ${fileName(url)}`)
+    try {
+      dataUrls.set(url, await fetchDataUrl(url, options.signal))
+      if (/\.gltf(\?|$)/i.test(url)) {
+        warnings.push(`${fileName(url)} may reference buffers or textures that are not included`)
+      }
+    } catch (error) {
+      if (options.signal?.aborted) throw error
+      warnings.push(`Could not download ${url}; it will still be loaded from the network`)
+    }
+  }
+
+  if (dataUrls.size === 0) return
+  for (const [path, content] of Object.entries(files)) {
+    files[path] = content.replace(ASSET_PATTERN, url => dataUrls.get(url) ?? url)
+  }
+}
+
+async function fetchText(url: string, signal?: AbortSignal): Promise<string> {
+  const response = await fetchOrThrow(url, signal)
+  return response.text()
+}
+
+async function fetchDataUrl(url: string, signal?: AbortSignal): Promise<string> {
+  const response = await fetchOrThrow(url, signal)
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase() || ''
+  const contentType = response.headers.get('content-type')?.split(';')[0]
+  const mimeType = MIME_TYPES[extension] || contentType || 'application/octet-stream'
+  return toDataUrl(new Uint8Array(await response.arrayBuffer()), mimeType)
+}
+
+async function fetchOrThrow(url: string, signal?: AbortSignal): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(url, { signal })
+  } catch (error) {
+    if (signal?.aborted) throw error
+    throw new Error(`Could not download ${url}`)
+  }
+  if (!response.ok) {
+    throw new Error(`Could not download ${url} (${response.status})`)
+  }
+  return response
+}
+
+function toDataUrl(bytes: Uint8Array, mimeType: string): string {
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunkSize)))
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`
+}
+
+/**
+ * Keep a script's text from closing the tag it is inlined in
+ */
+function escapeInlineScript(source: string): string {
+  return source.replace(/<\/script/gi, '<\\/script')
+}
+
+function fileName(url: string): string {
+  return url.split('?')[0].split('/').filter(Boolean).pop() || 'file'
+}
+
+function uniquePath(path: string, files: Record<string, string>): string {
+  if (files[path] === undefined) return path
+  const dot = path.lastIndexOf('.')
+  for (let i = 2; ; i++) {
+    const candidate = dot > path.lastIndexOf('/') ? `${path.slice(0, dot)}-${i}${path.slice(dot)}` : `${path}-${i}`
+    if (files[candidate] === undefined) return candidate
+  }
+}
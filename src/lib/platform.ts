@@ -195,8 +195,9 @@ declare global {
         searchConversations: (query: string) => Promise<any[]>
         getMessages: (conversationId: string) => Promise<any[]>
         addMessage: (message: Record<string, any>) => Promise<string>
-        updateMessage: (id: string, content: string) => Promise<void>
+        updateMessage: (id: string, content: string, updates?: { hasCode?: boolean; interrupted?: boolean; isError?: boolean }) => Promise<void>
         deleteMessage: (id: string) => Promise<void>
+        selectMessage: (id: string) => Promise<void>
         getSettings: () => Promise<any | null>
         saveSettings: (settings: Record<string, any>) => Promise<void>
         getSnippets: (library?: string) => Promise<any[]>
@@ -208,9 +209,12 @@ declare global {
         updateFavorite: (id: string, updates: Record<string, any>) => Promise<void>
         deleteFavorite: (id: string) => Promise<void>
         searchFavorites: (query: string) => Promise<any[]>
+        getProjectFiles: (conversationId: string) => Promise<Record<string, string>>
+        saveProjectFiles: (conversationId: string, files: Record<string, string>) => Promise<void>
         indexMessage: (message: Record<string, any>) => Promise<void>
-        searchRAG: (query: string, options?: { topK?: number; libraryId?: string }) => Promise<any[]>
-        getRAGContext: (query: string, options?: { topK?: number; libraryId?: string }) => Promise<string>
+        indexSnippet: (snippet: Record<string, any>) => Promise<void>
+        searchRAG: (query: string, options?: { topK?: number; libraryId?: string; sourceTypes?: Array<'message' | 'conversation' | 'snippet'>; excludeConversationId?: string; queryEmbedding?: number[]; embeddingModel?: string; minSimilarity?: number }) => Promise<any[]>
+        getRAGContext: (query: string, options?: { topK?: number; libraryId?: string; queryEmbedding?: number[]; embeddingModel?: string; minSimilarity?: number }) => Promise<string>
         exportDatabase: () => Promise<Uint8Array>
         importDatabase: (data: Uint8Array) => Promise<void>
       }
@@ -0,0 +1,98 @@
+/**
+ * Project Files
+ *
+ * A playground project is a virtual file tree: the entry file (the scene
+ * the editor has always shown, kept in `currentCode`) plus any components,
+ * shaders and text assets next to it. Paths are relative, without a
+ * leading slash (`src/Box.jsx`). The whole tree is persisted per
+ * conversation and passed as-is to Sandpack, exports and CodeSandbox.
+ */
+
+import { extractCodeBlocks } from './utils'
+
+export type ProjectFiles = Record<string, string>
+
+export interface CodeFile {
+  path: string
+  code: string
+}
+
+const REACT_LIBRARIES = ['react-three-fiber', 'reactylon']
+
+/**
+ * Path of the entry file for a library; its content is `currentCode`
+ */
+export function getEntryPath(libraryId?: string): string {
+  return libraryId && REACT_LIBRARIES.includes(libraryId) ? 'src/App.jsx' : 'index.js'
+}
+
+/**
+ * Whether a path the AI used refers to the entry file
+ */
+export function isEntryPath(path: string, libraryId?: string): boolean {
+  const normalized = normalizePath(path)
+  if (libraryId && REACT_LIBRARIES.includes(libraryId)) {
+    return /^(src\/)?App\.(jsx?|tsx?)$/.test(normalized)
+  }
+  return /^(src\/)?(index|main|scene)\.(js|ts)$/.test(normalized)
+}
+
+/**
+ * Strip leading `./` and `/` so paths compare equal
+ */
+export function normalizePath(path: string): string {
+  return path.trim().replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '')
+}
+
+/**
+ * Fenced blocks in an AI response that name the file they belong to.
+ * Blocks without a path are left to `extractCodeFromMessage`.
+ */
+export function extractCodeFiles(content: string): CodeFile[] {
+  return extractCodeBlocks(content)
+    .filter(block => block.filename && !block.filename.includes('..'))
+    .map(block => ({ path: normalizePath(block.filename!), code: block.code }))
+}
+
+/**
+ * Monaco language for a file
+ */
+export function getFileLanguage(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase()
+  switch (extension) {
+    case 'jsx':
+    case 'js':
+    case 'mjs':
+      return 'javascript'
+    case 'ts':
+    case 'tsx':
+      return 'typescript'
+    case 'json':
+      return 'json'
+    case 'css':
+      return 'css'
+    case 'html':
+      return 'html'
+    case 'md':
+      return 'markdown'
+    case 'glsl':
+    case 'vert':
+    case 'frag':
+      return 'cpp' // Closest built-in highlighting for GLSL
+    default:
+      return 'plaintext'
+  }
+}
+
+/**
+ * Files besides the entry in the key style of a generated bundle (with or
+ * without a leading slash). The entry is not included: generators wrap it
+ * themselves.
+ */
+export function toBundleFiles(files: ProjectFiles, leadingSlash: boolean): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const [path, code] of Object.entries(files)) {
+    result[leadingSlash ? `/${path}` : path] = code
+  }
+  return result
+}
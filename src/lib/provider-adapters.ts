@@ -0,0 +1,387 @@
+/**
+ * Provider Adapters
+ *
+ * Everything AIService needs to know about an AI provider's API, in one
+ * object per provider: how to build a chat request, read a response or a
+ * streamed event, extract token usage, turn an error response into a
+ * message, list models, and whether browsers may call the API directly.
+ * Adapters don't fetch anything themselves, so each can be checked against
+ * recorded responses and SSE payloads.
+ *
+ * The built-in adapters are registered when this module loads, and
+ * defaultProviders takes their ids, names and URLs from them. More can be
+ * registered at runtime with registerProviderAdapter. Custom
+ * OpenAI-compatible providers (see custom-providers.ts) share one adapter.
+ */
+
+import type { AIMessage, AIResponse, ListedModel } from './ai-service'
+import {
+  isCustomProvider,
+  normalizeBaseUrl,
+  CUSTOM_PROVIDER_MAX_TOKENS,
+  CUSTOM_PROVIDER_PREFIX
+} from './custom-providers'
+
+/**
+ * A chat request as AIService hands it to an adapter
+ */
+export interface GenerationRequest {
+  messages: AIMessage[] // Non-empty, alternating, starting with a user turn
+  model: string
+  apiKey: string
+  temperature: number
+  topP: number
+  systemPrompt: string
+  maxTokens: number
+  stream: boolean
+  baseUrl?: string // Endpoint of a custom OpenAI-compatible provider
+}
+
+/**
+ * An HTTP request to a provider. Requests with a body are POSTed as JSON;
+ * the others are GETs.
+ */
+export interface ProviderHttpRequest {
+  url: string
+  headers: Record<string, string>
+  body?: unknown
+}
+
+export interface StreamEvent {
+  content: string
+  done: boolean
+}
+
+export type TokenUsage = NonNullable<AIResponse['usage']>
+
+export interface ProviderAdapter {
+  id: string
+  name: string // Shown in model pickers and error messages
+  baseUrl: string
+  maxOutputTokens: number
+  requiresApiKey: boolean
+  // The API blocks browser CORS requests, so calls go through /api/ai-proxy
+  needsProxy: boolean
+
+  buildRequest(request: GenerationRequest): ProviderHttpRequest
+  parseResponse(data: any): { content: string; model?: string }
+  extractUsage(data: any): TokenUsage | undefined
+  // One `data:` payload of a streamed response; null if it carries nothing.
+  // Payloads that aren't valid JSON may throw and are skipped.
+  parseStreamEvent(data: string): StreamEvent | null
+  normalizeError(status: number, body: string): Error
+
+  // Model listing, for providers that have one
+  buildModelListRequest?(apiKey: string): ProviderHttpRequest
+  parseModelList?(data: any): ListedModel[]
+}
+
+// OpenAI-compatible chat format (OpenAI, Together AI, xAI, custom providers)
+function toOpenAIMessages(messages: AIMessage[], systemPrompt: string): Array<{ role: string; content: string }> {
+  const result: Array<{ role: string; content: string }> = []
+  if (systemPrompt) {
+    result.push({ role: 'system', content: systemPrompt })
+  }
+  for (const message of messages) {
+    result.push({ role: message.role, content: message.content })
+  }
+  return result
+}
+
+// Anthropic Messages API — system prompt travels in the top-level `system` field
+function toAnthropicMessages(messages: AIMessage[]): Array<{ role: string; content: string }> {
+  return messages.map(message => ({ role: message.role, content: message.content }))
+}
+
+// Gemini `contents` — assistant turns use the `model` role
+function toGeminiContents(messages: AIMessage[]): Array<{ role: string; parts: Array<{ text: string }> }> {
+  return messages.map(message => ({
+    role: message.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: message.content }]
+  }))
+}
+
+// Prices are per million tokens
+function formatPricing(input: number | undefined, output: number | undefined): string | undefined {
+  if (input === undefined || output === undefined) return undefined
+  if (input === 0 && output === 0) return 'Free'
+  if (input === output) return `$${input.toFixed(2)}/1M tokens`
+  return `$${input.toFixed(2)}/1M in · $${output.toFixed(2)}/1M out`
+}
+
+// OpenAI and xAI list every model; keep the ones that take chat completions
+function isChatModelId(id: string): boolean {
+  if (!/^(gpt-|o\d|chatgpt-|grok-)/.test(id)) return false
+  return !/(audio|realtime|transcribe|tts|image|search|embedding|moderation|instruct)/.test(id)
+}
+
+/**
+ * "<Provider> API error: <status> - <reason>", with the reason taken from
+ * the { error: { message } } body most APIs return
+ */
+function apiError(providerName: string, status: number, body: string): Error {
+  let reason = body
+  try {
+    const parsed = JSON.parse(body)
+    // Gemini wraps streamed errors in an array
+    const error = Array.isArray(parsed) ? parsed[0]?.error : parsed?.error
+    const message = typeof error === 'string' ? error : error?.message
+    if (typeof message === 'string' && message) reason = message
+  } catch {
+    // Not JSON; keep the body as it is
+  }
+  return new Error(`${providerName} API error: ${status} - ${reason}`)
+}
+
+function openAIChatRequest(baseUrl: string, request: GenerationRequest): ProviderHttpRequest {
+  return {
+    url: `${baseUrl}/chat/completions`,
+    // Self-hosted servers may not use keys
+    headers: request.apiKey ? { 'Authorization': `Bearer ${request.apiKey}` } : {},
+    body: {
+      model: request.model,
+      messages: toOpenAIMessages(request.messages, request.systemPrompt),
+      temperature: request.temperature,
+      top_p: request.topP,
+      max_tokens: request.maxTokens,
+      stream: request.stream
+    }
+  }
+}
+
+/**
+ * An adapter for an API that follows OpenAI's chat completions format
+ */
+function openAICompatibleAdapter(
+  adapter: Pick<ProviderAdapter, 'id' | 'name' | 'baseUrl' | 'maxOutputTokens'> & Partial<ProviderAdapter>
+): ProviderAdapter {
+  return {
+    requiresApiKey: true,
+    needsProxy: false,
+    buildRequest: request => openAIChatRequest(adapter.baseUrl, request),
+    parseResponse: data => ({
+      content: data.choices[0].message.content,
+      model: data.model
+    }),
+    extractUsage: data => data.usage,
+    parseStreamEvent: data => {
+      if (data === '[DONE]') return { content: '', done: true }
+      const parsed = JSON.parse(data)
+      return { content: parsed.choices?.[0]?.delta?.content || '', done: false }
+    },
+    normalizeError: (status, body) => apiError(adapter.name, status, body),
+    buildModelListRequest: apiKey => ({
+      url: `${adapter.baseUrl}/models`,
+      headers: { 'Authorization': `Bearer ${apiKey}` }
+    }),
+    // The list includes embedding, image and audio models
+    parseModelList: data => (data.data || [])
+      .map((model: any) => ({ id: model.id as string }))
+      .filter((model: ListedModel) => isChatModelId(model.id)),
+    ...adapter
+  }
+}
+
+export const togetherAdapter = openAICompatibleAdapter({
+  id: 'together',
+  name: 'Together AI',
+  baseUrl: 'https://api.together.xyz/v1',
+  maxOutputTokens: 32768, // Most Together AI models support 32K
+  parseModelList: data => (Array.isArray(data) ? data : [])
+    .filter((model: any) => model.type === 'chat')
+    .map((model: any) => ({
+      id: model.id,
+      name: model.display_name || undefined,
+      description: model.organization ? `${model.organization} model` : undefined,
+      pricing: model.pricing ? formatPricing(model.pricing.input, model.pricing.output) : undefined,
+      contextLength: model.context_length || undefined
+    }))
+})
+
+export const openAIAdapter = openAICompatibleAdapter({
+  id: 'openai',
+  name: 'OpenAI',
+  baseUrl: 'https://api.openai.com/v1',
+  maxOutputTokens: 65536 // GPT-5.2 supports large outputs
+})
+
+export const xAIAdapter = openAICompatibleAdapter({
+  id: 'xai',
+  name: 'xAI',
+  baseUrl: 'https://api.x.ai/v1',
+  maxOutputTokens: 32768, // Grok 4 supports 32K output
+  needsProxy: true
+})
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  baseUrl: 'https://api.anthropic.com',
+  maxOutputTokens: 64000, // Claude 4 supports up to 64K output
+  requiresApiKey: true,
+  needsProxy: true,
+  buildRequest: request => ({
+    url: `${anthropicAdapter.baseUrl}/v1/messages`,
+    headers: {
+      'x-api-key': request.apiKey,
+      'anthropic-version': '2023-06-01'
+    },
+    // No top_p: newer Claude models reject it alongside temperature
+    body: {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: request.stream,
+      system: request.systemPrompt || undefined,
+      messages: toAnthropicMessages(request.messages)
+    }
+  }),
+  parseResponse: data => ({
+    content: data.content[0].text,
+    model: data.model
+  }),
+  extractUsage: data => data.usage ? {
+    prompt_tokens: data.usage.input_tokens || 0,
+    completion_tokens: data.usage.output_tokens || 0,
+    total_tokens: (data.usage.input_tokens || 0) + (data.usage.output_tokens || 0)
+  } : undefined,
+  parseStreamEvent: data => {
+    const parsed = JSON.parse(data)
+    if (parsed.type === 'content_block_delta') {
+      return { content: parsed.delta?.text || '', done: false }
+    }
+    if (parsed.type === 'message_stop') {
+      return { content: '', done: true }
+    }
+    return null
+  },
+  normalizeError: (status, body) => apiError('Anthropic', status, body),
+  buildModelListRequest: apiKey => ({
+    url: `${anthropicAdapter.baseUrl}/v1/models?limit=100`,
+    headers: {
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01'
+    }
+  }),
+  parseModelList: data => (data.data || []).map((model: any) => ({
+    id: model.id,
+    name: model.display_name || undefined
+  }))
+}
+
+// Gemini replies with content parts; generation is over once a finish reason is set
+function parseGeminiCandidate(data: any): StreamEvent | null {
+  const candidate = data.candidates?.[0]
+  if (!candidate) return null
+  const content = (candidate.content?.parts || []).map((part: any) => part.text || '').join('')
+  return { content, done: !!candidate.finishReason }
+}
+
+export const googleAdapter: ProviderAdapter = {
+  id: 'google',
+  name: 'Google AI',
+  baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  maxOutputTokens: 65536, // Gemini 2.5 Pro/Flash max output
+  requiresApiKey: true,
+  needsProxy: false,
+  buildRequest: request => ({
+    url: request.stream
+      ? `${googleAdapter.baseUrl}/models/${request.model}:streamGenerateContent?key=${request.apiKey}&alt=sse`
+      : `${googleAdapter.baseUrl}/models/${request.model}:generateContent?key=${request.apiKey}`,
+    headers: {},
+    body: {
+      contents: toGeminiContents(request.messages),
+      generationConfig: {
+        temperature: request.temperature,
+        topP: request.topP,
+        maxOutputTokens: request.maxTokens
+      },
+      ...(request.systemPrompt ? { systemInstruction: { parts: [{ text: request.systemPrompt }] } } : {})
+    }
+  }),
+  parseResponse: data => {
+    const candidate = parseGeminiCandidate(data)
+    if (!candidate) {
+      throw new Error('No response from Google AI')
+    }
+    return { content: candidate.content, model: data.modelVersion }
+  },
+  extractUsage: data => data.usageMetadata ? {
+    prompt_tokens: data.usageMetadata.promptTokenCount || 0,
+    completion_tokens: data.usageMetadata.candidatesTokenCount || 0,
+    total_tokens: data.usageMetadata.totalTokenCount || 0
+  } : undefined,
+  parseStreamEvent: data => parseGeminiCandidate(JSON.parse(data)),
+  normalizeError: (status, body) => apiError('Google AI', status, body),
+  buildModelListRequest: apiKey => ({
+    url: `${googleAdapter.baseUrl}/models?pageSize=1000&key=${apiKey}`,
+    headers: {}
+  }),
+  parseModelList: data => (data.models || [])
+    .filter((model: any) => model.supportedGenerationMethods?.includes('generateContent'))
+    .map((model: any) => ({
+      id: String(model.name).replace(/^models\//, ''),
+      name: model.displayName || undefined,
+      description: model.description || undefined,
+      contextLength: model.inputTokenLimit || undefined
+    }))
+}
+
+/**
+ * Shared by every custom provider; each request carries the endpoint the
+ * user configured. Their models are listed by fetchCustomProviderModels.
+ */
+const customProviderAdapter: ProviderAdapter = {
+  ...openAICompatibleAdapter({
+    id: CUSTOM_PROVIDER_PREFIX,
+    name: 'Custom provider',
+    baseUrl: '',
+    maxOutputTokens: CUSTOM_PROVIDER_MAX_TOKENS,
+    requiresApiKey: false
+  }),
+  buildRequest: request => {
+    if (!request.baseUrl || request.baseUrl.trim() === '') {
+      throw new Error('Base URL required for custom providers')
+    }
+    return openAIChatRequest(normalizeBaseUrl(request.baseUrl), request)
+  },
+  buildModelListRequest: undefined,
+  parseModelList: undefined
+}
+
+const adapters = new Map<string, ProviderAdapter>()
+
+/**
+ * Add an adapter, replacing any registered under the same id
+ */
+export function registerProviderAdapter(adapter: ProviderAdapter): void {
+  if (isCustomProvider(adapter.id)) {
+    throw new Error(`Provider ids starting with "${CUSTOM_PROVIDER_PREFIX}" are reserved for custom providers`)
+  }
+  adapters.set(adapter.id, adapter)
+}
+
+export function getProviderAdapter(providerId: string): ProviderAdapter | undefined {
+  if (isCustomProvider(providerId)) return customProviderAdapter
+  return adapters.get(providerId)
+}
+
+export function getProviderAdapters(): ProviderAdapter[] {
+  return Array.from(adapters.values())
+}
+
+/**
+ * Hosts the AI proxy route forwards to. The route only sees adapters
+ * registered on the server, which are the built-in ones.
+ */
+export function getProxyHosts(): string[] {
+  return getProviderAdapters()
+    .filter(adapter => adapter.needsProxy)
+    .map(adapter => new URL(adapter.baseUrl).hostname)
+}
+
+registerProviderAdapter(togetherAdapter)
+registerProviderAdapter(openAIAdapter)
+registerProviderAdapter(anthropicAdapter)
+registerProviderAdapter(googleAdapter)
+registerProviderAdapter(xAIAdapter)
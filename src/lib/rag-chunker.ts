@@ -0,0 +1,167 @@
+/**
+ * RAG Chunker
+ *
+ * Splits long messages and snippets into chunks that fit an embedding
+ * model's input. Prose is split by paragraphs and fenced code by top-level
+ * declarations (functions, components, classes), so a chunk rarely starts
+ * mid-thought. Neighbouring chunks share a small overlap, and every chunk
+ * records its offsets in the original text so adjacent chunks can be merged
+ * back together when building a prompt.
+ */
+
+// Default chunk size; providers with a smaller input get smaller chunks
+export const DEFAULT_CHUNK_CHARS = 1200
+
+// Text repeated from the end of the previous chunk
+export const DEFAULT_CHUNK_OVERLAP = 150
+
+const CODE_FENCE_REGEX = /```[^\n]*\n[\s\S]*?(?:```|$)/g
+
+// A top-level declaration at the start of a line
+const DECLARATION_REGEX = /^(?:export\s+)?(?:default\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\b/
+
+const COMMENT_LINE_REGEX = /^\s*(?:\/\/|\/\*|\*)/
+
+export interface TextChunk {
+  text: string
+  start: number // Offset of the first character in the source text
+  end: number // Offset just past the last character
+}
+
+export interface ChunkOptions {
+  maxChars?: number
+  overlapChars?: number
+}
+
+/**
+ * Split a text into chunks of at most maxChars (plus overlap)
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxChars = Math.max(1, options.maxChars ?? DEFAULT_CHUNK_CHARS)
+  const overlapChars = Math.min(options.overlapChars ?? DEFAULT_CHUNK_OVERLAP, Math.floor(maxChars / 4))
+
+  if (text.trim().length === 0) return []
+  if (text.length <= maxChars) return [trimChunk(text, 0, text.length)!]
+
+  // Leave room for the overlap so chunks stay within the model's input
+  const budget = maxChars - overlapChars
+  const units = splitUnits(text).flatMap(([start, end]) => splitOversized(text, start, end, budget))
+
+  // Pack consecutive units into chunks
+  const ranges: Array<[number, number]> = []
+  let chunkStart = units[0][0]
+  let chunkEnd = units[0][0]
+  for (const [start, end] of units) {
+    if (end - chunkStart > budget && chunkEnd > chunkStart) {
+      ranges.push([chunkStart, chunkEnd])
+      chunkStart = start
+    }
+    chunkEnd = end
+  }
+  ranges.push([chunkStart, chunkEnd])
+
+  const chunks: TextChunk[] = []
+  for (let i = 0; i < ranges.length; i++) {
+    const [start, end] = ranges[i]
+    const overlapStart = i > 0 ? overlapStartFor(text, start, overlapChars) : start
+    const chunk = trimChunk(text, overlapStart, end)
+    if (chunk) chunks.push(chunk)
+  }
+  return chunks
+}
+
+/**
+ * Semantic units as [start, end) ranges covering the whole text: paragraphs
+ * of prose, and code blocks split before each top-level declaration
+ */
+function splitUnits(text: string): Array<[number, number]> {
+  const boundaries = new Set<number>([0])
+
+  let proseStart = 0
+  for (const match of Array.from(text.matchAll(CODE_FENCE_REGEX))) {
+    const fenceStart = match.index!
+    const fenceEnd = fenceStart + match[0].length
+    addParagraphBoundaries(text, proseStart, fenceStart, boundaries)
+    boundaries.add(fenceStart)
+    addDeclarationBoundaries(text, fenceStart, fenceEnd, boundaries)
+    boundaries.add(fenceEnd)
+    proseStart = fenceEnd
+  }
+  addParagraphBoundaries(text, proseStart, text.length, boundaries)
+
+  const sorted = Array.from(boundaries).filter(offset => offset < text.length).sort((a, b) => a - b)
+  return sorted.map((start, i): [number, number] => [start, sorted[i + 1] ?? text.length])
+}
+
+function addParagraphBoundaries(text: string, start: number, end: number, boundaries: Set<number>): void {
+  const paragraphBreak = /\n[ \t]*\n\s*/g
+  paragraphBreak.lastIndex = start
+  let match: RegExpExecArray | null
+  while ((match = paragraphBreak.exec(text)) && match.index < end) {
+    const paragraphStart = match.index + match[0].length
+    if (paragraphStart < end) boundaries.add(paragraphStart)
+  }
+}
+
+function addDeclarationBoundaries(text: string, start: number, end: number, boundaries: Set<number>): void {
+  // Skip the opening fence line
+  let lineStart = text.indexOf('\n', start) + 1
+  const lines: Array<{ start: number; line: string }> = []
+  while (lineStart > 0 && lineStart < end) {
+    const newline = text.indexOf('\n', lineStart)
+    const lineEnd = newline === -1 || newline > end ? end : newline
+    lines.push({ start: lineStart, line: text.slice(lineStart, lineEnd) })
+    lineStart = lineEnd + 1
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    if (!DECLARATION_REGEX.test(lines[i].line)) continue
+
+    // Keep a declaration's leading comments with it
+    let first = i
+    while (first > 1 && COMMENT_LINE_REGEX.test(lines[first - 1].line)) first--
+    boundaries.add(lines[first].start)
+  }
+}
+
+/**
+ * Split a unit longer than the budget at line breaks, or hard-split a
+ * single overlong line
+ */
+function splitOversized(text: string, start: number, end: number, budget: number): Array<[number, number]> {
+  const pieces: Array<[number, number]> = []
+  let pieceStart = start
+
+  while (end - pieceStart > budget) {
+    const limit = pieceStart + budget
+    const newline = text.lastIndexOf('\n', limit - 1)
+    const cut = newline > pieceStart ? newline + 1 : limit
+    pieces.push([pieceStart, cut])
+    pieceStart = cut
+  }
+  pieces.push([pieceStart, end])
+  return pieces
+}
+
+/**
+ * Start of the overlap before a chunk, moved forward to a line or word
+ * boundary so the chunk doesn't open mid-word
+ */
+function overlapStartFor(text: string, start: number, overlapChars: number): number {
+  if (overlapChars <= 0) return start
+  const earliest = Math.max(0, start - overlapChars)
+  const window = text.slice(earliest, start)
+
+  const newline = window.indexOf('\n')
+  if (newline !== -1 && newline < window.length - 1) return earliest + newline + 1
+
+  const space = window.search(/\s\S/)
+  return space !== -1 ? earliest + space + 1 : start
+}
+
+function trimChunk(text: string, start: number, end: number): TextChunk | null {
+  while (start < end && /\s/.test(text[start])) start++
+  while (end > start && /\s/.test(text[end - 1])) end--
+  if (start === end) return null
+  return { text: text.slice(start, end), start, end }
+}
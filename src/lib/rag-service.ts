@@ -3,20 +3,34 @@
  *
  * Provides semantic search and context building for AI conversations.
  * Works with both web (sql.js) and Electron (better-sqlite3) databases.
+ * In web mode documents and their embeddings are stored in the sql.js
+ * database, so the index survives reloads. Long messages are indexed as
+ * several chunks, which are merged back when adjacent ones are retrieved.
  */
 
 import { isElectron, getElectronAPI } from './platform'
+import { dbService } from './db-service'
 import {
-  generateEmbedding,
   cosineSimilarity,
-  EMBEDDING_DIMENSION
+  getEmbeddingModelKey,
+  type EmbeddingProvider
 } from './embedding-service'
+import { chunkText, DEFAULT_CHUNK_CHARS } from './rag-chunker'
 
 // Token limit for context (approximately 3000 tokens = 12000 chars)
 const MAX_CONTEXT_CHARS = 12000
 
-// Minimum similarity threshold for including results
-const MIN_SIMILARITY_THRESHOLD = 0.3
+// Longest passage (merged chunks) added to the context
+const MAX_PASSAGE_CHARS = 4000
+
+// Characters of each source kept as a citation preview
+const SOURCE_EXCERPT_CHARS = 120
+
+// Messages shorter than this are not worth indexing
+const MIN_INDEX_CHARS = 50
+
+// Documents embedded per backfill round
+const BACKFILL_BATCH_SIZE = 32
 
 export interface RAGDocument {
   id: string
@@ -26,6 +40,7 @@ export interface RAGDocument {
   chunkIndex: number
   metadata?: Record<string, any>
   similarity?: number
+  score?: number // Hybrid keyword and vector rank (Electron search)
 }
 
 export interface RAGSearchOptions {
@@ -33,6 +48,7 @@ export interface RAGSearchOptions {
   libraryId?: string
   minSimilarity?: number
   sourceTypes?: Array<'message' | 'conversation' | 'snippet'>
+  excludeConversationId?: string
 }
 
 export interface RAGContextOptions extends RAGSearchOptions {
@@ -40,32 +56,58 @@ export interface RAGContextOptions extends RAGSearchOptions {
   includeMetadata?: boolean
 }
 
+/**
+ * A past conversation or snippet that contributed to a context
+ */
+export interface RAGSource {
+  sourceType: 'conversation' | 'snippet'
+  sourceId: string
+  title?: string
+  excerpt: string
+  similarity?: number
+}
+
+export interface RAGContextResult {
+  context: string
+  sources: RAGSource[]
+}
+
 /**
  * RAG Service class
- * Handles document indexing, search, and context building
+ * Handles document indexing, search, and context building. Every call takes
+ * the embedding provider to use, so a call that is still embedding when the
+ * settings change saves its vectors under the model that made them.
  */
 export class RAGService {
-  private apiKey: string | null = null
-  private embeddings: Map<string, number[]> = new Map()
-  private documents: Map<string, RAGDocument> = new Map()
-  private isElectronApp: boolean
-
-  constructor() {
-    this.isElectronApp = isElectron()
-  }
+  private backfillRun: { modelKey: string; promise: Promise<number> } | null = null
+  private warnedNoElectronDatabase = false
 
   /**
-   * Set the Together AI API key for embedding generation
+   * The main process's database in Electron; null on the web, or if the
+   * preload doesn't expose it, in which case the sql.js index is used
    */
-  setApiKey(apiKey: string): void {
-    this.apiKey = apiKey
+  private get electronDatabase(): ElectronDatabase | null {
+    if (!isElectron()) return null
+
+    const database = getElectronAPI()?.database
+    if (!database && !this.warnedNoElectronDatabase) {
+      console.warn('Electron database API not available, indexing into the local database instead')
+      this.warnedNoElectronDatabase = true
+    }
+    return database ?? null
   }
 
-  /**
-   * Check if RAG is available (API key set)
-   */
-  isAvailable(): boolean {
-    return !!this.apiKey && this.apiKey.trim() !== ''
+  private async embedOne(provider: EmbeddingProvider, text: string): Promise<number[]> {
+    const [embedding] = await provider.embed([text])
+    return embedding
+  }
+
+  private async embedDocuments(provider: EmbeddingProvider, documents: RAGDocument[]): Promise<number[][]> {
+    const embeddings = await provider.embed(documents.map(document => document.chunkText))
+    if (embeddings.length !== documents.length) {
+      throw new Error(`Expected ${documents.length} embeddings, got ${embeddings.length}`)
+    }
+    return embeddings
   }
 
   /**
@@ -77,95 +119,155 @@ export class RAGService {
     role: 'user' | 'assistant'
     conversationId: string
     library?: string
-  }): Promise<void> {
-    if (!this.isAvailable()) {
-      console.warn('RAG not available - API key not set')
-      return
-    }
-
+  }, provider: EmbeddingProvider): Promise<void> {
     // Skip short messages
-    if (message.content.length < 50) {
+    if (message.content.length < MIN_INDEX_CHARS) {
       return
     }
 
+    const modelKey = getEmbeddingModelKey(provider)
+    const documents = messageDocuments(message, chunkCharsFor(provider))
+
     try {
-      if (this.isElectronApp) {
-        // Use Electron IPC for database operations
-        const api = getElectronAPI()
-        if (api) {
-          await api.database.indexMessage({
-            id: message.id,
-            content: message.content,
-            role: message.role,
-            conversationId: message.conversationId,
-            library: message.library
-          })
-        }
+      const database = this.electronDatabase
+      if (database) {
+        // Use Electron IPC for database operations; the main process stores
+        // the chunks and embeddings computed here
+        await database.indexMessage({
+          id: message.id,
+          content: message.content,
+          role: message.role,
+          conversationId: message.conversationId,
+          library: message.library,
+          chunks: await this.toChunkInputs(provider, documents),
+          embeddingModel: modelKey
+        })
       } else {
-        // Web mode - store in memory and generate embedding
-        const result = await generateEmbedding(message.content, this.apiKey!)
-
-        const doc: RAGDocument = {
-          id: `doc_${message.id}`,
-          sourceType: 'message',
-          sourceId: message.id,
-          chunkText: message.content,
-          chunkIndex: 0,
-          metadata: {
-            role: message.role,
-            conversationId: message.conversationId,
-            library: message.library
-          }
-        }
-
-        this.documents.set(doc.id, doc)
-        this.embeddings.set(doc.id, result.embedding)
+        // Web mode - generate embeddings and store them in sql.js
+        const embeddings = await this.embedDocuments(provider, documents)
+        dbService.saveRAGDocuments(documents.map((document, i) => ({ document, embedding: embeddings[i] })), modelKey)
       }
     } catch (error) {
       console.error('Failed to index message for RAG:', error)
     }
   }
 
+  /**
+   * Embed a text for the Electron index. Returns undefined on failure so the
+   * document is still indexed for keyword search.
+   */
+  private async tryEmbed(provider: EmbeddingProvider, text: string): Promise<number[] | undefined> {
+    try {
+      return await this.embedOne(provider, text)
+    } catch (error) {
+      console.warn('Embedding failed, falling back to keyword search:', error)
+      return undefined
+    }
+  }
+
+  /**
+   * Chunks with their offsets and embeddings, as the main process stores them
+   */
+  private async toChunkInputs(provider: EmbeddingProvider, documents: RAGDocument[]): Promise<RAGChunkInput[]> {
+    let embeddings: Array<number[] | undefined> = []
+    try {
+      embeddings = await this.embedDocuments(provider, documents)
+    } catch (error) {
+      console.warn('Embedding failed, falling back to keyword search:', error)
+    }
+
+    return documents.map((document, i) => ({
+      text: document.chunkText,
+      start: document.metadata?.chunkStart,
+      end: document.metadata?.chunkEnd,
+      embedding: embeddings[i]
+    }))
+  }
+
+  /**
+   * Index a code snippet for future retrieval
+   */
+  async indexSnippet(snippet: {
+    id: string
+    title: string
+    description?: string
+    code: string
+    library?: string
+  }, provider: EmbeddingProvider): Promise<void> {
+    const modelKey = getEmbeddingModelKey(provider)
+    const documents = snippetDocuments(snippet, chunkCharsFor(provider))
+
+    try {
+      const database = this.electronDatabase
+      if (database) {
+        await database.indexSnippet({
+          id: snippet.id,
+          content: snippetText(snippet),
+          title: snippet.title,
+          library: snippet.library,
+          chunks: await this.toChunkInputs(provider, documents),
+          embeddingModel: modelKey
+        })
+      } else {
+        const embeddings = await this.embedDocuments(provider, documents)
+        dbService.saveRAGDocuments(documents.map((document, i) => ({ document, embedding: embeddings[i] })), modelKey)
+      }
+    } catch (error) {
+      console.error('Failed to index snippet for RAG:', error)
+    }
+  }
+
   /**
    * Search for relevant documents using semantic similarity
    */
   async search(
     query: string,
+    provider: EmbeddingProvider,
     options: RAGSearchOptions = {}
   ): Promise<RAGDocument[]> {
-    if (!this.isAvailable()) {
-      return []
-    }
-
+    const modelKey = getEmbeddingModelKey(provider)
     const {
       topK = 10,
       libraryId,
-      minSimilarity = MIN_SIMILARITY_THRESHOLD,
-      sourceTypes
+      // Each embedding model has its own similarity range
+      minSimilarity = provider.minSimilarity,
+      sourceTypes,
+      excludeConversationId
     } = options
 
     try {
-      if (this.isElectronApp) {
-        // Use Electron IPC for database search
-        const api = getElectronAPI()
-        if (api) {
-          return await api.database.searchRAG(query, { topK, libraryId })
-        }
-        return []
+      const database = this.electronDatabase
+      if (database) {
+        // Hybrid keyword + vector search runs in the main process
+        const rows = await database.searchRAG(query, {
+          topK,
+          libraryId,
+          sourceTypes,
+          excludeConversationId,
+          minSimilarity,
+          queryEmbedding: await this.tryEmbed(provider, query),
+          embeddingModel: modelKey
+        })
+        return rows.map((row: any): RAGDocument => ({
+          ...row,
+          // The main process returns metadata as stored JSON
+          metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata
+        }))
       } else {
-        // Web mode - in-memory semantic search
-        if (this.documents.size === 0) {
+        // Web mode - semantic search over the stored embeddings from the
+        // current model; vectors from other models await re-embedding
+        const indexed = dbService.getRAGDocuments(modelKey)
+        if (indexed.length === 0) {
           return []
         }
 
         // Generate query embedding
-        const queryResult = await generateEmbedding(query, this.apiKey!)
-        const queryEmbedding = queryResult.embedding
+        const queryEmbedding = await this.embedOne(provider, query)
 
         // Calculate similarities
         const results: RAGDocument[] = []
 
-        for (const [docId, doc] of this.documents) {
+        for (const { document: doc, embedding: docEmbedding } of indexed) {
           // Filter by source type if specified
           if (sourceTypes && !sourceTypes.includes(doc.sourceType)) {
             continue
@@ -176,11 +278,13 @@ export class RAGService {
             continue
           }
 
-          // Get embedding
-          const docEmbedding = this.embeddings.get(docId)
-          if (!docEmbedding) continue
+          // Skip the conversation the query comes from — it is already in the history
+          if (excludeConversationId && doc.metadata?.conversationId === excludeConversationId) {
+            continue
+          }
 
           // Calculate similarity
+          if (docEmbedding.length !== queryEmbedding.length) continue
           const similarity = cosineSimilarity(queryEmbedding, docEmbedding)
 
           if (similarity >= minSimilarity) {
@@ -206,33 +310,41 @@ export class RAGService {
    */
   async buildContext(
     query: string,
+    provider: EmbeddingProvider,
     options: RAGContextOptions = {}
   ): Promise<string> {
+    const result = await this.retrieveContext(query, provider, options)
+    return result.context
+  }
+
+  /**
+   * Build context from search results, along with the conversations and
+   * snippets it was taken from
+   */
+  async retrieveContext(
+    query: string,
+    provider: EmbeddingProvider,
+    options: RAGContextOptions = {}
+  ): Promise<RAGContextResult> {
     const {
       maxChars = MAX_CONTEXT_CHARS,
       includeMetadata = false,
       ...searchOptions
     } = options
 
-    try {
-      if (this.isElectronApp) {
-        // Use Electron IPC
-        const api = getElectronAPI()
-        if (api) {
-          return await api.database.getRAGContext(query, searchOptions)
-        }
-        return ''
-      }
+    const empty: RAGContextResult = { context: '', sources: [] }
 
-      // Web mode - build context from search results
-      const documents = await this.search(query, searchOptions)
+    try {
+      // Adjacent chunks of one message read better as a single passage
+      const documents = mergeAdjacentChunks(await this.search(query, provider, searchOptions))
 
       if (documents.length === 0) {
-        return ''
+        return empty
       }
 
       // Build context string
       const contextParts: string[] = []
+      const sources = new Map<string, RAGSource>()
       let totalChars = 0
 
       for (let i = 0; i < documents.length; i++) {
@@ -240,8 +352,8 @@ export class RAGService {
 
         // Truncate if too long
         let chunkText = doc.chunkText
-        if (chunkText.length > 1500) {
-          chunkText = chunkText.substring(0, 1500) + '...'
+        if (chunkText.length > MAX_PASSAGE_CHARS) {
+          chunkText = chunkText.substring(0, MAX_PASSAGE_CHARS) + '...'
         }
 
         // Build context entry
@@ -266,36 +378,295 @@ export class RAGService {
 
         contextParts.push(entry)
         totalChars += entry.length
+
+        const source = toSource(doc)
+        if (source && !sources.has(`${source.sourceType}:${source.sourceId}`)) {
+          sources.set(`${source.sourceType}:${source.sourceId}`, source)
+        }
       }
 
       if (contextParts.length === 0) {
-        return ''
+        return empty
       }
 
-      return `Previous relevant context from your conversation history:\n\n${contextParts.join('\n\n')}`
+      return {
+        context: `Previous relevant context from your conversation history:\n\n${contextParts.join('\n\n')}`,
+        sources: Array.from(sources.values())
+      }
     } catch (error) {
       console.error('Failed to build RAG context:', error)
-      return ''
+      return empty
+    }
+  }
+
+  /**
+   * Index messages and snippets saved before RAG was enabled, or embedded
+   * by a different model, in batches until nothing is left. Concurrent
+   * calls for the same model share one run; a run for another model starts
+   * once the current one finishes. Resolves with the number of documents
+   * indexed.
+   */
+  backfill(provider: EmbeddingProvider): Promise<number> {
+    const modelKey = getEmbeddingModelKey(provider)
+    if (this.backfillRun?.modelKey === modelKey) {
+      return this.backfillRun.promise
+    }
+
+    const previous = this.backfillRun?.promise ?? Promise.resolve(0)
+    const run = {
+      modelKey,
+      promise: previous
+        .catch(() => 0)
+        .then(() => this.runBackfill(provider))
+        .finally(() => {
+          if (this.backfillRun === run) this.backfillRun = null
+        })
+    }
+    this.backfillRun = run
+    return run.promise
+  }
+
+  private async runBackfill(provider: EmbeddingProvider): Promise<number> {
+    // The Electron main process owns its own index
+    if (this.electronDatabase) {
+      return 0
+    }
+
+    const modelKey = getEmbeddingModelKey(provider)
+
+    let indexedCount = 0
+
+    try {
+      const cursor: BackfillCursor = { messagesDone: false }
+      let documents = this.collectUnindexed(provider, cursor)
+
+      // A page can yield no documents when its sources produce no chunks;
+      // only an empty page means everything was visited
+      while (documents) {
+        if (documents.length > 0) {
+          const embeddings = await this.embedDocuments(provider, documents)
+
+          dbService.saveRAGDocuments(documents.map((document, i) => ({ document, embedding: embeddings[i] })), modelKey)
+          indexedCount += documents.length
+        }
+
+        documents = this.collectUnindexed(provider, cursor)
+      }
+
+      if (indexedCount > 0) {
+        console.log(`🔎 RAG backfill indexed ${indexedCount} documents`)
+      }
+    } catch (error) {
+      console.error('RAG backfill stopped:', error)
     }
+
+    return indexedCount
+  }
+
+  /**
+   * Documents of the next page of unindexed messages, then snippets, after
+   * the cursor; null once both are exhausted
+   */
+  private collectUnindexed(provider: EmbeddingProvider, cursor: BackfillCursor): RAGDocument[] | null {
+    const modelKey = getEmbeddingModelKey(provider)
+    const chunkChars = chunkCharsFor(provider)
+    const messages = cursor.messagesDone
+      ? []
+      : dbService.getUnindexedMessages(modelKey, MIN_INDEX_CHARS, BACKFILL_BATCH_SIZE, cursor.message)
+    if (messages.length < BACKFILL_BATCH_SIZE) cursor.messagesDone = true
+
+    const snippets = cursor.messagesDone
+      ? dbService.getUnindexedSnippets(modelKey, BACKFILL_BATCH_SIZE - messages.length, cursor.snippet)
+      : []
+
+    if (messages.length === 0 && snippets.length === 0) return null
+
+    const lastMessage = messages[messages.length - 1]
+    if (lastMessage) cursor.message = { timestamp: lastMessage.timestamp, id: lastMessage.id }
+    const lastSnippet = snippets[snippets.length - 1]
+    if (lastSnippet) cursor.snippet = { updatedAt: lastSnippet.updatedAt, id: lastSnippet.id }
+
+    return [
+      ...messages.flatMap(message => messageDocuments(message, chunkChars)),
+      ...snippets.flatMap(snippet => snippetDocuments(snippet, chunkChars))
+    ]
   }
 
   /**
    * Clear all indexed documents
    */
   clear(): void {
-    this.documents.clear()
-    this.embeddings.clear()
+    if (!this.electronDatabase) {
+      dbService.clearRAGIndex()
+    }
   }
 
   /**
    * Get statistics about indexed documents
    */
   getStats(): { documentCount: number; embeddingCount: number } {
+    if (this.electronDatabase) {
+      return { documentCount: 0, embeddingCount: 0 }
+    }
+    return dbService.getRAGStats()
+  }
+}
+
+type ElectronDatabase = NonNullable<Window['electronAPI']>['database']
+
+/**
+ * Chunk size that fits the provider's input
+ */
+function chunkCharsFor(provider: EmbeddingProvider): number {
+  return Math.min(DEFAULT_CHUNK_CHARS, provider.maxChars)
+}
+
+/**
+ * How far a backfill has paged through the unindexed messages and snippets
+ */
+interface BackfillCursor {
+  messagesDone: boolean
+  message?: { timestamp: number; id: string }
+  snippet?: { updatedAt: number; id: string }
+}
+
+/**
+ * A chunk as sent to the Electron main process for storage
+ */
+interface RAGChunkInput {
+  text: string
+  start: number
+  end: number
+  embedding?: number[]
+}
+
+/**
+ * Split a text into documents; offsets are recorded in the metadata
+ */
+function chunkDocuments(
+  idPrefix: string,
+  source: Pick<RAGDocument, 'sourceType' | 'sourceId'>,
+  text: string,
+  metadata: Record<string, any>,
+  maxChars: number
+): RAGDocument[] {
+  const chunks = chunkText(text, { maxChars })
+  return chunks.map((chunk, index) => ({
+    id: `${idPrefix}_${index}`,
+    ...source,
+    chunkText: chunk.text,
+    chunkIndex: index,
+    metadata: { ...metadata, chunkStart: chunk.start, chunkEnd: chunk.end, chunkCount: chunks.length }
+  }))
+}
+
+function messageDocuments(message: {
+  id: string
+  content: string
+  role: 'user' | 'assistant'
+  conversationId: string
+  library?: string
+}, maxChars: number): RAGDocument[] {
+  return chunkDocuments(`doc_${message.id}`, { sourceType: 'message', sourceId: message.id }, message.content, {
+    role: message.role,
+    conversationId: message.conversationId,
+    library: message.library
+  }, maxChars)
+}
+
+function snippetText(snippet: { title: string; description?: string; code: string }): string {
+  return [snippet.title, snippet.description, snippet.code].filter(Boolean).join('\n\n')
+}
+
+function snippetDocuments(snippet: {
+  id: string
+  title: string
+  description?: string
+  code: string
+  library?: string
+}, maxChars: number): RAGDocument[] {
+  return chunkDocuments(`doc_snippet_${snippet.id}`, { sourceType: 'snippet', sourceId: snippet.id }, snippetText(snippet), {
+    title: snippet.title,
+    library: snippet.library
+  }, maxChars)
+}
+
+/**
+ * Merge retrieved chunks that are neighbours in the same source into one
+ * passage, dropping the overlap between them. A passage ranks by its most
+ * relevant chunk.
+ */
+function mergeAdjacentChunks(documents: RAGDocument[]): RAGDocument[] {
+  const bySource = new Map<string, RAGDocument[]>()
+  for (const doc of documents) {
+    const key = `${doc.sourceType}:${doc.sourceId}`
+    bySource.set(key, [...(bySource.get(key) || []), doc])
+  }
+
+  const passages: RAGDocument[] = []
+  for (const chunks of Array.from(bySource.values())) {
+    chunks.sort((a, b) => a.chunkIndex - b.chunkIndex)
+
+    let current = chunks[0]
+    for (const next of chunks.slice(1)) {
+      const end = current.metadata?.chunkEnd
+      const start = next.metadata?.chunkStart
+      if (next.chunkIndex !== current.chunkIndex + 1 || typeof end !== 'number' || typeof start !== 'number') {
+        passages.push(current)
+        current = next
+        continue
+      }
+
+      const overlap = Math.max(0, end - start)
+      current = {
+        ...current,
+        chunkText: overlap > 0
+          ? current.chunkText + next.chunkText.substring(overlap)
+          : `${current.chunkText}\n\n${next.chunkText}`,
+        chunkIndex: next.chunkIndex,
+        metadata: { ...current.metadata, chunkEnd: next.metadata?.chunkEnd },
+        similarity: maxDefined(current.similarity, next.similarity),
+        score: maxDefined(current.score, next.score)
+      }
+    }
+    passages.push(current)
+  }
+
+  const rank = (doc: RAGDocument) => doc.score ?? doc.similarity ?? 0
+  return passages.sort((a, b) => rank(b) - rank(a))
+}
+
+function maxDefined(a?: number, b?: number): number | undefined {
+  if (a === undefined) return b
+  if (b === undefined) return a
+  return Math.max(a, b)
+}
+
+/**
+ * Citation for a retrieved document: messages are cited by their conversation
+ */
+function toSource(doc: RAGDocument): RAGSource | null {
+  const excerpt = doc.chunkText.replace(/\s+/g, ' ').trim().substring(0, SOURCE_EXCERPT_CHARS)
+
+  if (doc.sourceType === 'snippet') {
     return {
-      documentCount: this.documents.size,
-      embeddingCount: this.embeddings.size
+      sourceType: 'snippet',
+      sourceId: doc.sourceId,
+      title: doc.metadata?.title,
+      excerpt,
+      similarity: doc.similarity
     }
   }
+
+  const conversationId = doc.sourceType === 'conversation' ? doc.sourceId : doc.metadata?.conversationId
+  if (!conversationId) return null
+
+  return {
+    sourceType: 'conversation',
+    sourceId: conversationId,
+    excerpt,
+    similarity: doc.similarity
+  }
 }
 
 // Singleton instance
@@ -319,11 +690,25 @@ export async function indexMessageForRAG(
     conversationId: string
     library?: string
   },
-  apiKey: string
+  provider: EmbeddingProvider
+): Promise<void> {
+  await getRAGService().indexMessage(message, provider)
+}
+
+/**
+ * Convenience function to index a code snippet
+ */
+export async function indexSnippetForRAG(
+  snippet: {
+    id: string
+    title: string
+    description?: string
+    code: string
+    library?: string
+  },
+  provider: EmbeddingProvider
 ): Promise<void> {
-  const service = getRAGService()
-  service.setApiKey(apiKey)
-  await service.indexMessage(message)
+  await getRAGService().indexSnippet(snippet, provider)
 }
 
 /**
@@ -331,10 +716,26 @@ export async function indexMessageForRAG(
  */
 export async function getRAGContext(
   query: string,
-  apiKey: string,
+  provider: EmbeddingProvider,
   options?: RAGContextOptions
 ): Promise<string> {
-  const service = getRAGService()
-  service.setApiKey(apiKey)
-  return service.buildContext(query, options)
+  return getRAGService().buildContext(query, provider, options)
+}
+
+/**
+ * Convenience function to get RAG context with its sources
+ */
+export async function getRAGContextWithSources(
+  query: string,
+  provider: EmbeddingProvider,
+  options?: RAGContextOptions
+): Promise<RAGContextResult> {
+  return getRAGService().retrieveContext(query, provider, options)
+}
+
+/**
+ * Convenience function to index stored history in the background
+ */
+export async function backfillRAGIndex(provider: EmbeddingProvider): Promise<number> {
+  return getRAGService().backfill(provider)
 }
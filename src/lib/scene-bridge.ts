@@ -0,0 +1,225 @@
+/**
+ * Scene Bridge
+ *
+ * A small script injected at the top of every scene the SceneRenderer runs.
+ * It forwards console calls, uncaught errors, unhandled rejections and the
+ * scene's load/ready events to the host app with postMessage. Error lines and
+ * stack frames are reported against the generated document and mapped back
+ * to the editor's line numbers on the host side. The host can also request a
+ * PNG of the scene's canvas (see scene-capture.ts).
+ */
+
+export const SCENE_MESSAGE_SOURCE = 'maigexr-scene'
+
+// Stack frames in the generated document are rewritten to this name
+const SCENE_FILE = 'scene.js'
+
+// Longest console message forwarded, per call
+const MAX_MESSAGE_CHARS = 4000
+
+export type SceneConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug'
+
+export type SceneMessage =
+  | { type: 'console'; level: SceneConsoleLevel; message: string }
+  | { type: 'error'; message: string; stack?: string; line?: number; column?: number }
+  | { type: 'load' } // Document parsed and inline scripts run
+  | { type: 'ready' } // All resources (CDN scripts, textures, models) loaded
+  | { type: 'capture'; requestId: string; dataUrl?: string; error?: string } // Reply to a capture request
+
+export interface ConsoleEntry {
+  id: string
+  level: SceneConsoleLevel
+  message: string
+  stack?: string
+  line?: number // Line in the editor, when the error comes from the user's code
+  column?: number
+  timestamp: number
+}
+
+/**
+ * Where the user's code sits in a generated document
+ */
+export interface SceneSourceMap {
+  lineOffset: number // Document line = editor line + lineOffset
+  lineCount: number
+}
+
+const BRIDGE_SCRIPT = `<script>
+(function () {
+  var SOURCE = '${SCENE_MESSAGE_SOURCE}';
+  var MAX = ${MAX_MESSAGE_CHARS};
+  var here = location.href.split('#')[0];
+
+  // Re-runs rewrite the document but keep the window and its console, so
+  // undo the previous run's bridge before installing this one
+  if (window.__sceneBridge) window.__sceneBridge.uninstall();
+  var installed = [];
+  var consoleOriginals = {};
+
+  function listen(target, type, handler, capture) {
+    target.addEventListener(type, handler, capture);
+    installed.push(function () { target.removeEventListener(type, handler, capture); });
+  }
+
+  function post(message) {
+    message.source = SOURCE;
+    try { parent.postMessage(message, '*'); } catch (e) {}
+  }
+
+  function cleanStack(stack) {
+    return stack ? String(stack).split(here).join('${SCENE_FILE}') : undefined;
+  }
+
+  function format(value, seen) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack ? cleanStack(value.stack) : String(value);
+    if (typeof value === 'function') return 'function ' + (value.name || '(anonymous)') + '()';
+    if (value === undefined || typeof value !== 'object' || value === null) return String(value);
+    try {
+      return JSON.stringify(value, function (key, v) {
+        if (typeof v === 'object' && v !== null) {
+          if (seen.indexOf(v) !== -1) return '[Circular]';
+          seen.push(v);
+        }
+        return typeof v === 'function' ? '[Function]' : v;
+      });
+    } catch (e) {
+      return Object.prototype.toString.call(value);
+    }
+  }
+
+  listen(window, 'message', function (e) {
+    var data = e.data;
+    if (!data || data.source !== SOURCE || data.type !== 'capture') return;
+    var canvases = Array.prototype.slice.call(document.querySelectorAll('canvas'));
+    var canvas = canvases.sort(function (a, b) { return b.width * b.height - a.width * a.height; })[0];
+    if (!canvas) {
+      post({ type: 'capture', requestId: data.requestId, error: 'The scene has no canvas' });
+      return;
+    }
+    // WebGL clears the drawing buffer once a frame is presented; a callback
+    // registered now runs after the scene's render loop has drawn the next
+    // frame and before it is presented
+    requestAnimationFrame(function () {
+      try {
+        post({ type: 'capture', requestId: data.requestId, dataUrl: canvas.toDataURL('image/png') });
+      } catch (err) {
+        post({ type: 'capture', requestId: data.requestId, error: String((err && err.message) || err) });
+      }
+    });
+  });
+
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = consoleOriginals[level] = console[level];
+    console[level] = function () {
+      var parts = [];
+      for (var i = 0; i < arguments.length; i++) parts.push(format(arguments[i], []));
+      var message = parts.join(' ');
+      post({ type: 'console', level: level, message: message.length > MAX ? message.slice(0, MAX) + '…' : message });
+      if (original) original.apply(console, arguments);
+    };
+  });
+
+  listen(window, 'error', function (e) {
+    // Resource load failures (a missing texture or script) have no message
+    if (!e.message && e.target && e.target !== window) {
+      var url = e.target.src || e.target.href || '';
+      post({ type: 'error', message: 'Failed to load ' + (e.target.tagName || 'resource').toLowerCase() + (url ? ': ' + url : '') });
+      return;
+    }
+    post({
+      type: 'error',
+      message: (e.error && e.error.message) || e.message || 'Unknown error',
+      stack: e.error ? cleanStack(e.error.stack) : undefined,
+      line: e.filename && e.filename.split('#')[0] !== here ? undefined : e.lineno,
+      column: e.colno
+    });
+  }, true);
+
+  listen(window, 'unhandledrejection', function (e) {
+    var reason = e.reason;
+    post({
+      type: 'error',
+      message: 'Unhandled rejection: ' + (reason && reason.message ? reason.message : format(reason, [])),
+      stack: reason && reason.stack ? cleanStack(reason.stack) : undefined
+    });
+  });
+
+  listen(document, 'DOMContentLoaded', function () { post({ type: 'load' }); });
+  listen(window, 'load', function () { post({ type: 'ready' }); });
+
+  window.__sceneBridge = {
+    uninstall: function () {
+      installed.forEach(function (remove) { remove(); });
+      Object.keys(consoleOriginals).forEach(function (level) { console[level] = consoleOriginals[level]; });
+    }
+  };
+})();
+</script>`
+
+/**
+ * Insert the bridge as the first script of a document, so it is in place
+ * before CDN libraries or the user's code run
+ */
+export function injectSceneBridge(html: string): string {
+  const head = /<head[^>]*>/i.exec(html)
+  if (head) {
+    const at = head.index + head[0].length
+    return html.slice(0, at) + '\n' + BRIDGE_SCRIPT + html.slice(at)
+  }
+
+  const root = /<html[^>]*>/i.exec(html)
+  if (root) {
+    const at = root.index + root[0].length
+    return html.slice(0, at) + '\n<head>' + BRIDGE_SCRIPT + '</head>' + html.slice(at)
+  }
+
+  return BRIDGE_SCRIPT + '\n' + html
+}
+
+/**
+ * Find the user's code in a generated document. The code may have been
+ * lightly rewritten, so its first non-blank line is used as the anchor.
+ */
+export function getSceneSourceMap(html: string, userCode: string): SceneSourceMap {
+  const codeLines = userCode.split('\n')
+  const anchorIndex = codeLines.findIndex(line => line.trim() !== '')
+  if (anchorIndex === -1) return { lineOffset: 0, lineCount: codeLines.length }
+
+  // Search after the bridge so its own source can't match
+  const bridgeEnd = html.indexOf(BRIDGE_SCRIPT)
+  const from = bridgeEnd === -1 ? 0 : bridgeEnd + BRIDGE_SCRIPT.length
+  const position = html.indexOf(codeLines[anchorIndex].trim(), from)
+  if (position === -1) return { lineOffset: 0, lineCount: codeLines.length }
+
+  const documentLine = html.slice(0, position).split('\n').length
+  return { lineOffset: documentLine - (anchorIndex + 1), lineCount: codeLines.length }
+}
+
+/**
+ * Editor line for a document line, or undefined if the line is outside the
+ * user's code (the wrapper or a library)
+ */
+export function mapSceneLine(line: number | undefined, sourceMap: SceneSourceMap): number | undefined {
+  if (!line) return undefined
+  const editorLine = line - sourceMap.lineOffset
+  return editorLine >= 1 && editorLine <= sourceMap.lineCount ? editorLine : undefined
+}
+
+/**
+ * Rewrite `scene.js:LINE:COL` frames in a stack trace to editor lines
+ */
+export function mapSceneStack(stack: string | undefined, sourceMap: SceneSourceMap): string | undefined {
+  if (!stack) return undefined
+  return stack.replace(new RegExp(`${SCENE_FILE.replace('.', '\\.')}:(\\d+):(\\d+)`, 'g'), (frame, line, column) => {
+    const editorLine = mapSceneLine(Number(line), sourceMap)
+    return editorLine ? `${SCENE_FILE}:${editorLine}:${column}` : frame
+  })
+}
+
+/**
+ * Whether a postMessage payload came from the bridge
+ */
+export function isSceneMessage(data: unknown): data is SceneMessage & { source: string } {
+  return typeof data === 'object' && data !== null && (data as { source?: unknown }).source === SCENE_MESSAGE_SOURCE
+}
@@ -0,0 +1,89 @@
+/**
+ * Scene Capture
+ *
+ * Screenshots of the running scene. The scene bridge (scene-bridge.ts) is
+ * present in both CDN scenes and Sandpack previews, so a capture is a
+ * postMessage request to whichever preview iframe is showing; the bridge
+ * answers with a PNG of the scene's largest canvas. Thumbnails are resized
+ * JPEGs small enough to store next to favorites, snippets and conversations.
+ */
+
+import { SCENE_MESSAGE_SOURCE, isSceneMessage } from './scene-bridge'
+import { generateId } from './utils'
+
+// Thumbnail size, 16:9 like the playground preview
+export const THUMBNAIL_WIDTH = 320
+export const THUMBNAIL_HEIGHT = 180
+
+const THUMBNAIL_QUALITY = 0.8
+
+const CAPTURE_TIMEOUT_MS = 5000
+
+/**
+ * Capture the scene rendered in an iframe as a PNG data URL
+ */
+export function captureSceneFrame(iframe: HTMLIFrameElement, timeoutMs = CAPTURE_TIMEOUT_MS): Promise<string> {
+  const target = iframe.contentWindow
+  if (!target) return Promise.reject(new Error('The scene is not running'))
+
+  const requestId = generateId()
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      window.removeEventListener('message', handleMessage)
+      reject(new Error('The scene did not respond to the capture request'))
+    }, timeoutMs)
+
+    function handleMessage(event: MessageEvent) {
+      if (event.source !== target || !isSceneMessage(event.data)) return
+      const message = event.data
+      if (message.type !== 'capture' || message.requestId !== requestId) return
+
+      clearTimeout(timer)
+      window.removeEventListener('message', handleMessage)
+      if (message.dataUrl) {
+        resolve(message.dataUrl)
+      } else {
+        reject(new Error(message.error || 'Capture failed'))
+      }
+    }
+
+    window.addEventListener('message', handleMessage)
+    target.postMessage({ source: SCENE_MESSAGE_SOURCE, type: 'capture', requestId }, '*')
+  })
+}
+
+/**
+ * Capture the scene in a preview container (SceneRenderer or Sandpack)
+ */
+export function captureScene(container: HTMLElement | null): Promise<string> {
+  const iframe = container?.querySelector('iframe')
+  if (!iframe) return Promise.reject(new Error('No scene preview is showing'))
+  return captureSceneFrame(iframe)
+}
+
+/**
+ * Resize an image to a thumbnail, cropping it to fill the thumbnail size
+ */
+export function createThumbnail(dataUrl: string, width = THUMBNAIL_WIDTH, height = THUMBNAIL_HEIGHT): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = height
+      const context = canvas.getContext('2d')
+      if (!context) {
+        reject(new Error('Canvas 2D is not available'))
+        return
+      }
+
+      const scale = Math.max(width / image.width, height / image.height)
+      const drawWidth = image.width * scale
+      const drawHeight = image.height * scale
+      context.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight)
+      resolve(canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY))
+    }
+    image.onerror = () => reject(new Error('Could not read the captured image'))
+    image.src = dataUrl
+  })
+}
@@ -0,0 +1,205 @@
+/**
+ * Scene XR
+ *
+ * WebXR for the playground preview. When a scene's XR mode is on, a small
+ * bootstrap is added after the user's code that puts the library's own
+ * "Enter VR/AR" entry point on the page: Babylon.js' default XR experience,
+ * Three.js' VRButton/ARButton, or A-Frame's built-in XR mode UI. React Three
+ * Fiber scenes get an <XR> store around their Canvas instead (see
+ * CodeSandboxService.addR3FXRSupport). The settings are kept per conversation.
+ */
+
+export type SceneXRMode = 'off' | 'vr' | 'ar'
+
+export type SceneReferenceSpace = 'local' | 'local-floor' | 'bounded-floor' | 'unbounded' | 'viewer'
+
+export interface SceneXRSettings {
+  mode: SceneXRMode
+  referenceSpace: SceneReferenceSpace
+  emulator: boolean // Simulated headset and controllers, for machines without XR hardware
+}
+
+export const DEFAULT_XR_SETTINGS: SceneXRSettings = {
+  mode: 'off',
+  referenceSpace: 'local-floor',
+  emulator: false
+}
+
+export const REFERENCE_SPACES: { id: SceneReferenceSpace; label: string; description: string }[] = [
+  { id: 'local-floor', label: 'Local floor', description: 'Standing or seated, origin on the floor' },
+  { id: 'local', label: 'Local', description: 'Seated, origin at the starting head position' },
+  { id: 'bounded-floor', label: 'Bounded floor', description: 'Room-scale inside the guardian boundary' },
+  { id: 'unbounded', label: 'Unbounded', description: 'Walk freely, for large AR spaces' },
+  { id: 'viewer', label: 'Viewer', description: 'Tracks the head only, no position' }
+]
+
+// Permissions a preview iframe needs to start an XR session
+export const XR_IFRAME_ALLOW = 'xr-spatial-tracking; fullscreen'
+
+// Libraries the playground can add XR to
+export const XR_LIBRARIES = ['babylonjs', 'threejs', 'aframe', 'react-three-fiber']
+
+// Matches the Three.js version the preview loads
+const THREE_ADDONS_URL = 'https://unpkg.com/three@0.171.0/examples/jsm'
+
+/**
+ * Add the XR bootstrap for a library to a generated scene document. Scenes
+ * that already set up XR themselves are left alone.
+ */
+export function injectXRBootstrap(html: string, libraryId: string, code: string, settings: SceneXRSettings): string {
+  if (settings.mode === 'off') return html
+
+  switch (libraryId) {
+    case 'babylonjs':
+      if (/createDefaultXRExperienceAsync|WebXRDefaultExperience|enableFeature\(/.test(code)) return html
+      return appendToBody(html, babylonBootstrap(settings))
+    case 'threejs':
+      if (/VRButton|ARButton|xr\.enabled\s*=\s*true/.test(code)) return html
+      return appendToBody(html, threeBootstrap(settings))
+    case 'aframe':
+      return addAFrameXRAttributes(html, settings)
+    default:
+      return html
+  }
+}
+
+/**
+ * Add the XR permissions to an iframe's allow attribute, keeping the ones it
+ * has. Returns true if the attribute changed; the iframe has to navigate
+ * again before the new permissions apply.
+ */
+export function allowXR(iframe: HTMLIFrameElement): boolean {
+  const allow = iframe.getAttribute('allow') || ''
+  const features = allow.split(';').map(feature => feature.trim()).filter(Boolean)
+  const names = features.map(feature => feature.split(/\s+/)[0])
+  const missing = XR_IFRAME_ALLOW.split(';').map(feature => feature.trim()).filter(feature => !names.includes(feature))
+  if (missing.length === 0) return false
+
+  iframe.setAttribute('allow', features.concat(missing).join('; '))
+  return true
+}
+
+/**
+ * WebXR session mode for a setting
+ */
+export function getSessionMode(mode: SceneXRMode): 'immersive-vr' | 'immersive-ar' {
+  return mode === 'ar' ? 'immersive-ar' : 'immersive-vr'
+}
+
+function appendToBody(html: string, script: string): string {
+  const index = html.search(/<\/body>/i)
+  return index === -1 ? html + script : html.slice(0, index) + script + '\n' + html.slice(index)
+}
+
+/**
+ * Babylon.js: the default XR experience on the scene the code created,
+ * which adds its own enter/exit button to the canvas
+ */
+function babylonBootstrap(settings: SceneXRSettings): string {
+  return `
+<script>
+(function () {
+  var tries = 0;
+  var timer = setInterval(function () {
+    var scene = window.BABYLON && BABYLON.EngineStore && BABYLON.EngineStore.LastCreatedScene;
+    if (!scene && ++tries < 100) return;
+    clearInterval(timer);
+    if (!scene) {
+      console.warn('WebXR: no Babylon.js scene was created');
+      return;
+    }
+    scene.createDefaultXRExperienceAsync({
+      uiOptions: { sessionMode: '${getSessionMode(settings.mode)}', referenceSpaceType: '${settings.referenceSpace}' },
+      optionalFeatures: true
+    }).catch(function (error) {
+      console.error('WebXR setup failed: ' + (error && error.message ? error.message : error));
+    });
+  }, 100);
+})();
+</script>`
+}
+
+/**
+ * Three.js: enable XR on the first renderer that draws and add VRButton or
+ * ARButton. Window animation frames stop during an immersive session, so
+ * the scene's requestAnimationFrame callbacks are run from the XR loop.
+ */
+function threeBootstrap(settings: SceneXRSettings): string {
+  const button = settings.mode === 'ar' ? 'ARButton' : 'VRButton'
+  return `
+<script type="module">
+import { ${button} } from '${THREE_ADDONS_URL}/webxr/${button}.js';
+
+const THREE = window.THREE || await import('three').catch(() => null);
+if (!THREE) {
+  console.warn('WebXR: Three.js was not found');
+} else {
+  const render = THREE.WebGLRenderer.prototype.render;
+  let renderer = null;
+  let lastScene = null;
+
+  THREE.WebGLRenderer.prototype.render = function (scene, camera) {
+    if (!renderer) {
+      renderer = this;
+      setUpXR(this);
+    }
+    lastScene = scene;
+    return render.apply(this, arguments);
+  };
+
+  function setUpXR(target) {
+    target.xr.enabled = true;
+    target.xr.setReferenceSpaceType('${settings.referenceSpace}');
+    document.body.appendChild(${button}.createButton(target, { optionalFeatures: ['${settings.referenceSpace}'] }));
+
+    const requestFrame = window.requestAnimationFrame.bind(window);
+    let queue = [];
+    window.requestAnimationFrame = function (callback) {
+      if (target.xr.isPresenting) {
+        queue.push(callback);
+        return 0;
+      }
+      return requestFrame(callback);
+    };
+    target.setAnimationLoop(function (time) {
+      if (!target.xr.isPresenting) return;
+      const callbacks = queue;
+      queue = [];
+      callbacks.forEach(function (callback) { callback(time); });
+    });
+
+    let background = null;
+    target.xr.addEventListener('sessionstart', function () {
+      // Passthrough AR needs a transparent background
+      if (${settings.mode === 'ar'} && lastScene) {
+        background = lastScene.background;
+        lastScene.background = null;
+      }
+    });
+    target.xr.addEventListener('sessionend', function () {
+      if (${settings.mode === 'ar'} && lastScene) lastScene.background = background;
+      const callbacks = queue;
+      queue = [];
+      callbacks.forEach(function (callback) { requestFrame(callback); });
+    });
+  }
+}
+</script>`
+}
+
+/**
+ * A-Frame: XR is built in; set the reference space and, for AR, the mode
+ * of its enter button on <a-scene>
+ */
+function addAFrameXRAttributes(html: string, settings: SceneXRSettings): string {
+  return html.replace(/<a-scene\b([^>]*)>/i, (tag, attributes: string) => {
+    let added = ''
+    if (!/\swebxr\s*=/.test(attributes)) {
+      added += ` webxr="referenceSpaceType: ${settings.referenceSpace}; optionalFeatures: ${settings.referenceSpace}"`
+    }
+    if (settings.mode === 'ar' && !/\sxr-mode-ui\s*=/.test(attributes)) {
+      added += ' xr-mode-ui="XRMode: ar"'
+    }
+    return `<a-scene${attributes}${added}>`
+  })
+}
@@ -47,6 +47,95 @@ export function extractCodeFromMessage(content: string): string | null {
   return null
 }
 
+export interface CodeBlock {
+  language: string // Empty when the fence names none
+  code: string
+  filename?: string // From title="..." on the fence or a first-line `file:` comment
+  start: number // Offset of the opening fence in the message
+  end: number // Offset just past the closing fence
+}
+
+// A fenced block: info string, then the body
+const FENCE_REGEX = /```([^\n`]*)\n([\s\S]*?)\n?```/g
+
+// title="src/Box.jsx", filename=src/Box.jsx, file: src/Box.jsx
+const FENCE_PATH_REGEX = /(?:title|filename|file|path)\s*[=:]\s*["']?([^"'\s]+)["']?/
+
+// A first-line comment naming the file: // file: src/Box.jsx, /* filename: shaders/wave.glsl */.
+// The prefix is required; a bare `// app.js` is just a comment in a single-file answer
+const COMMENT_PATH_REGEX = /^\s*(?:\/\/|\/\*|<!--|#)\s*file(?:name)?:\s*([\w.\-/]+\.[a-z0-9]+)\s*(?:\*\/|-->)?\s*$/i
+
+/**
+ * Every fenced code block in a message, in order
+ */
+export function extractCodeBlocks(content: string): CodeBlock[] {
+  const blocks: CodeBlock[] = []
+
+  for (const match of Array.from(content.matchAll(FENCE_REGEX))) {
+    const info = match[1].trim()
+    let code = match[2]
+    let filename = info.match(FENCE_PATH_REGEX)?.[1]
+
+    if (!filename) {
+      const firstLine = code.split('\n', 1)[0]
+      filename = firstLine.match(COMMENT_PATH_REGEX)?.[1]
+      if (filename) code = code.slice(firstLine.length + 1)
+    }
+
+    blocks.push({
+      language: info.split(/\s+/)[0].toLowerCase(),
+      code: code.trim(),
+      filename,
+      start: match.index!,
+      end: match.index! + match[0].length
+    })
+  }
+
+  return blocks
+}
+
+// Languages that are never a runnable scene on their own
+const NON_SCENE_LANGUAGES = new Set([
+  'glsl', 'vert', 'frag', 'wgsl', 'css', 'json', 'bash', 'sh', 'shell', 'console',
+  'text', 'txt', 'md', 'markdown', 'diff', 'patch', 'yaml', 'yml'
+])
+
+const SCRIPT_LANGUAGES = new Set(['', 'javascript', 'js', 'jsx', 'typescript', 'ts', 'tsx'])
+
+// Code that only a scene for this library would contain
+const SCENE_MARKERS: Record<string, RegExp> = {
+  babylonjs: /BABYLON\.|@babylonjs\/|createScene/,
+  threejs: /THREE\.|from ['"]three['"]|WebGLRenderer/,
+  aframe: /<a-scene|AFRAME\./,
+  'react-three-fiber': /<Canvas|@react-three\/fiber|useFrame/,
+  reactylon: /reactylon|<Engine|<Scene/
+}
+
+/**
+ * The block most likely to be a runnable scene for the library: one in a
+ * script language (HTML for A-Frame) that uses the library, preferring the
+ * longest. Shaders, styles and shell commands are never chosen.
+ */
+export function selectSceneBlock(blocks: CodeBlock[], libraryId?: string): CodeBlock | null {
+  const runnable = (block: CodeBlock) =>
+    SCRIPT_LANGUAGES.has(block.language) || (libraryId === 'aframe' && block.language === 'html')
+  const markers = libraryId ? SCENE_MARKERS[libraryId] : undefined
+
+  let best: CodeBlock | null = null
+  let bestScore = -1
+  for (const block of blocks) {
+    if (NON_SCENE_LANGUAGES.has(block.language) || !block.code) continue
+
+    const score = (runnable(block) ? 1 : 0) + (markers?.test(block.code) ? 2 : 0)
+    if (score > bestScore || (score === bestScore && best && block.code.length > best.code.length)) {
+      best = block
+      bestScore = score
+    }
+  }
+
+  return best
+}
+
 export function generateId(): string {
   return Math.random().toString(36).substr(2, 9)
 }
@@ -123,6 +212,15 @@ export function downloadTextFile(content: string, filename: string): void {
   URL.revokeObjectURL(url)
 }
 
+export function downloadDataUrl(dataUrl: string, filename: string): void {
+  const link = document.createElement('a')
+  link.href = dataUrl
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
 export function getParameterDescription(temperature: number, topP: number): string {
   switch (true) {
     case temperature >= 0.0 && temperature <= 0.3 && topP >= 0.1 && topP <= 0.5:
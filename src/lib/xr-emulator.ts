@@ -0,0 +1,204 @@
+/**
+ * XR Emulator
+ *
+ * A WebXR runtime for machines without a headset. IWER (the Immersive Web
+ * Emulation Runtime) replaces navigator.xr in the scene with a simulated
+ * Meta Quest 3 and its two controllers; it is loaded before the scene's own
+ * scripts so libraries that check for WebXR when they load see it. A panel
+ * in the scene moves the head and controllers and presses controller
+ * buttons, and the same controls are on window.xrEmulator for scripts that
+ * drive a scene headlessly:
+ *
+ *   xrEmulator.move('head', 0, 0, -1)        // step forward one meter
+ *   xrEmulator.turn('right', 0.5, 0)         // yaw the right controller
+ *   xrEmulator.press('right', 'trigger', 1)  // trigger down; 0 releases
+ *
+ * React Three Fiber scenes use the emulator built into @react-three/xr,
+ * which runs the same runtime (see CodeSandboxService.addR3FXRSupport).
+ */
+
+// UMD build; defines the IWER global
+const IWER_URL = 'https://unpkg.com/iwer@2/build/iwer.min.js'
+
+// Meters per move step and radians per turn step
+const MOVE_STEP = 0.1
+const TURN_STEP = Math.PI / 16
+
+const EMULATOR_SCRIPT = `<script src="${IWER_URL}"></script>
+<script>
+(function () {
+  if (!window.IWER) {
+    console.warn('WebXR emulator: IWER could not be loaded');
+    return;
+  }
+
+  var device = new IWER.XRDevice(IWER.metaQuest3);
+  device.installRuntime();
+
+  var STEP = ${MOVE_STEP};
+  var TURN = ${TURN_STEP};
+  var BUTTONS = {
+    left: { trigger: 'trigger', squeeze: 'squeeze', primary: 'x-button', secondary: 'y-button' },
+    right: { trigger: 'trigger', squeeze: 'squeeze', primary: 'a-button', secondary: 'b-button' }
+  };
+  var poses = {
+    head: { position: [0, 1.6, 0], yaw: 0, pitch: 0 },
+    left: { position: [-0.25, 1.5, -0.4], yaw: 0, pitch: 0 },
+    right: { position: [0.25, 1.5, -0.4], yaw: 0, pitch: 0 }
+  };
+
+  function node(target) {
+    return target === 'head' ? device : device.controllers[target];
+  }
+
+  function apply(target) {
+    var pose = poses[target];
+    var object = node(target);
+    if (!object) return;
+    var sy = Math.sin(pose.yaw / 2), cy = Math.cos(pose.yaw / 2);
+    var sx = Math.sin(pose.pitch / 2), cx = Math.cos(pose.pitch / 2);
+    object.position.set(pose.position[0], pose.position[1], pose.position[2]);
+    object.quaternion.set(cy * sx, sy * cx, -sy * sx, cy * cx);
+  }
+
+  // Moving the head carries the controllers along, like walking
+  function move(target, dx, dy, dz) {
+    var targets = target === 'head' ? ['head', 'left', 'right'] : [target];
+    targets.forEach(function (name) {
+      var position = poses[name].position;
+      position[0] += dx;
+      position[1] += dy;
+      position[2] += dz;
+      apply(name);
+    });
+  }
+
+  function turn(target, yaw, pitch) {
+    poses[target].yaw += yaw;
+    poses[target].pitch = Math.max(-Math.PI / 2, Math.min(Math.PI / 2, poses[target].pitch + pitch));
+    apply(target);
+  }
+
+  function setPose(target, position, yaw, pitch) {
+    poses[target] = { position: position.slice(), yaw: yaw || 0, pitch: pitch || 0 };
+    apply(target);
+  }
+
+  function press(hand, button, value) {
+    var controller = device.controllers[hand];
+    var id = BUTTONS[hand] && BUTTONS[hand][button];
+    if (!controller || !id) return;
+    controller.updateButtonValue(id, value === undefined ? 1 : value);
+  }
+
+  ['head', 'left', 'right'].forEach(apply);
+  window.xrEmulator = { device: device, move: move, turn: turn, setPose: setPose, press: press };
+
+  // On-screen panel
+  var selected = 'head';
+
+  function button(label, title, onDown, onUp) {
+    var element = document.createElement('button');
+    element.textContent = label;
+    element.title = title;
+    element.style.cssText = 'min-width:28px;padding:4px 6px;margin:2px;border:1px solid rgba(255,255,255,0.3);border-radius:4px;background:rgba(255,255,255,0.1);color:#fff;font:12px sans-serif;cursor:pointer;';
+    element.addEventListener('pointerdown', function (event) { event.preventDefault(); onDown(); });
+    if (onUp) {
+      element.addEventListener('pointerup', onUp);
+      element.addEventListener('pointerleave', onUp);
+    }
+    return element;
+  }
+
+  function row(children) {
+    var element = document.createElement('div');
+    children.forEach(function (child) { element.appendChild(child); });
+    return element;
+  }
+
+  function buildPanel() {
+    var panel = document.createElement('div');
+    panel.id = 'xr-emulator-panel';
+    panel.style.cssText = 'position:fixed;left:8px;bottom:8px;z-index:2000;padding:8px;border-radius:8px;background:rgba(17,24,39,0.85);color:#fff;font:12px sans-serif;user-select:none;';
+
+    var title = document.createElement('div');
+    title.textContent = 'WebXR emulator · Meta Quest 3';
+    title.style.cssText = 'font-weight:600;margin-bottom:4px;';
+    panel.appendChild(title);
+
+    var select = document.createElement('select');
+    [['head', 'Head'], ['left', 'Left controller'], ['right', 'Right controller']].forEach(function (option) {
+      var element = document.createElement('option');
+      element.value = option[0];
+      element.textContent = option[1];
+      select.appendChild(element);
+    });
+    select.style.cssText = 'width:100%;margin-bottom:4px;font:12px sans-serif;';
+    select.addEventListener('change', function () {
+      selected = select.value;
+      buttons.style.display = selected === 'head' ? 'none' : 'block';
+    });
+    panel.appendChild(select);
+
+    panel.appendChild(row([
+      button('←', 'Move left (A)', function () { move(selected, -STEP, 0, 0); }),
+      button('↑', 'Move forward (W)', function () { move(selected, 0, 0, -STEP); }),
+      button('↓', 'Move back (S)', function () { move(selected, 0, 0, STEP); }),
+      button('→', 'Move right (D)', function () { move(selected, STEP, 0, 0); }),
+      button('⤒', 'Move up (E)', function () { move(selected, 0, STEP, 0); }),
+      button('⤓', 'Move down (Q)', function () { move(selected, 0, -STEP, 0); })
+    ]));
+    panel.appendChild(row([
+      button('↶', 'Turn left', function () { turn(selected, TURN, 0); }),
+      button('↷', 'Turn right', function () { turn(selected, -TURN, 0); }),
+      button('⤴', 'Look up', function () { turn(selected, 0, TURN); }),
+      button('⤵', 'Look down', function () { turn(selected, 0, -TURN); })
+    ]));
+
+    // Held while the pointer is down
+    var buttons = row(['trigger', 'squeeze', 'primary', 'secondary'].map(function (name) {
+      var label = { trigger: 'Trigger', squeeze: 'Grip', primary: 'A/X', secondary: 'B/Y' }[name];
+      return button(label, 'Hold to press', function () { press(selected, name, 1); }, function () { press(selected, name, 0); });
+    }));
+    buttons.style.display = 'none';
+    panel.appendChild(buttons);
+
+    document.body.appendChild(panel);
+  }
+
+  var KEYS = { w: [0, 0, -STEP], s: [0, 0, STEP], a: [-STEP, 0, 0], d: [STEP, 0, 0], e: [0, STEP, 0], q: [0, -STEP, 0] };
+  window.addEventListener('keydown', function (event) {
+    var target = event.target;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+    var delta = KEYS[event.key.toLowerCase()];
+    if (delta) move(selected, delta[0], delta[1], delta[2]);
+  });
+
+  if (document.body) {
+    buildPanel();
+  } else {
+    document.addEventListener('DOMContentLoaded', buildPanel);
+  }
+
+  console.info('WebXR emulator: Meta Quest 3 with two controllers');
+})();
+</script>`
+
+/**
+ * Install the emulated headset in a scene document, ahead of its scripts
+ */
+export function injectXREmulator(html: string): string {
+  const head = /<head[^>]*>/i.exec(html)
+  if (head) {
+    const at = head.index + head[0].length
+    return html.slice(0, at) + '\n' + EMULATOR_SCRIPT + html.slice(at)
+  }
+
+  const root = /<html[^>]*>/i.exec(html)
+  if (root) {
+    const at = root.index + root[0].length
+    return html.slice(0, at) + '\n<head>' + EMULATOR_SCRIPT + '</head>' + html.slice(at)
+  }
+
+  return EMULATOR_SCRIPT + '\n' + html
+}
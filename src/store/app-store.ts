@@ -9,8 +9,32 @@ import { create } from 'zustand'
 import { dbService, type Conversation, type Message as DBMessage, type AppSettings as DBSettings, type CodeSnippet } from '@/lib/db-service'
 import { defaultLibraries, defaultProviders, defaultSettings } from './store-defaults'
 import { AppConfig } from '@/lib/app-config'
-
-export type ViewType = 'chat' | 'playground' | 'history' | 'snippets'
+import { indexMessageForRAG, indexSnippetForRAG, backfillRAGIndex, type RAGSource } from '@/lib/rag-service'
+import {
+  createEmbeddingProvider,
+  getEmbeddingModelKey,
+  type EmbeddingProvider,
+  type EmbeddingProviderId
+} from '@/lib/embedding-service'
+import type { CodePatch } from '@/lib/code-patch'
+import { DEFAULT_XR_SETTINGS, type SceneXRSettings } from '@/lib/scene-xr'
+import { withCustomProviders, type CustomProvider } from '@/lib/custom-providers'
+import {
+  applyModelCatalog,
+  isModelCatalogStale,
+  refreshModelCatalog,
+  type ModelCatalogEntry,
+  type ModelCatalogRefresh
+} from '@/lib/model-catalog'
+import { getEntryPath, isEntryPath, type CodeFile, type ProjectFiles } from '@/lib/project-files'
+import {
+  favoritesService,
+  type Favorite,
+  type CreateFavoriteParams,
+  type UpdateFavoriteParams
+} from '@/lib/favorites-service'
+
+export type ViewType = 'chat' | 'playground' | 'history' | 'snippets' | 'favorites'
 
 export interface Library3D {
   id: string
@@ -31,6 +55,7 @@ export interface AIProvider {
     name: string
     description: string
     pricing: string
+    contextLength?: number // Total context window in tokens (prompt + output)
   }>
 }
 
@@ -41,6 +66,12 @@ export interface ChatMessage {
   timestamp: number
   library?: string
   hasCode?: boolean
+  interrupted?: boolean // Generation was stopped before the model finished
+  isError?: boolean // The app's notice that a request failed; never sent back to the model
+  parentId?: string // Previous message on this path; siblings sharing it are variants
+  model?: string // Model that generated an assistant message
+  siblingIds?: string[] // Variants at this position, oldest first
+  sources?: RAGSource[] // Past conversations and snippets used as context
 }
 
 export interface AppSettings {
@@ -52,6 +83,12 @@ export interface AppSettings {
   topP: number
   systemPrompt: string
   theme: 'light' | 'dark' | 'system'
+  embeddingProvider: EmbeddingProviderId // Falls back to offline embeddings when unconfigured
+  embeddingBaseUrl: string // OpenAI-compatible endpoint for the 'local' provider
+  embeddingModel: string // Model name for the 'local' provider
+  codeEditMode: 'full' | 'patch' // 'patch' asks the AI for edits to the current code
+  autoFixAttempts: number // Fix with AI re-runs the scene up to this many times; 0 only proposes a patch
+  customProviders: CustomProvider[] // Self-hosted OpenAI-compatible endpoints, listed after the built-in providers
 }
 
 interface AppState {
@@ -62,6 +99,8 @@ interface AppState {
   // View state
   currentView: ViewType
   setCurrentView: (view: ViewType) => void
+  showExportDialog: boolean // Opened from the playground or the desktop File menu
+  setShowExportDialog: (open: boolean) => void
 
   // Conversation state (NEW with SQLite)
   conversations: Conversation[]
@@ -76,16 +115,34 @@ interface AppState {
   // Chat/Message state
   messages: ChatMessage[]
   isLoading: boolean
-  addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => void
+  addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp' | 'siblingIds'>) => string
+  addMessageVariant: (siblingId: string, message: Omit<ChatMessage, 'id' | 'timestamp' | 'parentId' | 'siblingIds'>) => string
+  selectMessageVariant: (id: string) => void
   setLoading: (loading: boolean) => void
   clearMessages: () => void
   deleteMessage: (id: string) => void
-  editMessage: (id: string, newContent: string) => void
-  regenerateMessage: (id: string) => Promise<void>
+  editMessage: (id: string, newContent: string) => string
+  updateMessage: (id: string, content: string, options?: { interrupted?: boolean; isError?: boolean }) => void
 
   // Code state
   currentCode: string
   setCurrentCode: (code: string) => void
+  pendingPatch: CodePatch | null // AI edits awaiting review in the editor
+  setPendingPatch: (patch: CodePatch | null) => void
+  sceneThumbnail: { code: string; dataUrl: string } | null // Last captured render and the code it shows; kept in memory
+  setSceneThumbnail: (code: string, dataUrl: string) => void
+  getSceneThumbnail: (code: string) => string | undefined
+  sceneXR: SceneXRSettings // WebXR mode and reference space, saved with the conversation
+  setSceneXR: (settings: Partial<SceneXRSettings>) => void
+
+  // Project files besides the entry file, whose content is currentCode
+  projectFiles: ProjectFiles
+  activeFilePath: string | null // File open in the editor; null for the entry file
+  setActiveFile: (path: string | null) => void
+  setProjectFile: (path: string, content: string) => void
+  deleteProjectFile: (path: string) => void
+  applyCodeFiles: (files: CodeFile[]) => boolean // True if one of them was the entry file
+  getProjectFiles: () => ProjectFiles
 
   // Settings state
   settings: AppSettings
@@ -101,6 +158,9 @@ interface AppState {
   setProviders: (providers: AIProvider[]) => void
   getCurrentProvider: () => AIProvider | undefined
   getCurrentModel: () => AIProvider['models'][0] | undefined
+  getEmbeddingProvider: () => EmbeddingProvider
+  modelCatalog: ModelCatalogEntry[] // Model lists fetched from the providers' APIs
+  refreshModelCatalog: (apiKeys?: Record<string, string>) => Promise<ModelCatalogRefresh>
 
   // Code Snippets state (NEW with SQLite)
   snippets: CodeSnippet[]
@@ -110,11 +170,146 @@ interface AppState {
   loadSnippetToEditor: (id: string) => void
   searchSnippets: (query: string) => CodeSnippet[]
 
+  // Favorites state, ordered by favoriteOrder
+  favorites: Favorite[]
+  loadFavorites: () => Promise<void>
+  addFavorite: (params: CreateFavoriteParams) => Promise<string>
+  updateFavorite: (id: string, params: UpdateFavoriteParams) => Promise<void>
+  removeFavorite: (id: string) => Promise<void>
+  reorderFavorites: (orderedIds: string[]) => Promise<void>
+  openFavorite: (id: string) => void
+
   // Monetization state
   isPremiumUser: boolean
   setPremiumUser: (value: boolean) => void
 }
 
+function toChatMessage(message: DBMessage): ChatMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    timestamp: message.timestamp,
+    library: message.library,
+    hasCode: message.hasCode,
+    interrupted: message.interrupted,
+    isError: message.isError,
+    parentId: message.parentId,
+    model: message.model,
+    siblingIds: message.siblingIds,
+    sources: message.sources
+  }
+}
+
+function embeddingProviderFor(settings: AppSettings): EmbeddingProvider {
+  return createEmbeddingProvider({
+    provider: settings.embeddingProvider,
+    // Cloud embedding providers share the chat provider's API key
+    apiKey: settings.apiKeys[settings.embeddingProvider],
+    baseUrl: settings.embeddingBaseUrl,
+    model: settings.embeddingModel
+  })
+}
+
+/**
+ * Reset the model selection if the saved model is no longer offered: to the
+ * provider's first model, or to the defaults if the provider is gone
+ */
+function withValidSelection(settings: AppSettings, providers: AIProvider[]): AppSettings {
+  const provider = providers.find(p => p.id === settings.selectedProvider)
+  if (provider?.models.some(m => m.id === settings.selectedModel)) return settings
+
+  if (provider && provider.models.length > 0) {
+    return { ...settings, selectedModel: provider.models[0].id }
+  }
+  return {
+    ...settings,
+    selectedProvider: defaultSettings.selectedProvider,
+    selectedModel: defaultSettings.selectedModel
+  }
+}
+
+// Project files are saved after editing pauses for this long
+const PROJECT_SAVE_DELAY_MS = 1000
+
+let pendingProjectSave: { conversationId: string; files: ProjectFiles } | null = null
+let projectSaveTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * Save a conversation's project files once editing pauses
+ */
+function scheduleProjectSave(conversationId: string | null, files: ProjectFiles): void {
+  if (!conversationId) return
+
+  pendingProjectSave = { conversationId, files }
+  if (projectSaveTimer) clearTimeout(projectSaveTimer)
+  projectSaveTimer = setTimeout(flushProjectSave, PROJECT_SAVE_DELAY_MS)
+}
+
+/**
+ * Write a scheduled save now, before switching conversations
+ */
+function flushProjectSave(): void {
+  if (projectSaveTimer) clearTimeout(projectSaveTimer)
+  projectSaveTimer = null
+
+  if (!pendingProjectSave) return
+  const { conversationId, files } = pendingProjectSave
+  pendingProjectSave = null
+
+  try {
+    dbService.saveProjectFiles(conversationId, files)
+  } catch (error) {
+    console.error('Failed to save project files:', error)
+  }
+}
+
+/**
+ * Save the last captured render as the conversation's preview image when
+ * switching away from it. Returns true if the preview changed; an unchanged
+ * one is not written again.
+ */
+function saveConversationThumbnail(
+  conversationId: string | null,
+  thumbnail: { code: string; dataUrl: string } | null,
+  currentCode: string
+): boolean {
+  if (!conversationId || !thumbnail || thumbnail.code !== currentCode) return false
+  if (dbService.getConversation(conversationId)?.screenshotBase64 === thumbnail.dataUrl) return false
+
+  try {
+    dbService.setConversationScreenshot(conversationId, thumbnail.dataUrl)
+    return true
+  } catch (error) {
+    console.error('Failed to save conversation thumbnail:', error)
+    return false
+  }
+}
+
+/**
+ * Index a message for retrieval in the background. Failures only affect
+ * search quality, so they are logged.
+ */
+function indexMessageInBackground(
+  message: { id: string; content: string; role: 'user' | 'assistant'; conversationId: string; library?: string },
+  settings: AppSettings
+): void {
+  if (!message.content.trim()) return
+
+  indexMessageForRAG(message, embeddingProviderFor(settings)).catch(error => {
+    console.error('Background RAG indexing failed:', error)
+  })
+}
+
+/**
+ * Index history that has no embedding from the current model yet
+ */
+function backfillInBackground(settings: AppSettings): void {
+  backfillRAGIndex(embeddingProviderFor(settings)).catch(error => {
+    console.error('Background RAG backfill failed:', error)
+  })
+}
+
 export const useAppStore = create<AppState>((set, get) => ({
   // ==================== Initialization ====================
 
@@ -125,48 +320,54 @@ export const useAppStore = create<AppState>((set, get) => ({
       // Initialize SQLite database
       await dbService.initialize()
 
+      // Model lists from the last refresh; providers never fetched keep the built-in list
+      const modelCatalog = dbService.getModelCatalog()
+      const builtInProviders = applyModelCatalog(defaultProviders, modelCatalog)
+
       // Load settings from database and merge with defaults
       const dbSettings = dbService.getSettings()
       if (dbSettings) {
         // Merge database settings with defaults to ensure all fields are present
-        let mergedSettings = { ...defaultSettings, ...dbSettings }
-
-        // Reset provider/model selection if the saved model no longer exists in the current provider list
-        const savedProvider = defaultProviders.find(p => p.id === mergedSettings.selectedProvider)
-        const savedModel = savedProvider?.models.find(m => m.id === mergedSettings.selectedModel)
-        if (!savedProvider || !savedModel) {
-          mergedSettings.selectedProvider = defaultSettings.selectedProvider
-          mergedSettings.selectedModel = defaultSettings.selectedModel
-        }
+        const mergedSettings = { ...defaultSettings, ...dbSettings }
+        const providers = withCustomProviders(builtInProviders, mergedSettings.customProviders)
 
-        set({ settings: mergedSettings })
+        set({ settings: withValidSelection(mergedSettings, providers), providers, modelCatalog })
       } else {
         // No settings in database, save defaults
         dbService.saveSettings(defaultSettings)
+        set({ providers: builtInProviders, modelCatalog })
       }
 
       // Load conversations list
       const conversations = dbService.getConversations()
       set({ conversations })
 
+      get().loadFavorites().catch(error => {
+        console.error('Failed to load favorites:', error)
+      })
+
       // If there's a current conversation, load its messages
       const { currentConversationId } = get()
       if (currentConversationId) {
         const messages = dbService.getMessages(currentConversationId)
         set({
-          messages: messages.map(m => ({
-            id: m.id,
-            role: m.role,
-            content: m.content,
-            timestamp: m.timestamp,
-            library: m.library,
-            hasCode: m.hasCode
-          }))
+          messages: messages.map(toChatMessage),
+          sceneXR: dbService.getConversationXRSettings(currentConversationId) || DEFAULT_XR_SETTINGS
         })
       }
 
       set({ isInitialized: true })
       console.log('✅ App store initialized with SQLite')
+
+      backfillInBackground(get().settings)
+
+      // Offline refreshes fail per provider and leave the lists as they are
+      const { providers, settings } = get()
+      if (isModelCatalogStale(providers, modelCatalog, settings.apiKeys)) {
+        get().refreshModelCatalog().catch(error => {
+          console.error('Background model list refresh failed:', error)
+        })
+      }
     } catch (error) {
       console.error('Failed to initialize app store:', error)
       // Fall back to defaults on error
@@ -178,6 +379,8 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   currentView: 'chat',
   setCurrentView: (view) => set({ currentView: view }),
+  showExportDialog: false,
+  setShowExportDialog: (open) => set({ showExportDialog: open }),
 
   // ==================== Conversation Management (NEW) ====================
 
@@ -190,6 +393,9 @@ export const useAppStore = create<AppState>((set, get) => ({
   },
 
   createConversation: (title) => {
+    flushProjectSave()
+    saveConversationThumbnail(get().currentConversationId, get().sceneThumbnail, get().currentCode)
+
     const { settings } = get()
     const id = dbService.createConversation({
       title: title || `New Conversation ${new Date().toLocaleString()}`,
@@ -206,22 +412,41 @@ export const useAppStore = create<AppState>((set, get) => ({
       messages: []
     })
 
+    // The new conversation starts from the files in the editor
+    scheduleProjectSave(id, get().getProjectFiles())
+    dbService.setConversationXRSettings(id, get().sceneXR)
+
     return id
   },
 
   loadConversation: (id) => {
+    flushProjectSave()
+    if (saveConversationThumbnail(get().currentConversationId, get().sceneThumbnail, get().currentCode)) {
+      get().loadConversations()
+    }
+
     const messages = dbService.getMessages(id)
     set({
       currentConversationId: id,
-      messages: messages.map(m => ({
-        id: m.id,
-        role: m.role,
-        content: m.content,
-        timestamp: m.timestamp,
-        library: m.library,
-        hasCode: m.hasCode
-      })),
-      currentView: 'chat'
+      messages: messages.map(toChatMessage),
+      currentView: 'chat',
+      sceneXR: dbService.getConversationXRSettings(id) || DEFAULT_XR_SETTINGS
+    })
+
+    // The files were saved under the entry path of the conversation's library
+    const { settings, libraries } = get()
+    const libraryId = dbService.getConversation(id)?.library
+    if (libraryId && libraryId !== settings.selectedLibrary && libraries.some(l => l.id === libraryId)) {
+      get().updateSettings({ selectedLibrary: libraryId })
+    }
+
+    // Restore the conversation's files, or start empty without any
+    const { [getEntryPath(get().settings.selectedLibrary)]: entry, ...rest } = dbService.getProjectFiles(id)
+    set({
+      currentCode: entry ?? '',
+      projectFiles: rest,
+      activeFilePath: null,
+      pendingPatch: null
     })
   },
 
@@ -252,7 +477,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   isLoading: false,
 
   addMessage: (message) => {
-    const { currentConversationId, settings } = get()
+    const { currentConversationId, settings, messages } = get()
 
     // Create conversation if none exists
     let conversationId = currentConversationId
@@ -262,6 +487,8 @@ export const useAppStore = create<AppState>((set, get) => ({
 
     const timestamp = Date.now()
     const hasCode = message.content.includes('```')
+    // New messages continue the active path
+    const parentId = message.parentId ?? messages[messages.length - 1]?.id
 
     // Add to database
     const id = dbService.addMessage({
@@ -270,7 +497,11 @@ export const useAppStore = create<AppState>((set, get) => ({
       content: message.content,
       timestamp,
       hasCode,
-      library: message.library || settings.selectedLibrary
+      library: message.library || settings.selectedLibrary,
+      parentId,
+      model: message.model,
+      sources: message.sources,
+      isError: message.isError
     })
 
     // Update local state
@@ -283,11 +514,26 @@ export const useAppStore = create<AppState>((set, get) => ({
           content: message.content,
           timestamp,
           library: message.library,
-          hasCode
+          hasCode,
+          parentId,
+          model: message.model,
+          siblingIds: [id],
+          sources: message.sources,
+          isError: message.isError
         }
       ]
     }))
 
+    if (!message.isError) {
+      indexMessageInBackground({
+        id,
+        content: message.content,
+        role: message.role,
+        conversationId,
+        library: message.library || settings.selectedLibrary
+      }, settings)
+    }
+
     // Auto-generate title from first user message
     if (message.role === 'user' && get().messages.length <= 1) {
       const title = message.content.length > 50
@@ -297,6 +543,8 @@ export const useAppStore = create<AppState>((set, get) => ({
       dbService.updateConversation(conversationId, { title })
       get().loadConversations()
     }
+
+    return id
   },
 
   setLoading: (loading) => set({ isLoading: loading }),
@@ -307,42 +555,194 @@ export const useAppStore = create<AppState>((set, get) => ({
   },
 
   deleteMessage: (id) => {
+    const { currentConversationId } = get()
     dbService.deleteMessage(id)
-    set((state) => ({
-      messages: state.messages.filter(m => m.id !== id)
-    }))
+
+    // Reload the path: another variant may take the deleted message's place
+    if (currentConversationId) {
+      set({ messages: dbService.getMessages(currentConversationId).map(toChatMessage) })
+    } else {
+      set((state) => ({
+        messages: state.messages.filter(m => m.id !== id)
+      }))
+    }
   },
 
   editMessage: (id, newContent) => {
-    dbService.updateMessage(id, newContent)
+    const message = get().messages.find(m => m.id === id)
+    if (!message) {
+      throw new Error('Message not found in the current conversation')
+    }
+
+    // Fork instead of rewriting: the edited text starts a new branch and the
+    // original message keeps its replies
+    return get().addMessageVariant(id, {
+      role: message.role,
+      content: newContent,
+      library: message.library
+    })
+  },
+
+  updateMessage: (id, content, options = {}) => {
+    const { currentConversationId, settings } = get()
+    const hasCode = content.includes('```')
+    dbService.updateMessage(id, content, { hasCode, interrupted: options.interrupted, isError: options.isError })
     set((state) => ({
       messages: state.messages.map(m =>
-        m.id === id ? { ...m, content: newContent } : m
+        m.id === id
+          ? { ...m, content, hasCode, interrupted: options.interrupted ?? m.interrupted, isError: options.isError ?? m.isError }
+          : m
       )
     }))
+
+    // Streamed replies are saved empty first, so they are indexed once complete
+    const message = get().messages.find(m => m.id === id)
+    if (message && !message.isError && currentConversationId) {
+      indexMessageInBackground({
+        id,
+        content,
+        role: message.role,
+        conversationId: currentConversationId,
+        library: message.library || settings.selectedLibrary
+      }, settings)
+    }
   },
 
-  regenerateMessage: async (id) => {
-    // This will be implemented with AI integration
-    // For now, just delete the message
-    get().deleteMessage(id)
+  addMessageVariant: (siblingId, message) => {
+    const { currentConversationId, settings, messages } = get()
+    const sibling = messages.find(m => m.id === siblingId)
+    if (!currentConversationId || !sibling) {
+      throw new Error('Message not found in the current conversation')
+    }
+
+    const hasCode = message.content.includes('```')
+
+    const id = dbService.addMessage({
+      conversationId: currentConversationId,
+      role: message.role,
+      content: message.content,
+      timestamp: Date.now(),
+      hasCode,
+      library: message.library || settings.selectedLibrary,
+      parentId: sibling.parentId,
+      model: message.model,
+      sources: message.sources
+    })
+
+    // The new variant is now active, so the path ends at it
+    set({ messages: dbService.getMessages(currentConversationId).map(toChatMessage) })
+
+    indexMessageInBackground({
+      id,
+      content: message.content,
+      role: message.role,
+      conversationId: currentConversationId,
+      library: message.library || settings.selectedLibrary
+    }, settings)
+
+    return id
+  },
+
+  selectMessageVariant: (id) => {
+    const { currentConversationId } = get()
+    if (!currentConversationId) return
+
+    dbService.selectMessage(id)
+    set({ messages: dbService.getMessages(currentConversationId).map(toChatMessage) })
   },
 
   // ==================== Code State ====================
 
   currentCode: '',
-  setCurrentCode: (code) => set({ currentCode: code }),
+  setCurrentCode: (code) => {
+    set({ currentCode: code })
+    scheduleProjectSave(get().currentConversationId, get().getProjectFiles())
+  },
+  pendingPatch: null,
+  setPendingPatch: (patch) => set({ pendingPatch: patch }),
+  sceneThumbnail: null,
+  // Saved as the conversation's preview image when switching conversations
+  setSceneThumbnail: (code, dataUrl) => set({ sceneThumbnail: { code, dataUrl } }),
+  getSceneThumbnail: (code) => {
+    const { sceneThumbnail } = get()
+    return sceneThumbnail && sceneThumbnail.code === code ? sceneThumbnail.dataUrl : undefined
+  },
+  sceneXR: DEFAULT_XR_SETTINGS,
+  setSceneXR: (settings) => {
+    const sceneXR = { ...get().sceneXR, ...settings }
+    set({ sceneXR })
+
+    const { currentConversationId } = get()
+    if (currentConversationId) {
+      dbService.setConversationXRSettings(currentConversationId, sceneXR)
+    }
+  },
+
+  // ==================== Project Files ====================
+
+  projectFiles: {},
+  activeFilePath: null,
+
+  setActiveFile: (path) => set({ activeFilePath: path }),
+
+  setProjectFile: (path, content) => {
+    if (path === getEntryPath(get().settings.selectedLibrary)) {
+      get().setCurrentCode(content)
+      return
+    }
+
+    set(state => ({ projectFiles: { ...state.projectFiles, [path]: content } }))
+    scheduleProjectSave(get().currentConversationId, get().getProjectFiles())
+  },
+
+  deleteProjectFile: (path) => {
+    const { [path]: _deleted, ...rest } = get().projectFiles
+    set(state => ({
+      projectFiles: rest,
+      activeFilePath: state.activeFilePath === path ? null : state.activeFilePath
+    }))
+    scheduleProjectSave(get().currentConversationId, get().getProjectFiles())
+  },
+
+  applyCodeFiles: (files) => {
+    const libraryId = get().settings.selectedLibrary
+    let wroteEntry = false
+    for (const file of files) {
+      // The AI may name the entry file differently (App.js, src/App.jsx)
+      if (isEntryPath(file.path, libraryId)) {
+        get().setCurrentCode(file.code)
+        wroteEntry = true
+      } else {
+        get().setProjectFile(file.path, file.code)
+      }
+    }
+    return wroteEntry
+  },
+
+  getProjectFiles: () => {
+    const { projectFiles, currentCode, settings } = get()
+    return { [getEntryPath(settings.selectedLibrary)]: currentCode, ...projectFiles }
+  },
 
   // ==================== Settings State ====================
 
   settings: defaultSettings,
 
   updateSettings: (newSettings) => {
+    const previousModel = getEmbeddingModelKey(embeddingProviderFor(get().settings))
     set((state) => {
       const updated = { ...state.settings, ...newSettings }
       dbService.saveSettings(updated)
-      return { settings: updated }
+      return {
+        settings: updated,
+        providers: withCustomProviders(state.providers, updated.customProviders)
+      }
     })
+
+    // A different embedding model needs the history re-embedded
+    if (getEmbeddingModelKey(embeddingProviderFor(get().settings)) !== previousModel) {
+      backfillInBackground(get().settings)
+    }
   },
 
   // ==================== Library State ====================
@@ -367,6 +767,26 @@ export const useAppStore = create<AppState>((set, get) => ({
     const provider = providers.find(p => p.id === settings.selectedProvider)
     return provider?.models.find(m => m.id === settings.selectedModel)
   },
+  getEmbeddingProvider: () => embeddingProviderFor(get().settings),
+
+  modelCatalog: [],
+
+  // Keys entered in settings can be used before they are saved
+  refreshModelCatalog: async (apiKeys) => {
+    const result = await refreshModelCatalog(defaultProviders, apiKeys ?? get().settings.apiKeys)
+    if (result.updated.length === 0) return result
+
+    const modelCatalog = dbService.getModelCatalog()
+    const { settings } = get()
+    const providers = withCustomProviders(applyModelCatalog(defaultProviders, modelCatalog), settings.customProviders)
+    set({ modelCatalog, providers })
+
+    const selection = withValidSelection(settings, providers)
+    if (selection !== settings) {
+      get().updateSettings({ selectedProvider: selection.selectedProvider, selectedModel: selection.selectedModel })
+    }
+    return result
+  },
 
   // ==================== Code Snippets (NEW) ====================
 
@@ -380,6 +800,11 @@ export const useAppStore = create<AppState>((set, get) => ({
   addSnippet: (snippet) => {
     const id = dbService.addSnippet(snippet)
     get().loadSnippets()
+
+    indexSnippetForRAG({ id, ...snippet }, embeddingProviderFor(get().settings)).catch(error => {
+      console.error('Background RAG indexing failed:', error)
+    })
+
     return id
   },
 
@@ -403,6 +828,60 @@ export const useAppStore = create<AppState>((set, get) => ({
     return dbService.searchSnippets(query)
   },
 
+  // ==================== Favorites ====================
+
+  favorites: [],
+
+  loadFavorites: async () => {
+    const favorites = await favoritesService.getAll()
+    set({ favorites })
+  },
+
+  addFavorite: async (params) => {
+    const id = await favoritesService.add(params)
+    await get().loadFavorites()
+    return id
+  },
+
+  updateFavorite: async (id, params) => {
+    await favoritesService.update(id, params)
+    await get().loadFavorites()
+  },
+
+  removeFavorite: async (id) => {
+    await favoritesService.delete(id)
+    set((state) => ({ favorites: state.favorites.filter(f => f.id !== id) }))
+  },
+
+  reorderFavorites: async (orderedIds) => {
+    // Show the new order right away; favorite_order is written one row at a time
+    const byId = new Map(get().favorites.map(f => [f.id, f]))
+    const reordered = orderedIds
+      .map(id => byId.get(id))
+      .filter((f): f is Favorite => f !== undefined)
+      .map((f, i) => ({ ...f, favoriteOrder: i + 1 }))
+    set({ favorites: reordered })
+
+    try {
+      await favoritesService.reorder(orderedIds)
+    } catch (error) {
+      await get().loadFavorites()
+      throw error
+    }
+  },
+
+  openFavorite: (id) => {
+    const favorite = get().favorites.find(f => f.id === id)
+    if (!favorite) return
+
+    const { settings, libraries } = get()
+    if (favorite.libraryId !== settings.selectedLibrary && libraries.some(l => l.id === favorite.libraryId)) {
+      get().updateSettings({ selectedLibrary: favorite.libraryId })
+    }
+    get().setCurrentCode(favorite.codeContent)
+    set({ currentView: 'playground' })
+  },
+
   // ==================== Monetization ====================
 
   isPremiumUser: AppConfig.forcePremiumMode || false,
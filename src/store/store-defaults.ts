@@ -5,6 +5,7 @@
  */
 
 import type { Library3D, AIProvider, AppSettings } from './app-store'
+import { anthropicAdapter, googleAdapter, openAIAdapter, togetherAdapter, xAIAdapter } from '@/lib/provider-adapters'
 
 // Default 3D libraries
 export const defaultLibraries: Library3D[] = [
@@ -384,202 +385,229 @@ export default App`
   }
 ]
 
-// Default AI providers
+// Default AI providers; ids, names and URLs of the AI ones come from their adapters
 export const defaultProviders: AIProvider[] = [
   {
-    id: 'together',
-    name: 'Together AI',
-    baseUrl: 'https://api.together.xyz/v1',
+    id: togetherAdapter.id,
+    name: togetherAdapter.name,
+    baseUrl: togetherAdapter.baseUrl,
     models: [
       {
         id: 'meta-llama/Llama-3.3-70B-Instruct-Turbo-Free',
         name: 'Llama 3.3 70B (FREE)',
         description: 'Latest Meta large model, free tier',
-        pricing: 'Free'
+        pricing: 'Free',
+        contextLength: 131072
       },
       {
         id: 'deepseek-ai/DeepSeek-R1-Distill-Llama-70B-free',
         name: 'DeepSeek R1 70B (FREE)',
         description: 'Advanced reasoning distill, free tier',
-        pricing: 'Free'
+        pricing: 'Free',
+        contextLength: 8192
       },
       {
         id: 'deepseek-ai/DeepSeek-V3',
         name: 'DeepSeek V3',
         description: 'Latest DeepSeek MoE flagship model',
-        pricing: '$1.25/1M tokens'
+        pricing: '$1.25/1M tokens',
+        contextLength: 131072
       },
       {
         id: 'deepseek-ai/DeepSeek-R1',
         name: 'DeepSeek R1',
         description: 'Full reasoning model, chain-of-thought',
-        pricing: '$3.00/1M tokens'
+        pricing: '$3.00/1M tokens',
+        contextLength: 163840
       },
       {
         id: 'meta-llama/Llama-3.3-70B-Instruct-Turbo',
         name: 'Llama 3.3 70B',
         description: 'Latest Meta large model',
-        pricing: '$0.88/1M tokens'
+        pricing: '$0.88/1M tokens',
+        contextLength: 131072
       },
       {
         id: 'Qwen/Qwen2.5-Coder-32B-Instruct',
         name: 'Qwen 2.5 Coder 32B',
         description: 'Advanced coding & XR specialist',
-        pricing: '$0.80/1M tokens'
+        pricing: '$0.80/1M tokens',
+        contextLength: 32768
       },
       {
         id: 'Qwen/Qwen2.5-72B-Instruct-Turbo',
         name: 'Qwen 2.5 72B Turbo',
         description: 'Large Qwen model, strong at code',
-        pricing: '$1.20/1M tokens'
+        pricing: '$1.20/1M tokens',
+        contextLength: 32768
       }
     ]
   },
   {
-    id: 'openai',
-    name: 'OpenAI',
-    baseUrl: 'https://api.openai.com/v1',
+    id: openAIAdapter.id,
+    name: openAIAdapter.name,
+    baseUrl: openAIAdapter.baseUrl,
     models: [
       {
         id: 'gpt-5.2',
         name: 'GPT-5.2',
         description: 'Best for coding and agentic tasks, 400K context',
-        pricing: '$1.75/1M in · $14.00/1M out'
+        pricing: '$1.75/1M in · $14.00/1M out',
+        contextLength: 400000
       },
       {
         id: 'gpt-5.2-pro',
         name: 'GPT-5.2 Pro',
         description: 'Smartest and most trustworthy, highest accuracy',
-        pricing: 'Premium tier'
+        pricing: 'Premium tier',
+        contextLength: 400000
       },
       {
         id: 'gpt-5.2-chat-latest',
         name: 'GPT-5.2 Chat (Latest)',
         description: 'Latest ChatGPT model, auto-updates, 128K context',
-        pricing: '$1.75/1M in · $14.00/1M out'
+        pricing: '$1.75/1M in · $14.00/1M out',
+        contextLength: 128000
       },
       {
         id: 'o3-mini-2025-01-31',
         name: 'o3 Mini',
         description: 'Fast reasoning model, 200K context',
-        pricing: '$1.10/1M in · $4.40/1M out'
+        pricing: '$1.10/1M in · $4.40/1M out',
+        contextLength: 200000
       },
       {
         id: 'o1-2024-12-17',
         name: 'o1',
         description: 'Advanced reasoning for complex problems, 200K context',
-        pricing: '$15.00/1M in · $60.00/1M out'
+        pricing: '$15.00/1M in · $60.00/1M out',
+        contextLength: 200000
       },
       {
         id: 'gpt-4o',
         name: 'GPT-4o',
         description: 'Versatile multimodal model, 128K context',
-        pricing: '$2.50/1M in · $10.00/1M out'
+        pricing: '$2.50/1M in · $10.00/1M out',
+        contextLength: 128000
       },
       {
         id: 'gpt-4o-mini',
         name: 'GPT-4o Mini',
         description: 'Fast and affordable, 128K context',
-        pricing: '$0.15/1M in · $0.60/1M out'
+        pricing: '$0.15/1M in · $0.60/1M out',
+        contextLength: 128000
       }
     ]
   },
   {
-    id: 'anthropic',
-    name: 'Anthropic',
-    baseUrl: 'https://api.anthropic.com',
+    id: anthropicAdapter.id,
+    name: anthropicAdapter.name,
+    baseUrl: anthropicAdapter.baseUrl,
     models: [
       {
         id: 'claude-opus-4-6',
         name: 'Claude Opus 4.6',
         description: 'Most capable Claude model',
-        pricing: '$15.00/1M tokens'
+        pricing: '$15.00/1M tokens',
+        contextLength: 200000
       },
       {
         id: 'claude-sonnet-4-6',
         name: 'Claude Sonnet 4.6',
         description: 'Best balance of speed and intelligence',
-        pricing: '$3.00/1M tokens'
+        pricing: '$3.00/1M tokens',
+        contextLength: 200000
       },
       {
         id: 'claude-haiku-4-5-20251001',
         name: 'Claude Haiku 4.5',
         description: 'Fastest and most affordable Claude',
-        pricing: '$0.80/1M tokens'
+        pricing: '$0.80/1M tokens',
+        contextLength: 200000
       },
       {
         id: 'claude-3-5-sonnet-20241022',
         name: 'Claude 3.5 Sonnet',
         description: 'Reliable workhorse for complex tasks',
-        pricing: '$3.00/1M tokens'
+        pricing: '$3.00/1M tokens',
+        contextLength: 200000
       }
     ]
   },
   {
-    id: 'google',
-    name: 'Google AI',
-    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    id: googleAdapter.id,
+    name: googleAdapter.name,
+    baseUrl: googleAdapter.baseUrl,
     models: [
       {
         id: 'gemini-3.1-pro-preview',
         name: 'Gemini 3.1 Pro',
         description: 'Latest and most powerful Gemini — reasoning, coding, multimodal, 1M context',
-        pricing: 'Free tier available'
+        pricing: 'Free tier available',
+        contextLength: 1048576
       },
       {
         id: 'gemini-2.5-pro',
         name: 'Gemini 2.5 Pro',
         description: 'High-capability reasoning & coding, 1M context',
-        pricing: '$1.25/1M in · $10.00/1M out'
+        pricing: '$1.25/1M in · $10.00/1M out',
+        contextLength: 1048576
       },
       {
         id: 'gemini-2.5-flash',
         name: 'Gemini 2.5 Flash',
         description: 'Best price/performance, 1M context, free tier',
-        pricing: '$0.30/1M in · $2.50/1M out'
+        pricing: '$0.30/1M in · $2.50/1M out',
+        contextLength: 1048576
       },
       {
         id: 'gemini-2.5-flash-lite',
         name: 'Gemini 2.5 Flash Lite',
         description: 'Fastest and lightest Gemini, 1M context',
-        pricing: '$0.10/1M in · $0.40/1M out'
+        pricing: '$0.10/1M in · $0.40/1M out',
+        contextLength: 1048576
       }
     ]
   },
   {
-    id: 'xai',
-    name: 'xAI',
-    baseUrl: 'https://api.x.ai/v1',
+    id: xAIAdapter.id,
+    name: xAIAdapter.name,
+    baseUrl: xAIAdapter.baseUrl,
     models: [
       {
         id: 'grok-4-0709',
         name: 'Grok 4',
         description: 'xAI flagship — advanced reasoning, coding, 256K context',
-        pricing: '$3.00/1M in · $15.00/1M out'
+        pricing: '$3.00/1M in · $15.00/1M out',
+        contextLength: 256000
       },
       {
         id: 'grok-4-fast-reasoning',
         name: 'Grok 4 Fast Reasoning',
         description: 'Fast reasoning, massive 2M context window',
-        pricing: '$0.20/1M in · $0.50/1M out'
+        pricing: '$0.20/1M in · $0.50/1M out',
+        contextLength: 2000000
       },
       {
         id: 'grok-3',
         name: 'Grok 3',
         description: 'General-purpose, strong at coding, 131K context',
-        pricing: '$3.00/1M in · $15.00/1M out'
+        pricing: '$3.00/1M in · $15.00/1M out',
+        contextLength: 131072
       },
       {
         id: 'grok-3-mini',
         name: 'Grok 3 Mini',
         description: 'Lightweight reasoning, fast and cost-effective, 131K context',
-        pricing: '$0.30/1M in · $0.50/1M out'
+        pricing: '$0.30/1M in · $0.50/1M out',
+        contextLength: 131072
       },
       {
         id: 'grok-code-fast-1',
         name: 'Grok Code Fast',
         description: 'Coding specialist with reasoning, optimized for code generation, 256K context',
-        pricing: '$0.20/1M in · $1.50/1M out'
+        pricing: '$0.20/1M in · $1.50/1M out',
+        contextLength: 256000
       }
     ]
   },
@@ -614,5 +642,11 @@ export const defaultSettings: AppSettings = {
   temperature: 0.7,
   topP: 0.9,
   systemPrompt: '',
-  theme: 'system'
+  theme: 'system',
+  embeddingProvider: 'together',
+  embeddingBaseUrl: 'http://localhost:11434/v1',
+  embeddingModel: '',
+  codeEditMode: 'full',
+  autoFixAttempts: 0,
+  customProviders: []
 }